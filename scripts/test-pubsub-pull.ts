@@ -0,0 +1,81 @@
+#!/usr/bin/env ts-node
+
+import { PubSub } from '@google-cloud/pubsub';
+import { PubSubPullSubscriber } from '../src/pubsub-pull-subscriber';
+import { GmailPushNotification } from '../src/types';
+import * as dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Exercise the Pub/Sub pull subscriber against the Pub/Sub emulator.
+ * Publishes a fake Gmail watch notification and waits for the subscriber to ack it.
+ *
+ * Usage:
+ *   gcloud beta emulators pubsub start --project=test-project
+ *   PUBSUB_EMULATOR_HOST=localhost:8085 GOOGLE_CLOUD_PROJECT_ID=test-project \
+ *     npx ts-node scripts/test-pubsub-pull.ts
+ */
+
+const TOPIC = 'gmail-notifications-test';
+const SUBSCRIPTION = 'gmail-pull-test';
+
+async function testPubSubPull() {
+  if (!process.env['PUBSUB_EMULATOR_HOST']) {
+    console.error('❌ PUBSUB_EMULATOR_HOST is not set; refusing to run against real Pub/Sub');
+    process.exit(1);
+  }
+
+  const projectId = process.env['GOOGLE_CLOUD_PROJECT_ID'] || 'test-project';
+  const pubsub = new PubSub({ projectId });
+
+  console.log(`🧪 Setting up ${TOPIC} / ${SUBSCRIPTION} on emulator ${process.env['PUBSUB_EMULATOR_HOST']}`);
+  const [topicExists] = await pubsub.topic(TOPIC).exists();
+  if (!topicExists) {
+    await pubsub.createTopic(TOPIC);
+  }
+  const [subscriptionExists] = await pubsub.subscription(SUBSCRIPTION).exists();
+  if (!subscriptionExists) {
+    await pubsub.topic(TOPIC).createSubscription(SUBSCRIPTION);
+  }
+
+  const expected: GmailPushNotification = { emailAddress: 'user@example.com', historyId: '123456' };
+  let attempts = 0;
+
+  const received = new Promise<GmailPushNotification>((resolve) => {
+    const subscriber = new PubSubPullSubscriber(SUBSCRIPTION, async (notification) => {
+      attempts++;
+      // Fail the first delivery to check that nack leads to redelivery
+      if (attempts === 1) {
+        throw new Error('Simulated processing failure');
+      }
+      await subscriber.stop();
+      resolve(notification);
+    });
+    subscriber.start();
+  });
+
+  await pubsub.topic(TOPIC).publishMessage({
+    data: Buffer.from(JSON.stringify({ emailAddress: expected.emailAddress, historyId: Number(expected.historyId) })),
+  });
+  console.log('📤 Published fake Gmail notification');
+
+  const timeout = new Promise<never>((_, reject) =>
+    setTimeout(() => reject(new Error('Timed out waiting for notification')), 30000)
+  );
+  const notification = await Promise.race([received, timeout]);
+
+  if (notification.emailAddress !== expected.emailAddress || notification.historyId !== expected.historyId) {
+    console.error('❌ Unexpected notification:', notification);
+    process.exit(1);
+  }
+  console.log(`✅ Received ${JSON.stringify(notification)} after ${attempts} deliveries`);
+  await pubsub.close();
+  process.exit(0);
+}
+
+testPubSubPull().catch((error) => {
+  console.error('❌ Test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+import 'dotenv/config';
+import { calendar_v3 } from 'googleapis';
+import { BusyInterval } from './types';
+
+/**
+ * Calendars checked for availability for users who have not chosen (DEFAULT_CALENDAR_IDS, comma-separated)
+ */
+export function getDefaultCalendarIds(): string[] {
+  const ids = (process.env['DEFAULT_CALENDAR_IDS'] || 'primary').split(',').map(id => id.trim()).filter(Boolean);
+  return ids.length ? ids : ['primary'];
+}
+
+/**
+ * The calendars to query for a user: always the primary calendar, where meetings are booked,
+ * plus the configured ones. The user's own address is the primary calendar under another name.
+ */
+export function availabilityCalendarIds(calendarIds: string[], userEmail: string): string[] {
+  const self = userEmail.toLowerCase();
+  const others = calendarIds
+    .map(id => id.trim())
+    .filter(id => id && id !== 'primary' && id.toLowerCase() !== self);
+  return ['primary', ...new Set(others)];
+}
+
+/**
+ * Whether an events.list item leaves the user free: marked "show as available" (transparent),
+ * or declined by the user. Holds are transparent too but are handled separately, as soft conflicts.
+ */
+export function isFreeTimeEvent(item: calendar_v3.Schema$Event): boolean {
+  if (item.transparency === 'transparent') return true;
+  return (item.attendees || []).some(attendee => attendee.self && attendee.responseStatus === 'declined');
+}
+
+/**
+ * Busy intervals from a freebusy.query response. Calendars Google could not read (not shared
+ * with the user, deleted) are reported in `failed` for the caller to handle.
+ */
+export function parseFreeBusy(calendars: Record<string, calendar_v3.Schema$FreeBusyCalendar> | undefined): { intervals: BusyInterval[]; failed: string[] } {
+  const intervals: BusyInterval[] = [];
+  const failed: string[] = [];
+  for (const [calendarId, calendar] of Object.entries(calendars || {})) {
+    if (calendar.errors?.length) {
+      failed.push(`${calendarId} (${calendar.errors.map(e => e.reason).join(', ')})`);
+      continue;
+    }
+    for (const busy of calendar.busy || []) {
+      const start = new Date(busy.start ?? '');
+      const end = new Date(busy.end ?? '');
+      if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end <= start) continue;
+      intervals.push({ start, end });
+    }
+  }
+  return { intervals, failed };
+}
+
+/**
+ * Sort intervals and join the ones that overlap or touch, so the result is a set of disjoint intervals
+ */
+export function mergeBusyIntervals(intervals: BusyInterval[]): BusyInterval[] {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: BusyInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start.getTime() <= last.end.getTime()) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+  return merged;
+}
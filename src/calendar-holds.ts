@@ -0,0 +1,67 @@
+import 'dotenv/config';
+import { calendar_v3 } from 'googleapis';
+import { CalendarEvent, FreeSlot } from './types';
+import { MeetingSlot } from './meeting-slots';
+import { meetingSummary } from './ics-generator';
+import { gmailThreadLink, THREAD_ID_PROPERTY } from './meeting-booking';
+
+// Private extended properties marking an event as a hold and when it lapses (epoch ms)
+export const HOLD_PROPERTY = 'mcpHold';
+export const HOLD_EXPIRES_PROPERTY = 'mcpHoldExpiresAt';
+
+/**
+ * How long a hold on an offered slot lasts without an answer. 0 turns holds off.
+ */
+export function getHoldTtlMs(): number {
+  return parseFloat(process.env['HOLD_TTL_HOURS'] || '48') * 60 * 60 * 1000;
+}
+
+/**
+ * The Calendar API event resource holding an offered slot. Holds are tentative and transparent,
+ * so they never show as busy to other people; this assistant ranks them as soft conflicts.
+ */
+export function buildHoldResource(slot: MeetingSlot, subject: string, threadId: string, expiresAt: Date): Record<string, unknown> {
+  return {
+    summary: `Hold: ${meetingSummary(subject)}`,
+    description: `Offered by email and released when another time is confirmed or on ${expiresAt.toISOString()}: ${gmailThreadLink(threadId)}`,
+    start: { dateTime: slot.start.toISOString() },
+    end: { dateTime: slot.end.toISOString() },
+    status: 'tentative',
+    transparency: 'transparent',
+    extendedProperties: {
+      private: {
+        [THREAD_ID_PROPERTY]: threadId,
+        [HOLD_PROPERTY]: 'true',
+        [HOLD_EXPIRES_PROPERTY]: String(expiresAt.getTime()),
+      },
+    },
+  };
+}
+
+export function isHoldItem(item: calendar_v3.Schema$Event): boolean {
+  return item.extendedProperties?.private?.[HOLD_PROPERTY] === 'true';
+}
+
+/**
+ * Whether a hold has lapsed: past its expiry, or its slot is over
+ */
+export function isHoldExpired(item: calendar_v3.Schema$Event, now: Date): boolean {
+  const expiresAt = Number(item.extendedProperties?.private?.[HOLD_EXPIRES_PROPERTY]);
+  const end = new Date(item.end?.dateTime ?? '').getTime();
+  return (!Number.isNaN(expiresAt) && expiresAt <= now.getTime()) || (!Number.isNaN(end) && end <= now.getTime());
+}
+
+/**
+ * Holds offered in other threads; a thread's own holds never conflict with its own scheduling
+ */
+export function withoutThreadHolds(events: CalendarEvent[], threadId?: string): CalendarEvent[] {
+  if (!threadId) return events;
+  return events.filter(event => !(event.hold && event.threadId === threadId));
+}
+
+/**
+ * Free slots without a hold on them first, then held slots, each in time order
+ */
+export function rankFreeSlots(slots: FreeSlot[]): FreeSlot[] {
+  return [...slots].sort((a, b) => Number(!!a.held) - Number(!!b.held) || a.start.localeCompare(b.start));
+}
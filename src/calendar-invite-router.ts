@@ -0,0 +1,225 @@
+import { DateTime } from 'luxon';
+import { CalendarEvent, CalendarInvite, EmailAddress, FreeSlot, InviteAction, MeetingRequestContext } from './types';
+import { buildCalendar, CalendarDocument } from './ics-generator';
+import { MeetingSlot } from './meeting-slots';
+
+export interface InviteAvailability {
+  // Events on the user's calendar that overlap the invite (or the time a COUNTER proposes)
+  conflicts: CalendarEvent[];
+  // Free time of the same length to propose when the invited time is taken
+  alternative: MeetingSlot | null;
+}
+
+export interface InviteResponsePlan {
+  action: InviteAction;
+  reason: string;
+  to: EmailAddress[];
+  subject: string;
+  body: string;
+  calendar?: CalendarDocument;
+  // The time accepted or proposed
+  slot?: MeetingSlot;
+}
+
+/**
+ * Busy events overlapping the invite, ignoring the invite's own copy on the calendar and
+ * tentative holds, which are only soft conflicts
+ */
+export function findInviteConflicts(invite: CalendarInvite, busyEvents: CalendarEvent[]): CalendarEvent[] {
+  return busyEvents.filter(event => {
+    if (event.iCalUID && event.iCalUID === invite.uid) return false;
+    if (event.hold) return false;
+    // All-day entries have no dateTime and do not block a time slot
+    if (!event.start?.dateTime || !event.end?.dateTime) return false;
+    const start = new Date(event.start.dateTime).getTime();
+    const end = new Date(event.end.dateTime).getTime();
+    return start < invite.end.getTime() && end > invite.start.getTime();
+  });
+}
+
+/**
+ * The earliest run of back-to-back free slots long enough for the meeting, starting after `notBefore`.
+ * Slots without a hold on them are preferred; held slots are used only when nothing else fits.
+ */
+export function findAlternativeSlot(freeSlots: FreeSlot[], durationMs: number, notBefore: Date): MeetingSlot | null {
+  return findSlotRun(freeSlots.filter(slot => !slot.held), durationMs, notBefore)
+    || findSlotRun(freeSlots, durationMs, notBefore);
+}
+
+function findSlotRun(freeSlots: FreeSlot[], durationMs: number, notBefore: Date): MeetingSlot | null {
+  const slots = freeSlots
+    .map(slot => ({ start: new Date(slot.start), end: new Date(slot.end) }))
+    .filter(slot => slot.start >= notBefore)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  for (let i = 0; i < slots.length; i++) {
+    const start = slots[i]!.start;
+    let end = slots[i]!.end;
+    for (let j = i + 1; end.getTime() - start.getTime() < durationMs && j < slots.length; j++) {
+      if (slots[j]!.start.getTime() !== end.getTime()) break;
+      end = slots[j]!.end;
+    }
+    if (end.getTime() - start.getTime() >= durationMs) {
+      return { start, end: new Date(start.getTime() + durationMs) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Decide how to answer an invite from the calendar alone: accept a free time, propose another
+ * time or decline when it is taken, and accept or decline a counter-proposal to the user's own event.
+ * Anything else (cancellations, replies, invites the user is not on) gets no response.
+ */
+export function planInviteResponse(
+  invite: CalendarInvite,
+  userEmail: string,
+  availability: InviteAvailability,
+  now: Date = new Date()
+): InviteResponsePlan {
+  const self = userEmail.toLowerCase();
+  const isSelf = (address: EmailAddress | null) => address?.email.toLowerCase() === self;
+  const summary = invite.summary || 'Meeting';
+  const none = (reason: string): InviteResponsePlan => ({ action: 'none', reason, to: [], subject: '', body: '' });
+
+  if (invite.method === 'CANCEL' || invite.status === 'CANCELLED') return none('cancelled');
+  if (invite.method !== 'REQUEST' && invite.method !== 'COUNTER') return none(`method:${invite.method.toLowerCase()}`);
+  if (invite.end <= now) return none('past-event');
+  if (invite.allDay) return none('all-day-event');
+  if (!invite.organizer) return none('no-organizer');
+
+  if (invite.method === 'COUNTER') {
+    // Counter-proposals go to the organizer, so only answer them for the user's own events
+    if (!isSelf(invite.organizer)) return none('not-organizer');
+    const attendees = invite.attendees.filter(attendee => !isSelf(attendee));
+    const proposer = attendees.find(attendee => attendee.partstat !== 'ACCEPTED') || attendees[0];
+    if (!proposer) return none('no-proposer');
+    const slot = { start: invite.start, end: invite.end };
+    if (availability.conflicts.length) {
+      return {
+        action: 'decline',
+        reason: 'counter-conflict',
+        to: [stripAttendee(proposer)],
+        subject: `New time declined: ${summary}`,
+        body: `Thanks for suggesting ${formatInviteTime(slot, invite.timeZone)}, but I'm not available then. Let's keep the original time.`,
+        calendar: {
+          method: 'DECLINECOUNTER',
+          content: buildCalendar('DECLINECOUNTER', [{
+            uid: invite.uid,
+            start: invite.start,
+            end: invite.end,
+            summary,
+            organizer: invite.organizer,
+            attendees: [stripAttendee(proposer)],
+            sequence: invite.sequence,
+          }], now),
+        },
+        slot,
+      };
+    }
+    // Accepting a counter means re-issuing the invite at the new time with a higher sequence
+    return {
+      action: 'accept',
+      reason: 'counter-free',
+      to: attendees.map(stripAttendee),
+      subject: `Updated invitation: ${summary}`,
+      body: `The meeting has moved to ${formatInviteTime(slot, invite.timeZone)}, as suggested.`,
+      calendar: {
+        method: 'REQUEST',
+        content: buildCalendar('REQUEST', [{
+          uid: invite.uid,
+          start: invite.start,
+          end: invite.end,
+          summary,
+          ...(invite.description ? { description: invite.description } : {}),
+          ...(invite.location ? { location: invite.location } : {}),
+          organizer: invite.organizer,
+          attendees: attendees.map(stripAttendee),
+          status: 'CONFIRMED',
+          sequence: invite.sequence + 1,
+        }], now),
+      },
+      slot,
+    };
+  }
+
+  if (isSelf(invite.organizer)) return none('own-invite');
+  const attendee = invite.attendees.find(isSelf);
+  if (!attendee) return none('not-an-attendee');
+
+  const invited = { start: invite.start, end: invite.end };
+  const reply = (method: 'REPLY' | 'COUNTER', partstat: string, slot: MeetingSlot): CalendarDocument => ({
+    method,
+    content: buildCalendar(method, [{
+      uid: invite.uid,
+      start: slot.start,
+      end: slot.end,
+      summary,
+      organizer: invite.organizer!,
+      attendees: [{ ...stripAttendee(attendee), partstat }],
+      sequence: invite.sequence,
+    }], now),
+  });
+
+  if (!availability.conflicts.length) {
+    return {
+      action: 'accept',
+      reason: 'free',
+      to: [invite.organizer],
+      subject: `Accepted: ${summary} @ ${formatInviteTime(invited, invite.timeZone)}`,
+      body: `I've accepted the invitation for ${formatInviteTime(invited, invite.timeZone)}. See you then.`,
+      calendar: reply('REPLY', 'ACCEPTED', invited),
+      slot: invited,
+    };
+  }
+  const conflictNames = availability.conflicts.map(event => event.summary || 'another meeting').join(', ');
+  if (availability.alternative) {
+    const slot = availability.alternative;
+    return {
+      action: 'propose_new_time',
+      reason: `conflict:${availability.conflicts.length}`,
+      to: [invite.organizer],
+      subject: `New time proposed: ${summary}`,
+      body: `I have a conflict at ${formatInviteTime(invited, invite.timeZone)} (${conflictNames}). Could we move this to ${formatInviteTime(slot, invite.timeZone)}?`,
+      calendar: reply('COUNTER', 'TENTATIVE', slot),
+      slot,
+    };
+  }
+  return {
+    action: 'decline',
+    reason: `conflict:${availability.conflicts.length}`,
+    to: [invite.organizer],
+    subject: `Declined: ${summary} @ ${formatInviteTime(invited, invite.timeZone)}`,
+    body: `Unfortunately I have a conflict at ${formatInviteTime(invited, invite.timeZone)} (${conflictNames}) and no free time nearby. Please suggest another time.`,
+    calendar: reply('REPLY', 'DECLINED', invited),
+    slot: invited,
+  };
+}
+
+/**
+ * A meeting context for an invite response, so it can wait in the approval queue like any other reply
+ */
+export function inviteMeetingContext(invite: CalendarInvite, plan: InviteResponsePlan): MeetingRequestContext {
+  const slot = plan.slot ? DateTime.fromJSDate(plan.slot.start, { zone: 'UTC' }) : null;
+  const minutes = plan.slot ? Math.round((plan.slot.end.getTime() - plan.slot.start.getTime()) / 60000) : 0;
+  return {
+    extracted_preferences: { date_range: slot ? [slot.toISODate()!] : [], preferred_days: [], preferred_time: '' },
+    suggested_meeting_times: slot && plan.slot ? [{
+      date: slot.toISODate()!,
+      time_slots: [`${slot.toFormat('HH:mm')}-${DateTime.fromJSDate(plan.slot.end, { zone: 'UTC' }).toFormat('HH:mm')}`],
+      timezone: 'UTC',
+    }] : [],
+    meeting_context: { intent: plan.action, meeting_type: 'calendar invite', mentions_slots: !!slot, user_action_required: 'approve' },
+    meeting_duration: `${minutes} minutes`,
+    notes: `${invite.method} for "${invite.summary}" (${plan.reason})`,
+  };
+}
+
+export function formatInviteTime(slot: MeetingSlot, timeZone: string): string {
+  const start = DateTime.fromJSDate(slot.start, { zone: timeZone });
+  const end = DateTime.fromJSDate(slot.end, { zone: timeZone });
+  return `${start.toFormat('ccc d LLL yyyy, HH:mm')}-${end.toFormat('HH:mm')} (${timeZone})`;
+}
+
+function stripAttendee(attendee: EmailAddress): EmailAddress {
+  return { name: attendee.name, email: attendee.email };
+}
@@ -1,14 +1,25 @@
-import { google } from 'googleapis';
-import { CalendarEvent, FreeSlot } from './types';
+import { calendar_v3, google } from 'googleapis';
+import { BookedMeeting, BusyInterval, CalendarEvent, FreeSlot, SchedulingPreferences } from './types';
 import { tokenManager } from './token-manager';
+import { apiErrorStatus, withGoogleApiClient } from './google-api-client';
+import { buildEventResource, toBookedMeeting, MeetingBookingInput, THREAD_ID_PROPERTY } from './meeting-booking';
+import { buildHoldResource, isHoldItem, isHoldExpired, HOLD_PROPERTY } from './calendar-holds';
+import { MeetingSlot } from './meeting-slots';
+import { availabilityCalendarIds, isFreeTimeEvent, mergeBusyIntervals, parseFreeBusy } from './busy-intervals';
+import { computeFreeGaps, computeFreeSlots, countMeetingsByDay, datesTimeRange, getDefaultSchedulingPreferences } from './scheduling-preferences';
+import { userSettingsManager } from './user-settings';
 import 'dotenv/config';
-import { DateTime } from 'luxon';
 
 export class CalendarMonitor {
   private calendar: any;
+  private calendarIds: string[] = ['primary'];
+  protected preferences: SchedulingPreferences = getDefaultSchedulingPreferences();
 
-  public async initialize(): Promise<boolean> {
-    const token = await tokenManager.getToken();
+  /**
+   * Set up the Calendar client for a user (the first stored token if no email is given)
+   */
+  public async initialize(userEmail?: string): Promise<boolean> {
+    const token = await tokenManager.getToken(userEmail);
     if (!token) {
       console.error('No tokens available for Calendar monitoring');
       return false;
@@ -27,33 +38,39 @@ export class CalendarMonitor {
       expiry_date: token.expiry_date,
     });
 
-    this.calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+    // Retries are handled by the shared GoogleApiClient, not by googleapis itself
+    this.calendar = withGoogleApiClient(google.calendar({ version: 'v3', auth: oauth2Client, retry: false }), 'calendar', token.user_email || '');
+    const accountEmail = token.user_email || '';
+    const settings = accountEmail ? await userSettingsManager.getSettings(accountEmail) : null;
+    this.calendarIds = availabilityCalendarIds(settings?.calendar_ids || [], accountEmail);
+    this.preferences = settings?.scheduling || getDefaultSchedulingPreferences();
     return true;
   }
 
+  // The window covering the requested dates in the user's time zone, or the next 2 days
+  protected timeRange(requestedDates?: string[]): { timeMin: Date; timeMax: Date } {
+    if (requestedDates && requestedDates.length > 0) {
+      return datesTimeRange(requestedDates, this.preferences.time_zone);
+    }
+    // Fallback to 2 days from now
+    const now = new Date();
+    return { timeMin: now, timeMax: new Date(now.getTime() + 2 * 24 * 60 * 60 * 1000) };
+  }
+
+  public getPreferences(): SchedulingPreferences {
+    return this.preferences;
+  }
+
   /**
-   * Get busy events for the specified dates
+   * Get busy events for the specified dates: the primary calendar's events with their titles,
+   * plus untitled "Busy" blocks from the user's other calendars. Events the user is free during
+   * (transparent or declined) are left out; tentative holds are kept and marked.
    */
   public async getBusyEvents(requestedDates?: string[]): Promise<CalendarEvent[]> {
     if (!this.calendar) {
-      console.error('Calendar client not initialized');
-      return [];
-    }
-    
-    let timeMin: Date;
-    let timeMax: Date;
-    
-    if (requestedDates && requestedDates.length > 0) {
-      // Use the requested date range
-      const sortedDates = requestedDates.sort();
-      timeMin = new Date(sortedDates[0] + 'T00:00:00Z');
-      timeMax = new Date(sortedDates[sortedDates.length - 1] + 'T23:59:59Z');
-    } else {
-      // Fallback to 2 days from now
-      const now = new Date();
-      timeMin = now;
-      timeMax = new Date(now.getTime() + 2 * 24 * 60 * 60 * 1000); // 2 days from now
+      throw new Error('Calendar client not initialized');
     }
+    const { timeMin, timeMax } = this.timeRange(requestedDates);
     
     try {
       const res = await this.calendar.events.list({
@@ -64,168 +81,236 @@ export class CalendarMonitor {
         orderBy: 'startTime',
         maxResults: 100,
       });
-      return (res.data.items || []).map((item: any) => ({
-        id: item.id,
-        summary: item.summary || '',
-        start: item.start,
-        end: item.end,
-      }));
+      const events: CalendarEvent[] = (res.data.items || [])
+        .filter((item: calendar_v3.Schema$Event) => isHoldItem(item) || !isFreeTimeEvent(item))
+        .map((item: calendar_v3.Schema$Event) => ({
+          id: item.id || '',
+          ...(item.iCalUID ? { iCalUID: item.iCalUID } : {}),
+          summary: item.summary || '',
+          start: { dateTime: item.start?.dateTime || '' },
+          end: { dateTime: item.end?.dateTime || '' },
+          ...(isHoldItem(item) ? { hold: true, threadId: item.extendedProperties?.private?.[THREAD_ID_PROPERTY] || '' } : {}),
+        }));
+      // Other calendars only expose free/busy, not titles
+      const otherCalendars = this.calendarIds.filter(id => id !== 'primary');
+      const otherBusy = otherCalendars.length ? await this.queryFreeBusy(otherCalendars, timeMin, timeMax) : [];
+      return events.concat(otherBusy.map(interval => ({
+        id: `busy-${interval.start.getTime()}`,
+        summary: 'Busy',
+        start: { dateTime: interval.start.toISOString() },
+        end: { dateTime: interval.end.toISOString() },
+      })));
     } catch (err) {
+      // An empty calendar would look free, so failures always reach the caller
       console.error('Error fetching calendar events:', err);
+      throw err;
+    }
+  }
+
+  /**
+   * When the user is busy on any of their calendars during the specified dates, as disjoint
+   * intervals. Uses freebusy.query, which already ignores transparent and declined events.
+   */
+  public async getBusyIntervals(requestedDates?: string[]): Promise<BusyInterval[]> {
+    if (!this.calendar) {
+      throw new Error('Calendar client not initialized');
+    }
+    const { timeMin, timeMax } = this.timeRange(requestedDates);
+    try {
+      return await this.queryFreeBusy(this.calendarIds, timeMin, timeMax);
+    } catch (err) {
+      // An empty calendar would look free, so failures always reach the caller
+      console.error('Error querying free/busy:', err);
+      throw err;
+    }
+  }
+
+  /**
+   * Busy intervals across the given calendars. Throws if any of them could not be read,
+   * since leaving one out would offer times the user is busy on it.
+   */
+  private async queryFreeBusy(calendarIds: string[], timeMin: Date, timeMax: Date): Promise<BusyInterval[]> {
+    const res = await this.calendar.freebusy.query({
+      requestBody: {
+        timeMin: timeMin.toISOString(),
+        timeMax: timeMax.toISOString(),
+        items: calendarIds.map(id => ({ id })),
+      },
+    });
+    const { intervals, failed } = parseFreeBusy(res.data.calendars);
+    const missing = calendarIds.filter(id => !res.data.calendars?.[id]);
+    if (failed.length || missing.length) {
+      throw new Error(`Free/busy unavailable for calendars: ${[...failed, ...missing].join(', ')}`);
+    }
+    return mergeBusyIntervals(intervals);
+  }
+
+  /**
+   * Tentative holds on the primary calendar during the specified dates. Holds are transparent,
+   * so free/busy does not report them.
+   */
+  protected async getHoldIntervals(requestedDates?: string[]): Promise<BusyInterval[]> {
+    if (!this.calendar) {
       return [];
     }
+    const { timeMin, timeMax } = this.timeRange(requestedDates);
+    const holds = await this.listHolds([], timeMin, timeMax);
+    return holds.flatMap(item => {
+      const start = item.start?.dateTime;
+      const end = item.end?.dateTime;
+      return start && end ? [{ start: new Date(start), end: new Date(end) }] : [];
+    });
+  }
+
+  /**
+   * Put a confirmed meeting on the primary calendar (events.insert, needs the calendar.events scope).
+   * With sendUpdates 'all' Google emails the invitations; 'none' leaves that to our own reply.
+   */
+  public async bookMeeting(input: MeetingBookingInput, sendUpdates: 'all' | 'none'): Promise<BookedMeeting> {
+    if (!this.calendar) {
+      throw new Error('Calendar client not initialized');
+    }
+    const res = await this.calendar.events.insert({
+      calendarId: 'primary',
+      sendUpdates,
+      // Required for the Meet conference in the request body to be created
+      conferenceDataVersion: input.addMeetLink ? 1 : 0,
+      requestBody: buildEventResource(input),
+    });
+    return toBookedMeeting(res.data);
+  }
+
+  /**
+   * The meeting already booked for a Gmail thread, if any
+   */
+  public async findThreadMeeting(threadId: string): Promise<BookedMeeting | null> {
+    if (!this.calendar) {
+      console.error('Calendar client not initialized');
+      return null;
+    }
+    const res = await this.calendar.events.list({
+      calendarId: 'primary',
+      privateExtendedProperty: [`${THREAD_ID_PROPERTY}=${threadId}`],
+      singleEvents: true,
+      maxResults: 10,
+    });
+    const item = (res.data.items || []).find((event: calendar_v3.Schema$Event) => event.status !== 'cancelled' && event.start?.dateTime);
+    return item ? toBookedMeeting(item) : null;
+  }
+
+  /**
+   * Place a tentative hold on each slot offered in a thread. Returns how many were placed.
+   */
+  public async placeHolds(threadId: string, subject: string, slots: MeetingSlot[], expiresAt: Date): Promise<number> {
+    if (!this.calendar) {
+      throw new Error('Calendar client not initialized');
+    }
+    for (const slot of slots) {
+      await this.calendar.events.insert({
+        calendarId: 'primary',
+        sendUpdates: 'none',
+        requestBody: buildHoldResource(slot, subject, threadId, expiresAt),
+      });
+    }
+    return slots.length;
   }
 
   /**
-   * Compute free slots for the given dates and timezone, default 9am-6pm, 30min slots
+   * Delete the holds placed for a thread. Returns how many were released.
    */
-  public async getFreeSlotsForDates(dates: string[], timeZone: string): Promise<FreeSlot[]> {
+  public async releaseHolds(threadId: string): Promise<number> {
+    const holds = await this.listHolds([`${THREAD_ID_PROPERTY}=${threadId}`]);
+    await this.deleteEvents(holds);
+    return holds.length;
+  }
+
+  /**
+   * Delete holds past their expiry or whose slot is over. Returns how many were released.
+   */
+  public async releaseExpiredHolds(now: Date = new Date()): Promise<number> {
+    const expired = (await this.listHolds([])).filter(item => isHoldExpired(item, now));
+    await this.deleteEvents(expired);
+    return expired.length;
+  }
+
+  private async listHolds(extraProperties: string[], timeMin?: Date, timeMax?: Date): Promise<calendar_v3.Schema$Event[]> {
+    if (!this.calendar) {
+      throw new Error('Calendar client not initialized');
+    }
+    const holds: calendar_v3.Schema$Event[] = [];
+    let pageToken: string | undefined;
+    do {
+      const res = await this.calendar.events.list({
+        calendarId: 'primary',
+        privateExtendedProperty: [`${HOLD_PROPERTY}=true`, ...extraProperties],
+        ...(timeMin ? { timeMin: timeMin.toISOString() } : {}),
+        ...(timeMax ? { timeMax: timeMax.toISOString() } : {}),
+        singleEvents: true,
+        maxResults: 250,
+        pageToken,
+      });
+      holds.push(...(res.data.items || []).filter((item: calendar_v3.Schema$Event) => item.status !== 'cancelled'));
+      pageToken = res.data.nextPageToken || undefined;
+    } while (pageToken);
+    return holds;
+  }
+
+  private async deleteEvents(items: calendar_v3.Schema$Event[]): Promise<void> {
+    for (const item of items) {
+      try {
+        await this.calendar.events.delete({ calendarId: 'primary', eventId: item.id, sendUpdates: 'none' });
+      } catch (err) {
+        // Already gone
+        const status = apiErrorStatus(err);
+        if (status === 404 || status === 410) continue;
+        throw err;
+      }
+    }
+  }
+
+  /**
+   * Compute free slots for the given dates within the user's working hours, as meeting-length
+   * slots clear of busy time plus buffers. Slots that only overlap tentative holds are kept and marked `held`.
+   */
+  public async getFreeSlotsForDates(dates: string[], timeZone: string, now: Date = this.now()): Promise<FreeSlot[]> {
     console.log('Calendar monitor received dates:', dates);
     console.log('Calendar monitor received timezone:', timeZone);
     
-    const events = await this.getBusyEvents(dates);
-    console.log('Busy events found:', events.length);
-    
-    const workingStartHour = 9;
-    const workingEndHour = 18;
-    const slotMinutes = 30;
-    const slots: FreeSlot[] = [];
-
-    // Build busy intervals using Luxon directly (no JS Date conversion)
-    const busyIntervals = events.map(e => ({
-      start: DateTime.fromISO(e.start.dateTime),
-      end: DateTime.fromISO(e.end.dateTime),
-    }));
+    const [busy, holds, meetingsByDay] = await Promise.all([
+      this.getBusyIntervals(dates),
+      this.getHoldIntervals(dates),
+      this.getMeetingsByDay(dates),
+    ]);
+    console.log('Busy intervals found:', busy.length);
     
-    console.log('Busy intervals:', busyIntervals.map(b => ({ start: b.start.toISO(), end: b.end.toISO() })));
-
-    for (const dateStr of dates) {
-      // Create base date in the specified timezone using Luxon - much simpler!
-      const baseDate = DateTime.fromISO(dateStr, { zone: timeZone });
-      
-      if (!baseDate.isValid) {
-        console.error(`Invalid date constructed from dateStr="${dateStr}" in timezone="${timeZone}". Error: ${baseDate.invalidReason}`);
-        continue;
-      }
-
-      for (let hour = workingStartHour; hour < workingEndHour; hour++) {
-        for (let min = 0; min < 60; min += slotMinutes) {
-          // Create slot times using Luxon - handles timezone automatically
-          const slotStart = baseDate.set({ hour, minute: min, second: 0, millisecond: 0 });
-          const slotEnd = slotStart.plus({ minutes: slotMinutes });
-          
-          // Convert to UTC for comparison with busy intervals
-          const slotStartUTC = slotStart.toUTC();
-          const slotEndUTC = slotEnd.toUTC();
-          
-          // Check overlap with busy intervals (already Luxon DateTime objects)
-          const overlaps = busyIntervals.some(busy => {
-            const busyStartUTC = busy.start.toUTC();
-            const busyEndUTC = busy.end.toUTC();
-            
-            // Add buffer to prevent back-to-back meetings
-            const busyStartWithBuffer = busyStartUTC.minus({ minutes: 5 });
-            const busyEndWithBuffer = busyEndUTC.plus({ minutes: 5 });
-            
-            const hasOverlap = slotStartUTC < busyEndWithBuffer && slotEndUTC > busyStartWithBuffer;
-            console.log(`🔍 Checking overlap: Slot ${slotStartUTC.toISO()}-${slotEndUTC.toISO()} vs Busy+buffer ${busyStartWithBuffer.toISO()}-${busyEndWithBuffer.toISO()} = ${hasOverlap}`);
-            
-            if (hasOverlap) {
-              console.log(`🚫 CONFLICT: Slot conflicts with busy period (including 5min buffer)`);
-            }
-            
-            return hasOverlap;
-          });
-          
-          if (!overlaps) {
-            slots.push({
-              start: slotStart.toISO(),
-              end: slotEnd.toISO(),
-            });
-          }
-        }
-      }
-    }
-    // Sort by start time
-    slots.sort((a, b) => a.start.localeCompare(b.start));
+    const slots = computeFreeSlots({ dates, timeZone, busy, holds, preferences: this.preferences, now, meetingsByDay });
+    console.log(`✅ Calculated ${slots.length} free slots`);
     return slots;
   }
 
   /**
-   * Get actual free time slots for given dates and timezone within business hours
+   * Get actual free time slots for given dates within the user's working hours.
    * This calculates gaps between busy events, which is more accurate than filtering all possible slots
    */
-  public async getActualFreeSlots(dates: string[], timeZone: string): Promise<FreeSlot[]> {
+  public async getActualFreeSlots(dates: string[], timeZone: string, now: Date = this.now()): Promise<FreeSlot[]> {
     console.log('📅 Getting actual free slots for dates:', dates, 'in timezone:', timeZone);
     
-    const events = await this.getBusyEvents(dates);
-    const freeSlots: FreeSlot[] = [];
-    
-    const workingStartHour = 9;
-    const workingEndHour = 18;
-    const slotMinutes = 30;
-    
-    for (const dateStr of dates) {
-      // Create business day boundaries in the specified timezone
-      const dayStart = DateTime.fromISO(dateStr, { zone: timeZone }).set({ 
-        hour: workingStartHour, minute: 0, second: 0, millisecond: 0 
-      });
-      const dayEnd = DateTime.fromISO(dateStr, { zone: timeZone }).set({ 
-        hour: workingEndHour, minute: 0, second: 0, millisecond: 0 
-      });
-      
-      // Get busy events for this specific date
-      const dayBusyEvents = events
-        .filter(event => {
-          const eventStart = DateTime.fromISO(event.start.dateTime);
-          return eventStart.toFormat('yyyy-MM-dd') === dateStr;
-        })
-        .map(event => ({
-          start: DateTime.fromISO(event.start.dateTime),
-          end: DateTime.fromISO(event.end.dateTime)
-        }))
-        .sort((a, b) => a.start.toMillis() - b.start.toMillis());
-      
-      console.log(`📊 Found ${dayBusyEvents.length} busy events for ${dateStr}`);
-      
-      // Find free slots as gaps between busy events
-      let currentTime = dayStart;
-      
-      for (const busyEvent of dayBusyEvents) {
-        // Add free slots before this busy event
-        while (currentTime < busyEvent.start && currentTime < dayEnd) {
-          const slotEnd = currentTime.plus({ minutes: slotMinutes });
-          
-          // Only add slot if it doesn't overlap with the busy event
-          if (slotEnd <= busyEvent.start) {
-            freeSlots.push({
-              start: currentTime.toISO()!,
-              end: slotEnd.toISO()!
-            });
-          }
-          
-          currentTime = currentTime.plus({ minutes: slotMinutes });
-        }
-        
-        // Skip past the busy event
-        currentTime = DateTime.max(currentTime, busyEvent.end);
-      }
-      
-      // Add remaining free slots after all busy events until end of day
-      while (currentTime < dayEnd) {
-        const slotEnd = currentTime.plus({ minutes: slotMinutes });
-        if (slotEnd <= dayEnd) {
-          freeSlots.push({
-            start: currentTime.toISO()!,
-            end: slotEnd.toISO()!
-          });
-        }
-        currentTime = currentTime.plus({ minutes: slotMinutes });
-      }
-    }
+    // Holds are soft conflicts and do not shorten free time
+    const [busy, meetingsByDay] = await Promise.all([this.getBusyIntervals(dates), this.getMeetingsByDay(dates)]);
+    const freeSlots = computeFreeGaps({ dates, timeZone, busy, preferences: this.preferences, now, meetingsByDay });
     
     console.log(`✅ Calculated ${freeSlots.length} actual free slots`);
     return freeSlots;
   }
 
-} 
\ No newline at end of file
+  // Meetings already on each date, only fetched when the user has a daily limit
+  private async getMeetingsByDay(dates: string[]): Promise<Map<string, number>> {
+    if (!this.preferences.max_meetings_per_day) return new Map();
+    return countMeetingsByDay(await this.getBusyEvents(dates), this.preferences);
+  }
+
+  protected now(): Date {
+    return new Date();
+  }
+
+}
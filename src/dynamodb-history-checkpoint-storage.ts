@@ -0,0 +1,44 @@
+import 'dotenv/config';
+import { DynamoDBClient, ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { HistoryCheckpointStore } from './history-checkpoint-store';
+
+/**
+ * History checkpoints in the `history_checkpoints` table (partition key `user_email`)
+ */
+export class DynamoDBHistoryCheckpointStore implements HistoryCheckpointStore {
+  private tableName: string = process.env['HISTORY_CHECKPOINT_TABLE'] || 'history_checkpoints';
+  private client: DynamoDBDocumentClient;
+
+  constructor() {
+    this.client = DynamoDBDocumentClient.from(new DynamoDBClient({
+      region: process.env['AWS_REGION'] || 'us-east-1'
+    }));
+  }
+
+  async getHistoryId(userEmail: string): Promise<string | null> {
+    const result = await this.client.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { user_email: userEmail }
+    }));
+    return (result.Item?.['history_id'] as string | undefined) || null;
+  }
+
+  async setHistoryId(userEmail: string, historyId: string): Promise<void> {
+    try {
+      // historyIds are decimal strings: a shorter one, or an equally long one that sorts
+      // first, is older. The condition drops stale writes from overlapping syncs.
+      await this.client.send(new UpdateCommand({
+        TableName: this.tableName,
+        Key: { user_email: userEmail },
+        UpdateExpression: 'SET history_id = :id, updated_at = :now',
+        ConditionExpression: 'attribute_not_exists(history_id) OR size(history_id) < :length OR (size(history_id) = :length AND history_id < :id)',
+        ExpressionAttributeValues: { ':id': historyId, ':length': historyId.length, ':now': new Date().toISOString() }
+      }));
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) return;
+      console.error(`❌ Error storing history checkpoint for ${userEmail} in DynamoDB:`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import 'dotenv/config';
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand, ScanCommand, DeleteCommand } from "@aws-sdk/lib-dynamodb";
+import { ProcessedMessageRecord, ProcessingOutcome } from './types';
+import { MessageLedgerStorage } from './message-ledger';
+
+/**
+ * Message ledger in the `processed_messages` table
+ * (partition key `user_email`, sort key `message_id`, TTL attribute `expires_at`)
+ */
+export class DynamoDBLedgerStorage implements MessageLedgerStorage {
+  private tableName: string = process.env['MESSAGE_LEDGER_TABLE'] || 'processed_messages';
+  private client: DynamoDBDocumentClient;
+
+  constructor() {
+    this.client = DynamoDBDocumentClient.from(new DynamoDBClient({
+      region: process.env['AWS_REGION'] || 'us-east-1'
+    }));
+  }
+
+  async getRecord(userEmail: string, messageId: string): Promise<ProcessedMessageRecord | null> {
+    try {
+      const result = await this.client.send(new GetCommand({
+        TableName: this.tableName,
+        Key: { user_email: userEmail, message_id: messageId }
+      }));
+      return (result.Item as ProcessedMessageRecord) || null;
+    } catch (error) {
+      console.error(`❌ Error reading ledger record ${messageId} from DynamoDB:`, error);
+      throw error;
+    }
+  }
+
+  async putRecord(record: ProcessedMessageRecord): Promise<void> {
+    try {
+      await this.client.send(new PutCommand({
+        TableName: this.tableName,
+        Item: record
+      }));
+    } catch (error) {
+      console.error(`❌ Error storing ledger record ${record.message_id} in DynamoDB:`, error);
+      throw error;
+    }
+  }
+
+  async listRecordsByOutcome(userEmail: string, outcome: ProcessingOutcome): Promise<ProcessedMessageRecord[]> {
+    const records: ProcessedMessageRecord[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    do {
+      const result = await this.client.send(new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: 'user_email = :email',
+        FilterExpression: 'outcome = :outcome',
+        ExpressionAttributeValues: { ':email': userEmail, ':outcome': outcome },
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+      records.push(...((result.Items || []) as ProcessedMessageRecord[]));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return records;
+  }
+
+  async deleteExpired(nowSeconds: number): Promise<number> {
+    // DynamoDB TTL removes expired items eventually (within ~48h); this makes pruning immediate
+    let deleted = 0;
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    do {
+      const result = await this.client.send(new ScanCommand({
+        TableName: this.tableName,
+        FilterExpression: 'expires_at < :now',
+        ExpressionAttributeValues: { ':now': nowSeconds },
+        ProjectionExpression: 'user_email, message_id',
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+
+      for (const item of result.Items || []) {
+        try {
+          await this.client.send(new DeleteCommand({
+            TableName: this.tableName,
+            Key: { user_email: item['user_email'], message_id: item['message_id'] }
+          }));
+          deleted++;
+        } catch (deleteError) {
+          console.error(`❌ Error deleting expired ledger record ${item['message_id']}:`, deleteError);
+        }
+      }
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return deleted;
+  }
+}
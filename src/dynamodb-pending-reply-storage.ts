@@ -0,0 +1,84 @@
+import 'dotenv/config';
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand, ScanCommand, DeleteCommand } from "@aws-sdk/lib-dynamodb";
+import { PendingReply } from './types';
+import { PendingReplyStorage } from './pending-reply-queue';
+
+/**
+ * Pending replies in the `pending_replies` table
+ * (partition key `user_email`, sort key `reply_id`, TTL attribute `expires_at`)
+ */
+export class DynamoDBPendingReplyStorage implements PendingReplyStorage {
+  private tableName: string = process.env['PENDING_REPLIES_TABLE'] || 'pending_replies';
+  private client: DynamoDBDocumentClient;
+
+  constructor() {
+    this.client = DynamoDBDocumentClient.from(new DynamoDBClient({
+      region: process.env['AWS_REGION'] || 'us-east-1'
+    }));
+  }
+
+  async getReply(userEmail: string, replyId: string): Promise<PendingReply | null> {
+    const result = await this.client.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { user_email: userEmail, reply_id: replyId }
+    }));
+    return (result.Item as PendingReply) || null;
+  }
+
+  async putReply(reply: PendingReply): Promise<void> {
+    try {
+      await this.client.send(new PutCommand({
+        TableName: this.tableName,
+        Item: reply
+      }));
+    } catch (error) {
+      console.error(`❌ Error storing pending reply ${reply.reply_id} in DynamoDB:`, error);
+      throw error;
+    }
+  }
+
+  async listReplies(userEmail: string): Promise<PendingReply[]> {
+    const replies: PendingReply[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    do {
+      const result = await this.client.send(new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: 'user_email = :email',
+        ExpressionAttributeValues: { ':email': userEmail },
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+      replies.push(...((result.Items || []) as PendingReply[]));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return replies;
+  }
+
+  async deleteExpired(nowSeconds: number): Promise<number> {
+    let deleted = 0;
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    do {
+      const result = await this.client.send(new ScanCommand({
+        TableName: this.tableName,
+        FilterExpression: 'expires_at < :now',
+        ExpressionAttributeValues: { ':now': nowSeconds },
+        ProjectionExpression: 'user_email, reply_id',
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+
+      for (const item of result.Items || []) {
+        try {
+          await this.client.send(new DeleteCommand({
+            TableName: this.tableName,
+            Key: { user_email: item['user_email'], reply_id: item['reply_id'] }
+          }));
+          deleted++;
+        } catch (deleteError) {
+          console.error(`❌ Error deleting expired pending reply ${item['reply_id']}:`, deleteError);
+        }
+      }
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return deleted;
+  }
+}
@@ -0,0 +1,39 @@
+import 'dotenv/config';
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+import { UserSettings } from './types';
+import { UserSettingsStorage } from './user-settings';
+
+/**
+ * User settings in the `user_settings` table (partition key `user_email`)
+ */
+export class DynamoDBSettingsStorage implements UserSettingsStorage {
+  private tableName: string = process.env['USER_SETTINGS_TABLE'] || 'user_settings';
+  private client: DynamoDBDocumentClient;
+
+  constructor() {
+    this.client = DynamoDBDocumentClient.from(new DynamoDBClient({
+      region: process.env['AWS_REGION'] || 'us-east-1'
+    }));
+  }
+
+  async getSettings(userEmail: string): Promise<UserSettings | null> {
+    const result = await this.client.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { user_email: userEmail }
+    }));
+    return (result.Item as UserSettings) || null;
+  }
+
+  async putSettings(settings: UserSettings): Promise<void> {
+    try {
+      await this.client.send(new PutCommand({
+        TableName: this.tableName,
+        Item: settings
+      }));
+    } catch (error) {
+      console.error(`❌ Error storing settings for ${settings.user_email} in DynamoDB:`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { initializeApp, getApps, applicationDefault } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { HistoryCheckpointStore } from './history-checkpoint-store';
+
+/**
+ * History checkpoints in the `history_checkpoints` collection, one document per user
+ */
+export class FirestoreHistoryCheckpointStore implements HistoryCheckpointStore {
+  private db: FirebaseFirestore.Firestore | null = null;
+  private collectionName: string = 'history_checkpoints';
+
+  private getDb(): FirebaseFirestore.Firestore {
+    if (!this.db) {
+      if (getApps().length === 0) {
+        initializeApp({
+          credential: applicationDefault(),
+          projectId: process.env['FIREBASE_PROJECT_ID'] || 'strong-land-463914-c4'
+        });
+      }
+      this.db = getFirestore();
+    }
+    return this.db;
+  }
+
+  async getHistoryId(userEmail: string): Promise<string | null> {
+    const doc = await this.getDb().collection(this.collectionName).doc(userEmail).get();
+    return (doc.data()?.['history_id'] as string | undefined) || null;
+  }
+
+  async setHistoryId(userEmail: string, historyId: string): Promise<void> {
+    const ref = this.getDb().collection(this.collectionName).doc(userEmail);
+    try {
+      // Read and write in one transaction so overlapping syncs cannot move the checkpoint back
+      await this.getDb().runTransaction(async transaction => {
+        const current = (await transaction.get(ref)).data()?.['history_id'] as string | undefined;
+        if (current && BigInt(current) >= BigInt(historyId)) return;
+        transaction.set(ref, { user_email: userEmail, history_id: historyId, updated_at: new Date().toISOString() });
+      });
+    } catch (error) {
+      console.error(`❌ Error storing history checkpoint for ${userEmail} in Firestore:`, error);
+      throw error;
+    }
+  }
+}
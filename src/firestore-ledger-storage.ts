@@ -0,0 +1,76 @@
+import { initializeApp, getApps, applicationDefault } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { ProcessedMessageRecord, ProcessingOutcome } from './types';
+import { MessageLedgerStorage } from './message-ledger';
+
+/**
+ * Message ledger in the `processed_messages` collection, one document per user and message
+ */
+export class FirestoreLedgerStorage implements MessageLedgerStorage {
+  private db: FirebaseFirestore.Firestore | null = null;
+  private collectionName: string = 'processed_messages';
+
+  private getDb(): FirebaseFirestore.Firestore {
+    if (!this.db) {
+      if (getApps().length === 0) {
+        initializeApp({
+          credential: applicationDefault(),
+          projectId: process.env['FIREBASE_PROJECT_ID'] || 'strong-land-463914-c4'
+        });
+      }
+      this.db = getFirestore();
+    }
+    return this.db;
+  }
+
+  private docId(userEmail: string, messageId: string): string {
+    return `${userEmail}__${messageId}`;
+  }
+
+  async getRecord(userEmail: string, messageId: string): Promise<ProcessedMessageRecord | null> {
+    try {
+      const doc = await this.getDb().collection(this.collectionName).doc(this.docId(userEmail, messageId)).get();
+      return doc.exists ? (doc.data() as ProcessedMessageRecord) : null;
+    } catch (error) {
+      console.error(`❌ Error reading ledger record ${messageId} from Firestore:`, error);
+      throw error;
+    }
+  }
+
+  async putRecord(record: ProcessedMessageRecord): Promise<void> {
+    try {
+      await this.getDb()
+        .collection(this.collectionName)
+        .doc(this.docId(record.user_email, record.message_id))
+        .set(record);
+    } catch (error) {
+      console.error(`❌ Error storing ledger record ${record.message_id} in Firestore:`, error);
+      throw error;
+    }
+  }
+
+  async listRecordsByOutcome(userEmail: string, outcome: ProcessingOutcome): Promise<ProcessedMessageRecord[]> {
+    // Equality filters only, so no composite index is needed
+    const snapshot = await this.getDb()
+      .collection(this.collectionName)
+      .where('user_email', '==', userEmail)
+      .where('outcome', '==', outcome)
+      .get();
+    return snapshot.docs.map(doc => doc.data() as ProcessedMessageRecord);
+  }
+
+  async deleteExpired(nowSeconds: number): Promise<number> {
+    const snapshot = await this.getDb()
+      .collection(this.collectionName)
+      .where('expires_at', '<', nowSeconds)
+      .get();
+
+    // Firestore batches are limited to 500 writes
+    for (let i = 0; i < snapshot.docs.length; i += 500) {
+      const batch = this.getDb().batch();
+      snapshot.docs.slice(i, i + 500).forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+    }
+    return snapshot.docs.length;
+  }
+}
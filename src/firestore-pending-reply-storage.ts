@@ -0,0 +1,69 @@
+import { initializeApp, getApps, applicationDefault } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { PendingReply } from './types';
+import { PendingReplyStorage } from './pending-reply-queue';
+
+/**
+ * Pending replies in the `pending_replies` collection, one document per user and reply
+ */
+export class FirestorePendingReplyStorage implements PendingReplyStorage {
+  private db: FirebaseFirestore.Firestore | null = null;
+  private collectionName: string = 'pending_replies';
+
+  private getDb(): FirebaseFirestore.Firestore {
+    if (!this.db) {
+      if (getApps().length === 0) {
+        initializeApp({
+          credential: applicationDefault(),
+          projectId: process.env['FIREBASE_PROJECT_ID'] || 'strong-land-463914-c4'
+        });
+      }
+      this.db = getFirestore();
+    }
+    return this.db;
+  }
+
+  private docId(userEmail: string, replyId: string): string {
+    return `${userEmail}__${replyId}`;
+  }
+
+  async getReply(userEmail: string, replyId: string): Promise<PendingReply | null> {
+    const doc = await this.getDb().collection(this.collectionName).doc(this.docId(userEmail, replyId)).get();
+    return doc.exists ? (doc.data() as PendingReply) : null;
+  }
+
+  async putReply(reply: PendingReply): Promise<void> {
+    try {
+      await this.getDb()
+        .collection(this.collectionName)
+        .doc(this.docId(reply.user_email, reply.reply_id))
+        .set(reply);
+    } catch (error) {
+      console.error(`❌ Error storing pending reply ${reply.reply_id} in Firestore:`, error);
+      throw error;
+    }
+  }
+
+  async listReplies(userEmail: string): Promise<PendingReply[]> {
+    const snapshot = await this.getDb()
+      .collection(this.collectionName)
+      .where('user_email', '==', userEmail)
+      .get();
+    return snapshot.docs.map(doc => doc.data() as PendingReply);
+  }
+
+  async deleteExpired(nowSeconds: number): Promise<number> {
+    const snapshot = await this.getDb()
+      .collection(this.collectionName)
+      .where('expires_at', '<', nowSeconds)
+      .get();
+
+    // Firestore batches are limited to 500 writes
+    for (let i = 0; i < snapshot.docs.length; i += 500) {
+      const batch = this.getDb().batch();
+      snapshot.docs.slice(i, i + 500).forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+    }
+    return snapshot.docs.length;
+  }
+}
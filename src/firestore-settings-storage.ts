@@ -0,0 +1,39 @@
+import { initializeApp, getApps, applicationDefault } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { UserSettings } from './types';
+import { UserSettingsStorage } from './user-settings';
+
+/**
+ * User settings in the `user_settings` collection, one document per user
+ */
+export class FirestoreSettingsStorage implements UserSettingsStorage {
+  private db: FirebaseFirestore.Firestore | null = null;
+  private collectionName: string = 'user_settings';
+
+  private getDb(): FirebaseFirestore.Firestore {
+    if (!this.db) {
+      if (getApps().length === 0) {
+        initializeApp({
+          credential: applicationDefault(),
+          projectId: process.env['FIREBASE_PROJECT_ID'] || 'strong-land-463914-c4'
+        });
+      }
+      this.db = getFirestore();
+    }
+    return this.db;
+  }
+
+  async getSettings(userEmail: string): Promise<UserSettings | null> {
+    const doc = await this.getDb().collection(this.collectionName).doc(userEmail).get();
+    return doc.exists ? (doc.data() as UserSettings) : null;
+  }
+
+  async putSettings(settings: UserSettings): Promise<void> {
+    try {
+      await this.getDb().collection(this.collectionName).doc(settings.user_email).set(settings);
+    } catch (error) {
+      console.error(`❌ Error storing settings for ${settings.user_email} in Firestore:`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { gmail_v1 } from 'googleapis';
+import { SchedulingLabel } from './types';
+import { apiErrorStatus } from './google-api-client';
+
+export const SCHEDULING_LABEL_PARENT = 'Scheduling';
+
+export const SCHEDULING_LABEL_NAMES: Record<SchedulingLabel, string> = {
+  detected: 'Scheduling/Detected',
+  replied: 'Scheduling/Replied',
+  confirmed: 'Scheduling/Confirmed',
+  needs_human: 'Scheduling/Needs-Human',
+  ignored: 'Scheduling/Ignored',
+};
+
+/**
+ * Gmail search term for a label name (Gmail search writes `/` and spaces in label names as `-`)
+ */
+export function labelSearchTerm(name: string): string {
+  return `label:${name.toLowerCase().replace(/[\/ ]/g, '-')}`;
+}
+
+/**
+ * Gmail search terms that exclude messages already carrying a scheduling label
+ */
+export function excludeSchedulingLabelsQuery(): string {
+  return Object.values(SCHEDULING_LABEL_NAMES)
+    .map(name => `-${labelSearchTerm(name)}`)
+    .join(' ');
+}
+
+/**
+ * The scheduling stage a message is at, from its label names (null if it has none)
+ */
+export function schedulingLabelFromNames(labelNames: string[]): SchedulingLabel | null {
+  const entry = (Object.entries(SCHEDULING_LABEL_NAMES) as Array<[SchedulingLabel, string]>)
+    .find(([, name]) => labelNames.includes(name));
+  return entry ? entry[0] : null;
+}
+
+/**
+ * Label IDs mapped to their names. User labels have opaque IDs (Label_123); system labels
+ * are already readable, so a failed lookup leaves IDs as they are.
+ */
+export async function listLabelNames(gmail: gmail_v1.Gmail): Promise<Map<string, string>> {
+  try {
+    const res = await gmail.users.labels.list({ userId: 'me' });
+    return new Map((res.data.labels || []).flatMap((label): Array<[string, string]> =>
+      label.id && label.name ? [[label.id, label.name]] : []
+    ));
+  } catch (error) {
+    console.warn('Could not list Gmail labels, returning label IDs:', error);
+    return new Map();
+  }
+}
+
+/**
+ * Creates the Scheduling/* label hierarchy in each mailbox on first use and caches
+ * the label IDs per user. A message carries one scheduling label at a time, showing
+ * where it is in the lifecycle.
+ */
+export class GmailLabelManager {
+  private labelIds: Map<string, Promise<Record<SchedulingLabel, string>>> = new Map();
+
+  /**
+   * Get the IDs of the scheduling labels for a mailbox, creating any that are missing
+   */
+  public async getLabelIds(gmail: gmail_v1.Gmail, userEmail: string): Promise<Record<SchedulingLabel, string>> {
+    const key = userEmail.toLowerCase();
+    let labelIds = this.labelIds.get(key);
+    if (!labelIds) {
+      labelIds = this.ensureLabels(gmail);
+      this.labelIds.set(key, labelIds);
+      // Don't cache a failed lookup
+      labelIds.catch(() => this.labelIds.delete(key));
+    }
+    return labelIds;
+  }
+
+  public clearCache(userEmail: string): void {
+    this.labelIds.delete(userEmail.toLowerCase());
+  }
+
+  /**
+   * Move a message to a lifecycle stage: add its label, remove the other scheduling
+   * labels and optionally mark it read
+   */
+  public async applyLabel(
+    gmail: gmail_v1.Gmail,
+    userEmail: string,
+    messageId: string,
+    label: SchedulingLabel,
+    markAsRead: boolean
+  ): Promise<void> {
+    const modify = async () => {
+      const labelIds = await this.getLabelIds(gmail, userEmail);
+      const otherLabelIds = Object.entries(labelIds)
+        .filter(([name]) => name !== label)
+        .map(([, id]) => id);
+      await gmail.users.messages.modify({
+        userId: 'me',
+        id: messageId,
+        requestBody: {
+          addLabelIds: [labelIds[label]],
+          removeLabelIds: markAsRead ? [...otherLabelIds, 'UNREAD'] : otherLabelIds
+        }
+      });
+    };
+
+    try {
+      await modify();
+    } catch (error) {
+      // A cached label may have been deleted by the user; look the labels up again once
+      const status = apiErrorStatus(error);
+      if (status !== 400 && status !== 404) throw error;
+      this.clearCache(userEmail);
+      await modify();
+    }
+  }
+
+  private async ensureLabels(gmail: gmail_v1.Gmail): Promise<Record<SchedulingLabel, string>> {
+    const res = await gmail.users.labels.list({ userId: 'me' });
+    const existing = new Map<string, string>();
+    for (const label of res.data.labels || []) {
+      if (label.name && label.id) existing.set(label.name, label.id);
+    }
+
+    // Create the parent first so Gmail nests the stage labels under it
+    for (const name of [SCHEDULING_LABEL_PARENT, ...Object.values(SCHEDULING_LABEL_NAMES)]) {
+      if (existing.has(name)) continue;
+      const created = await gmail.users.labels.create({
+        userId: 'me',
+        requestBody: {
+          name,
+          labelListVisibility: 'labelShow',
+          messageListVisibility: 'show'
+        }
+      });
+      console.log(`🏷️ Created Gmail label ${name}`);
+      existing.set(name, created.data.id!);
+    }
+
+    const labelIds = {} as Record<SchedulingLabel, string>;
+    for (const [label, name] of Object.entries(SCHEDULING_LABEL_NAMES) as Array<[SchedulingLabel, string]>) {
+      labelIds[label] = existing.get(name)!;
+    }
+    return labelIds;
+  }
+}
+
+export const gmailLabelManager = new GmailLabelManager();
@@ -0,0 +1,369 @@
+import { TextDecoder } from 'util';
+import { gmail_v1 } from 'googleapis';
+import { GmailMessage, GmailMessagePart, GmailHeader, ParsedEmail, EmailAddress, EmailAttachment } from './types';
+
+interface CollectedParts {
+  text: string[];
+  html: string[];
+  attachments: EmailAttachment[];
+  calendar: string[];
+}
+
+/**
+ * Convert a message from the Gmail API client, whose fields are all optional and
+ * nullable, to the GmailMessage the parser reads
+ */
+export function toGmailMessage(message: gmail_v1.Schema$Message): GmailMessage {
+  return {
+    id: message.id || '',
+    threadId: message.threadId || '',
+    labelIds: message.labelIds || [],
+    snippet: message.snippet || '',
+    historyId: message.historyId || '',
+    internalDate: message.internalDate || '',
+    sizeEstimate: message.sizeEstimate || 0,
+    ...(message.payload ? { payload: toGmailMessagePart(message.payload) } : {}),
+  };
+}
+
+function toGmailMessagePart(part: gmail_v1.Schema$MessagePart): GmailMessagePart {
+  return {
+    partId: part.partId || '',
+    mimeType: part.mimeType || '',
+    filename: part.filename || '',
+    headers: (part.headers || []).map(header => ({ name: header.name || '', value: header.value || '' })),
+    body: {
+      ...(part.body?.attachmentId ? { attachmentId: part.body.attachmentId } : {}),
+      size: part.body?.size || 0,
+      ...(part.body?.data ? { data: part.body.data } : {}),
+    },
+    ...(part.parts ? { parts: part.parts.map(toGmailMessagePart) } : {}),
+  };
+}
+
+/**
+ * Walk a Gmail message's MIME tree and return a normalized message with decoded bodies,
+ * recipients and attachment metadata. `body` holds only the new content of the message,
+ * preferring text/plain and falling back to the HTML part converted to text.
+ */
+export function parseGmailMessage(message: GmailMessage): ParsedEmail {
+  const headers: GmailHeader[] = message.payload?.headers || [];
+  const collected: CollectedParts = { text: [], html: [], attachments: [], calendar: [] };
+  if (message.payload) {
+    collectParts(message.payload, collected);
+  }
+
+  const textBody = collected.text.join('\n');
+  const htmlBody = collected.html.join('\n');
+  const readableText = textBody.trim() ? textBody : htmlToText(stripHtmlQuotes(htmlBody));
+  const body = stripQuotedText(readableText) || message.snippet || '';
+
+  const fromList = parseAddressList(getHeader(headers, 'from'));
+
+  return {
+    id: message.id,
+    threadId: message.threadId,
+    labelIds: message.labelIds || [],
+    snippet: message.snippet || '',
+    internalDate: message.internalDate,
+    headers,
+    subject: getHeader(headers, 'subject'),
+    from: fromList[0] || null,
+    to: parseAddressList(getHeader(headers, 'to')),
+    cc: parseAddressList(getHeader(headers, 'cc')),
+    replyTo: parseAddressList(getHeader(headers, 'reply-to')),
+    date: getHeader(headers, 'date'),
+    messageId: getHeader(headers, 'message-id') || undefined,
+    body,
+    textBody,
+    htmlBody,
+    attachments: collected.attachments,
+    calendarParts: collected.calendar,
+  };
+}
+
+/**
+ * Case-insensitive header lookup with RFC 2047 encoded-words decoded
+ */
+export function getHeader(headers: GmailHeader[], name: string): string {
+  const header = headers.find(h => h.name.toLowerCase() === name.toLowerCase());
+  return header ? decodeEncodedWords(header.value) : '';
+}
+
+function collectParts(part: GmailMessagePart, collected: CollectedParts): void {
+  const mimeType = (part.mimeType || '').toLowerCase();
+
+  // Invites are usually an inline text/calendar alternative; .ics attachments are only read when Gmail inlined them
+  if (isCalendarPart(part.mimeType, part.filename) && part.body?.data) {
+    const content = decodeBody(part.body.data, getCharset(part.headers || []));
+    if (content && !collected.calendar.includes(content)) {
+      collected.calendar.push(content);
+    }
+  }
+
+  if (isAttachment(part)) {
+    collected.attachments.push({
+      partId: part.partId,
+      filename: decodeEncodedWords(part.filename || ''),
+      mimeType: part.mimeType,
+      size: part.body?.size || 0,
+      attachmentId: part.body?.attachmentId,
+    });
+    return;
+  }
+
+  if (mimeType.startsWith('multipart/')) {
+    for (const child of part.parts || []) {
+      collectParts(child, collected);
+    }
+    return;
+  }
+
+  if (mimeType === 'text/plain' || mimeType === 'text/html') {
+    const charset = getCharset(part.headers || []);
+    const content = decodeBody(part.body?.data, charset);
+    if (content) {
+      (mimeType === 'text/plain' ? collected.text : collected.html).push(content);
+    }
+  }
+}
+
+export function isCalendarPart(mimeType: string, filename?: string): boolean {
+  const type = (mimeType || '').toLowerCase();
+  return type === 'text/calendar' || type === 'application/ics' || /\.ics$/i.test(filename || '');
+}
+
+function isAttachment(part: GmailMessagePart): boolean {
+  if (part.filename) {
+    return true;
+  }
+  // Forwarded messages are treated as opaque attachments rather than merged into the body
+  if ((part.mimeType || '').toLowerCase() === 'message/rfc822') {
+    return true;
+  }
+  const disposition = getHeader(part.headers || [], 'content-disposition').toLowerCase();
+  if (disposition.startsWith('attachment')) {
+    return true;
+  }
+  // Unnamed binary parts (e.g. inline images) are stored separately; text bodies never are
+  const mimeType = (part.mimeType || '').toLowerCase();
+  return !!part.body?.attachmentId && !mimeType.startsWith('text/') && !mimeType.startsWith('multipart/');
+}
+
+function getCharset(headers: GmailHeader[]): string {
+  const contentType = getHeader(headers, 'content-type');
+  const match = contentType.match(/charset\s*=\s*"?([^";\s]+)"?/i);
+  return match?.[1] ? match[1].toLowerCase() : 'utf-8';
+}
+
+/**
+ * Decode a base64url body (Gmail has already undone the transfer encoding) in the given charset
+ */
+export function decodeBody(data: string | undefined, charset: string = 'utf-8'): string {
+  if (!data) {
+    return '';
+  }
+  const bytes = decodeBase64Url(data);
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // Unknown charset label, fall back to UTF-8 rather than dropping the body
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+export function decodeBase64Url(data: string): Buffer {
+  return Buffer.from(data.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+/**
+ * Decode RFC 2047 encoded-words such as =?UTF-8?B?...?= and =?iso-8859-1?Q?...?=
+ */
+export function decodeEncodedWords(value: string): string {
+  // Whitespace between adjacent encoded-words is not significant
+  const joined = value.replace(/(\?=)\s+(=\?)/g, '$1$2');
+  return joined.replace(/=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g, (original, charset: string, encoding: string, text: string) => {
+    try {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(
+            text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+            'binary'
+          );
+      return new TextDecoder(charset.split('*')[0]!.toLowerCase()).decode(bytes);
+    } catch {
+      return original;
+    }
+  });
+}
+
+/**
+ * Parse an address header such as `"Doe, Jane" <jane@example.com>, bob@example.com`.
+ * Commas inside quotes, comments and angle brackets do not split, and group syntax
+ * (`Team: a@example.com, b@example.com;`) is flattened into its members.
+ */
+export function parseAddressList(value: string): EmailAddress[] {
+  const addresses: EmailAddress[] = [];
+  for (const entry of splitAddressList(value)) {
+    const address = parseAddress(entry);
+    if (address) {
+      addresses.push(address);
+    }
+  }
+  return addresses;
+}
+
+function splitAddressList(value: string): string[] {
+  const entries: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let angleDepth = 0;
+  let commentDepth = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i]!;
+    if (inQuotes) {
+      current += ch;
+      if (ch === '\\' && i + 1 < value.length) {
+        current += value[++i];
+      } else if (ch === '"') {
+        inQuotes = false;
+      }
+      continue;
+    }
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === '(') {
+      commentDepth++;
+    } else if (ch === ')' && commentDepth > 0) {
+      commentDepth--;
+    } else if (ch === '<') {
+      angleDepth++;
+    } else if (ch === '>' && angleDepth > 0) {
+      angleDepth--;
+    } else if (commentDepth === 0 && angleDepth === 0) {
+      if (ch === ':') {
+        // Group display name; its members follow
+        current = '';
+        continue;
+      }
+      if (ch === ',' || ch === ';') {
+        entries.push(current);
+        current = '';
+        continue;
+      }
+    }
+    current += ch;
+  }
+  entries.push(current);
+  return entries.map(e => e.trim()).filter(e => e.length > 0);
+}
+
+function parseAddress(entry: string): EmailAddress | null {
+  const angleMatch = entry.match(/^(.*)<([^>]*)>\s*(\(.*\))?$/);
+  if (angleMatch) {
+    const email = angleMatch[2]!.trim();
+    if (!email.includes('@')) {
+      return null;
+    }
+    return { name: cleanDisplayName(angleMatch[1] || ''), email };
+  }
+
+  // Bare address, optionally followed by a (comment) holding the name
+  const bareMatch = entry.match(/^([^\s()<>]+@[^\s()<>]+)\s*(?:\((.*)\))?$/);
+  if (bareMatch) {
+    return { name: cleanDisplayName(bareMatch[2] || ''), email: bareMatch[1]! };
+  }
+  return null;
+}
+
+function cleanDisplayName(name: string): string {
+  let cleaned = name.trim();
+  if (cleaned.startsWith('"') && cleaned.endsWith('"') && cleaned.length >= 2) {
+    cleaned = cleaned.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  return decodeEncodedWords(cleaned).trim();
+}
+
+/**
+ * Drop quoted replies from HTML before conversion (Gmail, Apple Mail and Outlook markers)
+ */
+function stripHtmlQuotes(html: string): string {
+  return html
+    .replace(/<blockquote[\s\S]*?<\/blockquote>/gi, '')
+    .replace(/<div[^>]*class="?[^">]*gmail_quote[\s\S]*$/i, '')
+    .replace(/<div[^>]*id="?(divRplyFwdMsg|appendonsend)[\s\S]*$/i, '');
+}
+
+/**
+ * Convert HTML to readable plain text
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|head|title)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    // Source formatting is not significant in HTML; only tags create line breaks
+    .replace(/\s+/g, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|h[1-6]|tr|ul|ol|table|blockquote)>/gi, '\n\n')
+    .replace(/<\/(td|th)>/gi, '\t')
+    .replace(/<[^>]+>/g, '');
+  return decodeHtmlEntities(text)
+    .replace(/\u00a0/g, ' ')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n[ ]+/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function decodeHtmlEntities(text: string): string {
+  const named: { [entity: string]: string } = {
+    nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", hellip: '…', mdash: '—', ndash: '–',
+    rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“',
+  };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (original, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1]?.toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      // Out-of-range code points and lone surrogates would throw or produce broken text
+      const invalid = Number.isNaN(code) || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff);
+      return invalid ? original : String.fromCodePoint(code);
+    }
+    return named[entity.toLowerCase()] ?? original;
+  });
+}
+
+/**
+ * Remove quoted history and the signature from a plain-text body, leaving only the new content
+ */
+export function stripQuotedText(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const kept: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    const trimmed = line.trim();
+
+    // Signature delimiter (RFC 3676) and mobile client footers end the new content
+    if (line === '-- ' || trimmed === '--' || /^Sent from my \w+/i.test(trimmed)) {
+      break;
+    }
+    // Reply headers: "On <date>, <name> wrote:" (sometimes wrapped onto the next line)
+    if (/^On\s.+wrote:$/i.test(trimmed) ||
+        (/^On\s/i.test(trimmed) && /wrote:$/i.test((lines[i + 1] || '').trim()))) {
+      break;
+    }
+    if (/^-{2,}\s*Original Message\s*-{2,}/i.test(trimmed)) {
+      break;
+    }
+    // Outlook-style header block: "From: ..." immediately followed by "Sent:" or "Date:"
+    if (/^From:\s/i.test(trimmed) && /^(Sent|Date):\s/i.test((lines[i + 1] || '').trim())) {
+      break;
+    }
+    if (trimmed.startsWith('>')) {
+      continue;
+    }
+    kept.push(line);
+  }
+
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
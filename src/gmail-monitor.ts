@@ -1,39 +1,92 @@
 import { google } from 'googleapis';
-import { GmailMessage, MeetingRequestContext, MeetingSlotAvailabilityResponse, EmailInfo, GmailHeader, MessageType } from './types';
+import { GmailMessage, MeetingRequestContext, MeetingSlotAvailabilityResponse, EmailInfo, GmailHeader, GmailHistory, GmailHistoryResponse, GmailSyncMode, GmailWatchResponse, GmailPushNotification, ParsedEmail, MonitorEvent, PendingReply, SchedulingLabel, ThreadTranscriptEntry, ReplyRecipients, CalendarInvite, UserSettings, EmailSearchOptions, EmailSearchResponse, EmailDetails, ThreadDetails, AttachmentContent, MessageQueueStats, BookedMeeting, EmailAddress } from './types';
 import { tokenManager } from './token-manager';
+import { historyCheckpointStore } from './history-checkpoint-store';
+import { parseGmailMessage, parseAddressList, getHeader, isCalendarPart, decodeBody } from './gmail-message-parser';
+import { messageLedger, LedgerMessageRef, LedgerWriteError } from './message-ledger';
+import { SettingsUnavailableError, userSettingsManager } from './user-settings';
+import { pendingReplyQueue } from './pending-reply-queue';
+import { gmailLabelManager, excludeSchedulingLabelsQuery, SCHEDULING_LABEL_NAMES } from './gmail-labels';
+import { evaluateMailboxRules, buildUnreadQuery } from './mailbox-rules';
+import { detectAutomatedMessage, checkReplyCaps, AUTO_SUBMITTED_REPLY } from './reply-safeguards';
+import { buildMimeMessage, toBase64Url } from './mime-message-builder';
+import { resolveReplyRecipients } from './reply-recipients';
+import { buildThreadTranscript, formatThreadTranscript } from './thread-transcript';
+import { buildMeetingCalendar, isConfirmation, CalendarDocument } from './ics-generator';
+import { parseCalendarInvites, primaryInvite } from './ics-parser';
+import { searchMessages } from './gmail-search';
+import { withGoogleApiClient, isRetryableError, apiErrorStatus } from './google-api-client';
+import { getEmail, getThread, downloadAttachment } from './gmail-reader';
+import { MessageWorkQueue } from './message-work-queue';
+import { confirmedSlot, bookedMeetingCalendar, appendMeetingDetails } from './meeting-booking';
+import { getHoldTtlMs, withoutThreadHolds } from './calendar-holds';
+import { slotsFromMeetingContext } from './meeting-slots';
+import { datesBetween } from './scheduling-preferences';
+import { findInviteConflicts, findAlternativeSlot, planInviteResponse, inviteMeetingContext, InviteAvailability, InviteResponsePlan } from './calendar-invite-router';
 import 'dotenv/config';
 import { CalendarMonitor } from './calendar-monitor';
 import { MeetingIntentDetector } from './meeting-intent-detector';
 import { simpleParser } from 'mailparser';
-// import { DateTime } from 'luxon'; // Removed as we simplified to use Claude for recommendations
+import { DateTime } from 'luxon';
 
 export type { MeetingRequestContext, MeetingSlotAvailabilityResponse };
 
 // REMOVED: Complex buildMeetingReplyPrompt function - replaced with simple Claude-based approach
 // The new approach uses MeetingIntentDetector.generateEmailResponse() which creates professional, well-formatted responses using Claude
 
+// Renew Gmail watches this long before they expire
+const WATCH_RENEWAL_MARGIN_MS = 60 * 60 * 1000;
+const WATCH_RENEWAL_RETRY_MS = 5 * 60 * 1000;
+// How often each mailbox's calendar is swept for expired holds
+const HOLD_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
 export class GmailMonitor {
   private gmail: any; // TODO: Use proper Google APIs type when available
-  private pollingInterval: NodeJS.Timeout | null = null;
+  private pollingTimer: NodeJS.Timeout | null = null;
+  // Bumped on every start/stop so a poll finishing after stopPolling() schedules nothing
+  private pollingGeneration: number = 0;
+  private polling: boolean = false;
   private onMessageReceived: (message: GmailMessage) => void;
-  private seenMessageIds: Set<string> = new Set();
+  private onEvent: ((event: MonitorEvent) => void) | undefined;
+  // Guards against overlapping syncs picking up a message before its ledger entry is written
+  private messagesInFlight: Set<string> = new Set();
   private calendarMonitor: CalendarMonitor;
   private meetingIntentDetector: MeetingIntentDetector;
+  private userEmail: string = '';
+  private syncMode: GmailSyncMode;
+  private watchRenewalTimer: NodeJS.Timeout | null = null;
+  private watchTopicName: string | null = null;
+  private syncInProgress: Promise<void> | null = null;
+  private syncRequested: boolean = false;
+  // Syncs only enqueue message IDs; these workers do the processing
+  private messageQueue: MessageWorkQueue;
+  private lastHoldSweepAt: number = 0;
 
-  constructor(onMessageReceived: (message: GmailMessage) => void) {
+  constructor(
+    onMessageReceived: (message: GmailMessage) => void,
+    syncMode: GmailSyncMode = (process.env['GMAIL_SYNC_MODE'] as GmailSyncMode) || 'history',
+    onEvent?: (event: MonitorEvent) => void
+  ) {
     this.onMessageReceived = onMessageReceived;
+    this.onEvent = onEvent;
+    this.syncMode = syncMode;
     this.calendarMonitor = new CalendarMonitor();
     this.meetingIntentDetector = new MeetingIntentDetector();
+    this.messageQueue = new MessageWorkQueue((messageId) => this.processMessageById(messageId));
   }
 
   // REMOVED: Redundant checkIfMessageMeetingRelated method - now using MeetingIntentDetector directly
 
-  public async initialize(): Promise<boolean> {
-    const token = await tokenManager.getToken();
+  /**
+   * Set up the Gmail client for a user's mailbox (the first stored token if no email is given)
+   */
+  public async initialize(userEmail?: string): Promise<boolean> {
+    const token = await tokenManager.getToken(userEmail);
     if (!token) {
       console.error('No tokens available for Gmail monitoring');
       return false;
     }
+    this.userEmail = token.user_email || '';
 
     // TokenManager.getToken() now automatically refreshes expired tokens
     // So we don't need to check expiration here anymore
@@ -51,48 +104,173 @@ export class GmailMonitor {
       expiry_date: token.expiry_date,
     });
 
-    this.gmail = google.gmail({ version: 'v1', auth: oauth2Client });
+    // Retries are handled by the shared GoogleApiClient, not by googleapis itself
+    this.gmail = withGoogleApiClient(google.gmail({ version: 'v1', auth: oauth2Client, retry: false }), 'gmail', this.userEmail);
     return true;
   }
 
+  /**
+   * Sync now and then every intervalMs. The next sync is scheduled only after the previous
+   * one finishes, so polls never overlap however long processing takes.
+   */
   public startPolling(intervalMs: number = 60000): void {
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
-    }
-    this.pollingInterval = setInterval(() => this.pollUnreadMessages(), intervalMs);
-    // Run immediately on start
-    this.pollUnreadMessages();
-    console.log(`Started polling for unread emails every ${intervalMs / 1000} seconds.`);
+    this.stopPolling();
+    this.polling = true;
+    const generation = ++this.pollingGeneration;
+    const poll = async (): Promise<void> => {
+      this.pollingTimer = null;
+      await this.runSyncCycle();
+      if (generation === this.pollingGeneration) {
+        this.pollingTimer = setTimeout(poll, intervalMs);
+      }
+    };
+    void poll();
+    console.log(`Started ${this.syncMode} sync for unread emails every ${intervalMs / 1000} seconds.`);
   }
 
   public stopPolling(): void {
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
-      this.pollingInterval = null;
+    this.pollingGeneration++;
+    if (this.pollingTimer) {
+      clearTimeout(this.pollingTimer);
+      this.pollingTimer = null;
+    }
+    if (this.polling) {
+      this.polling = false;
       console.log('Stopped polling for unread emails.');
     }
   }
 
-  // Method to compose and send an email as a reply, supporting HTML quoting
-  private async composeAndSendEmail(
-    to: string,
-    subject: string,
-    body: string,
-    threadId?: string,
-    inReplyTo?: string,
-    originalRaw?: string
-  ): Promise<void> {
+  public getQueueStats(): MessageQueueStats {
+    return this.messageQueue.getStats();
+  }
+
+  public getUserEmail(): string {
+    return this.userEmail;
+  }
+
+  public isPushActive(): boolean {
+    return this.watchTopicName !== null;
+  }
+
+  public async stopMonitoring(): Promise<void> {
+    this.stopPolling();
+    await this.stopPushNotifications();
+  }
+
+  /**
+   * Register a Gmail watch on the Pub/Sub topic and catch up on anything missed since the last sync
+   */
+  public async startPushNotifications(topicName: string): Promise<boolean> {
+    const watch = await this.registerWatch(topicName);
+    if (!watch) {
+      return false;
+    }
+    try {
+      await this.syncHistory();
+    } catch (err) {
+      console.error('Initial history sync after watch registration failed:', err);
+    }
+    return true;
+  }
+
+  public async stopPushNotifications(): Promise<void> {
+    if (this.watchRenewalTimer) {
+      clearTimeout(this.watchRenewalTimer);
+      this.watchRenewalTimer = null;
+    }
+    if (!this.watchTopicName) {
+      return;
+    }
+    this.watchTopicName = null;
+    try {
+      await this.gmail.users.stop({ userId: 'me' });
+      console.log(`🔕 Stopped Gmail watch for ${this.userEmail}`);
+    } catch (err) {
+      console.error(`Failed to stop Gmail watch for ${this.userEmail}:`, err);
+    }
+  }
+
+  /**
+   * Call users.watch for the inbox and schedule renewal before the watch expires
+   */
+  public async registerWatch(topicName: string): Promise<GmailWatchResponse | null> {
     if (!this.gmail) {
       console.error('Gmail client not initialized');
+      return null;
+    }
+    try {
+      const res = await this.gmail.users.watch({
+        userId: 'me',
+        requestBody: {
+          topicName,
+          labelIds: ['INBOX'],
+          labelFilterBehavior: 'include',
+        },
+      });
+      const watch = res.data as GmailWatchResponse;
+      this.watchTopicName = topicName;
+      console.log(`👀 Gmail watch registered for ${this.userEmail} until ${new Date(Number(watch.expiration)).toISOString()}`);
+      this.scheduleWatchRenewal(Number(watch.expiration) - Date.now() - WATCH_RENEWAL_MARGIN_MS);
+      return watch;
+    } catch (err) {
+      console.error(`Failed to register Gmail watch for ${this.userEmail}:`, err);
+      return null;
+    }
+  }
+
+  private scheduleWatchRenewal(delayMs: number): void {
+    if (this.watchRenewalTimer) {
+      clearTimeout(this.watchRenewalTimer);
+    }
+    this.watchRenewalTimer = setTimeout(async () => {
+      this.watchRenewalTimer = null;
+      const topicName = this.watchTopicName;
+      if (!topicName) {
+        return;
+      }
+      console.log(`🔄 Renewing Gmail watch for ${this.userEmail}`);
+      const watch = await this.registerWatch(topicName);
+      if (!watch) {
+        this.scheduleWatchRenewal(WATCH_RENEWAL_RETRY_MS);
+      }
+    }, Math.max(delayMs, 0));
+  }
+
+  /**
+   * Handle a decoded Pub/Sub notification for this mailbox.
+   * Errors propagate so the caller can signal Pub/Sub to redeliver.
+   */
+  public async handlePushNotification(notification: GmailPushNotification): Promise<void> {
+    const checkpoint = await historyCheckpointStore.getHistoryId(this.userEmail);
+    if (checkpoint && BigInt(notification.historyId) <= BigInt(checkpoint)) {
+      console.log(`⏭️ Notification historyId ${notification.historyId} already synced for ${this.userEmail}`);
       return;
     }
+    await this.syncHistory();
+  }
+
+  // Build the base64url-encoded MIME reply, quoting the original message in both HTML and plain text
+  private async buildReplyMessage(
+    recipients: string | ReplyRecipients,
+    subject: string,
+    body: string,
+    inReplyTo?: string,
+    originalRaw?: string,
+    calendar?: CalendarDocument
+  ): Promise<string> {
     let originalHtml = '';
     let originalText = '';
+    let references: string[] = [];
     if (originalRaw) {
       try {
         const parsed = await simpleParser(Buffer.from(originalRaw, 'base64'));
         originalHtml = parsed.html || '';
         originalText = parsed.text || '';
+        // Keep the whole chain so clients thread the reply under every earlier message
+        references = [
+          ...(Array.isArray(parsed.references) ? parsed.references : parsed.references ? [parsed.references] : []),
+          ...(parsed.messageId ? [parsed.messageId] : []),
+        ];
       } catch (err) {
         console.error('Failed to parse original message for quoting:', err);
       }
@@ -117,39 +295,92 @@ export class GmailMonitor {
     
     // Compose plain text reply
     const textBody = quotedTextForPlain ? `${body}\n\n--- Original Message ---\n${quotedTextForPlain}` : body;
+    const message = buildMimeMessage({
+      ...(this.userEmail ? { from: this.userEmail } : {}),
+      ...(typeof recipients === 'string' ? { to: [recipients] } : recipients),
+      subject,
+      text: textBody,
+      html: htmlBody,
+      ...(inReplyTo ? { inReplyTo } : {}),
+      references,
+      headers: { 'Auto-Submitted': AUTO_SUBMITTED_REPLY },
+      // iTIP messages also go inline so clients show accept/decline; proposals are only attached
+      ...(calendar && calendar.method !== 'PUBLISH' ? { calendar } : {}),
+      ...(calendar ? {
+        attachments: [{
+          filename: calendar.method === 'PUBLISH' ? 'proposed-times.ics' : 'invite.ics',
+          mimeType: 'application/ics',
+          content: calendar.content,
+        }],
+      } : {}),
+    });
+    return toBase64Url(message);
+  }
+
+  // Method to compose and send an email as a reply, supporting HTML quoting
+  private async composeAndSendEmail(
+    recipients: string | ReplyRecipients,
+    subject: string,
+    body: string,
+    threadId?: string,
+    inReplyTo?: string,
+    originalRaw?: string,
+    calendar?: CalendarDocument
+  ): Promise<string | null> {
+    if (!this.gmail) {
+      console.error('Gmail client not initialized');
+      return null;
+    }
     try {
-      const messageParts = [
-        `To: ${to}`,
-        'Content-Type: multipart/alternative; boundary="boundary42"',
-        'MIME-Version: 1.0',
-        `Subject: ${subject}`,
-        ...(inReplyTo ? [
-          `In-Reply-To: <${inReplyTo}>`,
-          `References: <${inReplyTo}>`
-        ] : []),
-        '',
-        '--boundary42',
-        'Content-Type: text/plain; charset=utf-8',
-        '',
-        textBody,
-        '--boundary42',
-        'Content-Type: text/html; charset=utf-8',
-        '',
-        htmlBody,
-        '--boundary42--'
-      ];
-      const message = messageParts.join('\n');
-      const encodedMessage = Buffer.from(message).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
-      await this.gmail.users.messages.send({
+      const encodedMessage = await this.buildReplyMessage(recipients, subject, body, inReplyTo, originalRaw, calendar);
+      const res = await this.gmail.users.messages.send({
         userId: 'me',
         requestBody: {
           raw: encodedMessage,
           threadId: threadId || undefined
         }
       });
-      console.log(`Sent email to ${to} with subject: ${subject}`);
+      console.log(`Sent email to ${describeRecipients(recipients)} with subject: ${subject}`);
+      return res.data?.id || null;
     } catch (err) {
+      // Retryable failures propagate so the message is retried instead of marked failed
+      if (isRetryableError(err)) throw err;
       console.error('Error sending email:', err);
+      return null;
+    }
+  }
+
+  // Same reply as composeAndSendEmail, but left as a draft in the original thread
+  private async composeAndCreateDraft(
+    recipients: string | ReplyRecipients,
+    subject: string,
+    body: string,
+    threadId?: string,
+    inReplyTo?: string,
+    originalRaw?: string,
+    calendar?: CalendarDocument
+  ): Promise<string | null> {
+    if (!this.gmail) {
+      console.error('Gmail client not initialized');
+      return null;
+    }
+    try {
+      const encodedMessage = await this.buildReplyMessage(recipients, subject, body, inReplyTo, originalRaw, calendar);
+      const res = await this.gmail.users.drafts.create({
+        userId: 'me',
+        requestBody: {
+          message: {
+            raw: encodedMessage,
+            threadId: threadId || undefined
+          }
+        }
+      });
+      console.log(`Created draft reply to ${describeRecipients(recipients)} with subject: ${subject}`);
+      return res.data?.id || null;
+    } catch (err) {
+      if (isRetryableError(err)) throw err;
+      console.error('Error creating draft:', err);
+      return null;
     }
   }
 
@@ -161,7 +392,7 @@ export class GmailMonitor {
     
     const dates = meetingContext.suggested_meeting_times.map(s => s.date);
     const timeZone: string = (meetingContext.suggested_meeting_times[0]?.timezone) || '+00:00';
-    await this.calendarMonitor.initialize();
+    await this.calendarMonitor.initialize(this.userEmail || undefined);
     
     // Get busy events from calendar instead of calculating free slots
     const busyEvents = await this.calendarMonitor.getBusyEvents(dates);
@@ -174,11 +405,14 @@ User requirements: ${meetingContext.notes || 'No specific requirements'}.`;
     
     const today = new Date().toISOString().split('T')[0] || '';
     const safeTimeZone = (timeZone || '+00:00') as string;
+    const { scheduling } = await userSettingsManager.getSettings(this.userEmail);
     const updatedContext = await this.meetingIntentDetector.getMeetingRequestContext(
       emailText, 
       today, 
       safeTimeZone, 
-      busyEvents
+      busyEvents,
+      undefined,
+      scheduling
     );
     
     console.log('✅ Claude has recommended slots avoiding busy times');
@@ -197,30 +431,36 @@ User requirements: ${meetingContext.notes || 'No specific requirements'}.`;
   }
 
   /**
-   * Get meeting recommendations from Claude based on email snippet
+   * Get meeting recommendations from Claude based on the email body
    */
   public async getMeetingRecommendations(
-    snippet: string, 
+    emailText: string, 
     meetingDates: string[], 
-    timeZone: string
+    timeZone: string,
+    threadContext?: string,
+    threadId?: string
   ): Promise<MeetingRequestContext> {
     console.log('✅ Meeting-related message detected, getting Claude recommendations...');
     
-    // Get calendar busy events instead of calculating free slots
-    await this.calendarMonitor.initialize();
-    const busyEvents = await this.calendarMonitor.getBusyEvents(meetingDates);
+    // Get calendar busy events instead of calculating free slots.
+    // The thread's own holds are left out so a confirmation of a time we offered does not conflict with itself.
+    await this.calendarMonitor.initialize(this.userEmail || undefined);
+    const busyEvents = withoutThreadHolds(await this.calendarMonitor.getBusyEvents(meetingDates), threadId);
     
     // Use the first date as "today" for Claude context (or current date if no dates provided)
     const today: string = meetingDates.length > 0 && meetingDates[0] 
       ? meetingDates[0] 
       : new Date().toISOString().slice(0, 10);
     
-    // Get Claude's smart recommendations based on busy events to avoid
+    // Get Claude's smart recommendations based on busy events to avoid and the user's working hours
+    const { scheduling } = await userSettingsManager.getSettings(this.userEmail);
     const smartRecommendations = await this.meetingIntentDetector.getMeetingRequestContext(
-      snippet, 
+      emailText, 
       today, 
       timeZone, 
-      busyEvents
+      busyEvents,
+      threadContext,
+      scheduling
     );
     
     console.log('🎯 Claude recommendations:', smartRecommendations);
@@ -232,178 +472,984 @@ User requirements: ${meetingContext.notes || 'No specific requirements'}.`;
    */
   public extractEmailInfoForReply(fullMsg: GmailMessage): EmailInfo {
     const headers: GmailHeader[] = fullMsg.payload?.headers || [];
-    const fromHeader: GmailHeader | undefined = headers.find(h => h.name.toLowerCase() === 'from');
-    const toEmail: string = fromHeader ? fromHeader.value.replace(/.*<(.+)>/, '$1').trim() : '';
-    const senderName: string = fromHeader ? 
-      fromHeader.value.replace(/<.*>/, '').replace(/['"]/g, '').trim() : '';
-    const subjectHeader: GmailHeader | undefined = headers.find(h => h.name.toLowerCase() === 'subject');
-    const originalSubject: string = subjectHeader ? 
-      (subjectHeader.value.startsWith('Re:') ? subjectHeader.value : `Re: ${subjectHeader.value}`) : 
+    const from = parseAddressList(getHeader(headers, 'from'))[0];
+    const replyTo = parseAddressList(getHeader(headers, 'reply-to'));
+    // Replies go to Reply-To when the sender set one
+    const recipient = replyTo[0] || from;
+    const toEmail: string = recipient?.email || '';
+    const senderName: string = from?.name || recipient?.name || '';
+    const subject = getHeader(headers, 'subject');
+    const originalSubject: string = subject ? 
+      (/^re:/i.test(subject) ? subject : `Re: ${subject}`) : 
       'Re: Meeting Request';
-    const messageId: string | undefined = headers.find(h => h.name.toLowerCase() === 'message-id')?.value;
+    const messageId: string | undefined = getHeader(headers, 'message-id') || undefined;
     
     return {
       toEmail,
       senderName,
       originalSubject,
       headers,
-      messageId
+      messageId,
+      from: from || null,
+      to: parseAddressList(getHeader(headers, 'to')),
+      cc: parseAddressList(getHeader(headers, 'cc')),
+      replyTo
     };
   }
 
   /**
-   * Send meeting reply email
+   * Generate the reply body with Claude and fetch the raw original for quoting and threading
    */
-  public async sendMeetingReply(
+  private async prepareMeetingReply(
     emailInfo: EmailInfo,
     smartRecommendations: MeetingRequestContext,
-    snippet: string,
+    emailText: string,
     messageId: string,
-    threadId?: string
-  ): Promise<boolean> {
-    if (!emailInfo.toEmail) {
-      console.log('❌ Could not determine sender email');
-      return false;
-    }
-
+    threadContext?: string
+  ): Promise<{ replyBody: string; rawMessage: string }> {
     // Generate professional email response using Claude
     const replyBody = await this.meetingIntentDetector.generateEmailResponse(
-      snippet, 
+      emailText, 
       smartRecommendations, 
-      emailInfo.senderName
+      emailInfo.senderName,
+      threadContext
     );
-    
-    // Get the full raw message for proper threading
-    let rawMessage = '';
+    const rawMessage = await this.fetchRawMessage(messageId);
+    return { replyBody, rawMessage };
+  }
+
+  // Get the full raw message for proper threading and quoting
+  private async fetchRawMessage(messageId: string): Promise<string> {
     try {
       const rawMsg = await this.gmail!.users.messages.get({
         userId: 'me',
         id: messageId,
         format: 'raw'
       });
-      rawMessage = rawMsg.data.raw || '';
+      return rawMsg.data.raw || '';
     } catch (rawErr) {
       console.warn('Could not fetch raw message for threading:', rawErr);
+      return '';
     }
-    
-    await this.composeAndSendEmail(
-      emailInfo.toEmail,
+  }
+
+  /**
+   * Search this mailbox with a Gmail query (search_emails MCP tool)
+   */
+  public async searchEmails(options: EmailSearchOptions): Promise<EmailSearchResponse> {
+    return searchMessages(this.gmail, options);
+  }
+
+  public async getEmail(messageId: string): Promise<EmailDetails> {
+    return getEmail(this.gmail, messageId);
+  }
+
+  public async getThread(threadId: string): Promise<ThreadDetails> {
+    return getThread(this.gmail, threadId);
+  }
+
+  public async downloadAttachment(messageId: string, ref: { partId?: string; attachmentId?: string }): Promise<AttachmentContent> {
+    return downloadAttachment(this.gmail, messageId, ref);
+  }
+
+  /**
+   * Earlier messages of a thread, oldest first. Returns an empty transcript if the thread
+   * cannot be fetched, so processing falls back to the single message.
+   */
+  public async fetchThreadTranscript(threadId: string, currentMessageId?: string): Promise<ThreadTranscriptEntry[]> {
+    if (!threadId) return [];
+    try {
+      const res = await this.gmail.users.threads.get({ userId: 'me', id: threadId, format: 'full' });
+      const messages = (res.data.messages || []) as GmailMessage[];
+      return buildThreadTranscript(messages, this.userEmail, currentMessageId);
+    } catch (threadErr) {
+      console.warn(`Could not fetch thread ${threadId} for context:`, threadErr);
+      return [];
+    }
+  }
+
+  /**
+   * Send meeting reply email. Returns the Gmail ID of the sent reply, or null if nothing was sent.
+   */
+  public async sendMeetingReply(
+    emailInfo: EmailInfo,
+    smartRecommendations: MeetingRequestContext,
+    emailText: string,
+    messageId: string,
+    threadId?: string,
+    threadContext?: string,
+    booking?: BookedMeeting
+  ): Promise<string | null> {
+    if (!emailInfo.toEmail) {
+      console.log('❌ Could not determine sender email');
+      return null;
+    }
+
+    const { replyBody, rawMessage } = await this.prepareMeetingReply(emailInfo, smartRecommendations, emailText, messageId, threadContext);
+    const recipients = await this.resolveRecipients(emailInfo);
+    const replyMessageId = await this.composeAndSendEmail(
+      recipients,
+      emailInfo.originalSubject,
+      appendMeetingDetails(replyBody, booking || null),
+      threadId,
+      emailInfo.messageId,
+      rawMessage,
+      await this.buildReplyCalendar(smartRecommendations, recipients, emailInfo.originalSubject, threadId || messageId, booking)
+    );
+    if (replyMessageId) {
+      console.log('📤 Smart meeting reply sent!');
+    }
+    return replyMessageId;
+  }
+
+  /**
+   * Create the meeting reply as a draft in the original thread. Returns the Gmail draft ID,
+   * or null if no draft was created.
+   */
+  public async draftMeetingReply(
+    emailInfo: EmailInfo,
+    smartRecommendations: MeetingRequestContext,
+    emailText: string,
+    messageId: string,
+    threadId?: string,
+    threadContext?: string
+  ): Promise<string | null> {
+    if (!emailInfo.toEmail) {
+      console.log('❌ Could not determine sender email');
+      return null;
+    }
+
+    const { replyBody, rawMessage } = await this.prepareMeetingReply(emailInfo, smartRecommendations, emailText, messageId, threadContext);
+    const recipients = await this.resolveRecipients(emailInfo);
+    const draftId = await this.composeAndCreateDraft(
+      recipients,
       emailInfo.originalSubject,
       replyBody,
       threadId,
       emailInfo.messageId,
-      rawMessage
+      rawMessage,
+      await this.buildReplyCalendar(smartRecommendations, recipients, emailInfo.originalSubject, threadId || messageId)
     );
-    console.log('📤 Smart meeting reply sent!');
-    return true;
+    if (draftId) {
+      console.log('📝 Smart meeting reply saved as draft');
+      this.emitEvent({
+        type: 'draft_created',
+        message: `Draft reply to ${emailInfo.toEmail} is waiting for review: ${emailInfo.originalSubject}`,
+        data: {
+          draftId,
+          messageId,
+          threadId: threadId || null,
+          to: emailInfo.toEmail,
+          cc: recipients.cc.map(address => address.email),
+          subject: emailInfo.originalSubject,
+        },
+      });
+    }
+    return draftId;
   }
 
   /**
-   * Mark message as read to avoid reprocessing
+   * Generate the meeting reply and hold it in the approval queue instead of sending it
    */
-  public async markMessageAsRead(messageId: string, messageType: MessageType): Promise<void> {
+  public async queueMeetingReply(
+    emailInfo: EmailInfo,
+    smartRecommendations: MeetingRequestContext,
+    parsed: ParsedEmail,
+    threadContext?: string
+  ): Promise<PendingReply | null> {
+    if (!emailInfo.toEmail) {
+      console.log('❌ Could not determine sender email');
+      return null;
+    }
+
+    const replyBody = await this.meetingIntentDetector.generateEmailResponse(
+      parsed.body,
+      smartRecommendations,
+      emailInfo.senderName,
+      threadContext
+    );
+    const recipients = await this.resolveRecipients(emailInfo);
+    const pending = await pendingReplyQueue.enqueue({
+      user_email: this.userEmail,
+      message_id: parsed.id,
+      thread_id: parsed.threadId,
+      to: recipients.to.map(address => address.email).join(', '),
+      cc: recipients.cc.map(address => address.email),
+      subject: emailInfo.originalSubject,
+      ...(emailInfo.messageId ? { in_reply_to: emailInfo.messageId } : {}),
+      original_from: parsed.from ? `${parsed.from.name} <${parsed.from.email}>`.trim() : emailInfo.toEmail,
+      original_body: parsed.body,
+      meeting_context: smartRecommendations,
+      proposed_body: replyBody,
+      slots: smartRecommendations.suggested_meeting_times,
+    });
+    this.emitEvent({
+      type: 'reply_pending_approval',
+      message: `Reply to ${emailInfo.toEmail} is waiting for approval: ${emailInfo.originalSubject}`,
+      data: {
+        replyId: pending.reply_id,
+        messageId: parsed.id,
+        threadId: parsed.threadId,
+        to: emailInfo.toEmail,
+        subject: emailInfo.originalSubject,
+      },
+    });
+    return pending;
+  }
+
+  /**
+   * Send a queued reply, optionally with an edited body. Returns the resolved queue entry,
+   * or null if the reply is not pending (already resolved, expired or unknown).
+   */
+  public async approvePendingReply(replyId: string, editedBody?: string): Promise<PendingReply | null> {
+    const reply = await pendingReplyQueue.getPending(this.userEmail, replyId);
+    if (!reply || this.messagesInFlight.has(reply.message_id)) {
+      return null;
+    }
+    this.messagesInFlight.add(reply.message_id);
     try {
-      await this.gmail!.users.messages.modify({
-        userId: 'me',
-        id: messageId,
-        requestBody: {
-          removeLabelIds: ['UNREAD']
+      const rawMessage = await this.fetchRawMessage(reply.message_id);
+      const recipients = { to: parseAddressList(reply.to), cc: parseAddressList((reply.cc || []).join(', ')) };
+      // Invite responses carry their own calendar; a confirmed meeting is booked once the user approves
+      const booking = reply.calendar
+        ? null
+        : await this.bookConfirmedMeeting(reply.meeting_context, [...recipients.to, ...recipients.cc], reply.subject, reply.thread_id);
+      const body = appendMeetingDetails(editedBody || reply.proposed_body, booking);
+      const sentMessageId = await this.composeAndSendEmail(
+        recipients,
+        reply.subject,
+        body,
+        reply.thread_id,
+        reply.in_reply_to,
+        rawMessage,
+        reply.calendar as CalendarDocument | undefined
+          || await this.buildReplyCalendar(reply.meeting_context, recipients, reply.subject, reply.thread_id || reply.message_id, booking || undefined)
+      );
+      if (!sentMessageId) {
+        throw new Error('Reply could not be sent');
+      }
+      console.log(`📤 Approved reply ${replyId} sent`);
+      if (!booking && !reply.calendar) {
+        await this.placeProposalHolds(reply.meeting_context, reply.subject, reply.thread_id);
+      }
+      const accepted = !!reply.calendar && reply.meeting_context.meeting_context?.intent === 'accept';
+      await this.labelMessage(reply.message_id, accepted || booking ? 'confirmed' : 'replied');
+      const resolved = await pendingReplyQueue.resolve(reply, 'approved', { sentMessageId, body });
+      // Recorded last, so a ledger failure cannot leave a sent reply pending and approvable again
+      await messageLedger.recordOutcome(this.pendingReplyRef(reply), 'replied', { replyMessageId: sentMessageId });
+      return resolved;
+    } finally {
+      this.messagesInFlight.delete(reply.message_id);
+    }
+  }
+
+  /**
+   * Discard a queued reply. Returns the resolved queue entry, or null if the reply is not pending.
+   */
+  public async rejectPendingReply(replyId: string): Promise<PendingReply | null> {
+    const reply = await pendingReplyQueue.getPending(this.userEmail, replyId);
+    if (!reply || this.messagesInFlight.has(reply.message_id)) {
+      return null;
+    }
+    console.log(`🗑️ Rejected reply ${replyId}`);
+    await messageLedger.recordOutcome(this.pendingReplyRef(reply), 'rejected');
+    await this.labelMessage(reply.message_id, 'ignored');
+    return await pendingReplyQueue.resolve(reply, 'rejected');
+  }
+
+  private pendingReplyRef(reply: PendingReply): LedgerMessageRef {
+    return {
+      userEmail: this.userEmail,
+      messageId: reply.message_id,
+      threadId: reply.thread_id,
+      sender: parseAddressList(reply.to)[0]?.email || reply.to,
+    };
+  }
+
+  /**
+   * The invite carried by a message's text/calendar part or .ics attachment, or null if there is none
+   */
+  private async extractCalendarInvite(parsed: ParsedEmail): Promise<CalendarInvite | null> {
+    const parts = [...parsed.calendarParts];
+    if (!parts.length) {
+      const attachment = parsed.attachments.find(att => att.attachmentId && isCalendarPart(att.mimeType, att.filename));
+      if (attachment?.attachmentId) {
+        try {
+          const res = await this.gmail.users.messages.attachments.get({ userId: 'me', messageId: parsed.id, id: attachment.attachmentId });
+          parts.push(decodeBody(res.data?.data || ''));
+        } catch (attachmentErr) {
+          console.warn(`Could not fetch calendar attachment of message ${parsed.id}:`, attachmentErr);
         }
+      }
+    }
+    for (const part of parts) {
+      const invite = primaryInvite(parseCalendarInvites(part));
+      if (invite) return invite;
+    }
+    return null;
+  }
+
+  /**
+   * Check an invite (or the time a counter-proposal suggests) against the user's calendar, and
+   * look for free time of the same length over the next few days when it is taken
+   */
+  private async checkInviteAvailability(invite: CalendarInvite): Promise<InviteAvailability> {
+    await this.calendarMonitor.initialize(this.userEmail || undefined);
+    const busyEvents = await this.calendarMonitor.getBusyEvents(
+      datesBetween(invite.start, invite.end, this.calendarMonitor.getPreferences().time_zone)
+    );
+    const conflicts = findInviteConflicts(invite, busyEvents);
+    if (!conflicts.length || invite.method !== 'REQUEST') {
+      return { conflicts, alternative: null };
+    }
+    const searchDates = [0, 1, 2].map(offset =>
+      DateTime.fromJSDate(invite.start, { zone: invite.timeZone }).plus({ days: offset }).toISODate()!
+    );
+    const freeSlots = await this.calendarMonitor.getFreeSlotsForDates(searchDates, invite.timeZone);
+    const durationMs = invite.end.getTime() - invite.start.getTime();
+    return { conflicts, alternative: findAlternativeSlot(freeSlots, durationMs, new Date()) };
+  }
+
+  /**
+   * Answer a calendar invite, cancellation or counter-proposal under the user's reply mode
+   */
+  private async handleCalendarInvite(
+    parsed: ParsedEmail,
+    invite: CalendarInvite,
+    ledgerRef: LedgerMessageRef,
+    settings: UserSettings
+  ): Promise<void> {
+    console.log(`📅 Calendar ${invite.method} for "${invite.summary}" (${invite.uid}) in message ${parsed.id}`);
+    await messageLedger.recordOutcome(ledgerRef, 'classified');
+    await this.labelMessage(parsed.id, 'detected');
+
+    const needsAvailability = invite.method === 'REQUEST' || invite.method === 'COUNTER';
+    const availability = needsAvailability ? await this.checkInviteAvailability(invite) : { conflicts: [], alternative: null };
+    const plan = planInviteResponse(invite, this.userEmail, availability);
+    if (plan.action === 'none') {
+      console.log(`📅 No response to ${invite.method} ${invite.uid}: ${plan.reason}`);
+      await messageLedger.recordOutcome(ledgerRef, 'skipped', { skipReason: `invite:${plan.reason}` });
+      // Cancellations and invites the assistant cannot answer are left for the user
+      await this.labelMessage(parsed.id, plan.reason === 'own-invite' || plan.reason.startsWith('method:') ? 'ignored' : 'needs_human');
+      return;
+    }
+    console.log(`📅 Invite ${invite.uid}: ${plan.action} (${plan.reason})`);
+
+    if (settings.reply_mode === 'off') {
+      console.log(`🔕 Replies are turned off for ${this.userEmail}, leaving invite classified`);
+      return;
+    }
+    if (settings.reply_mode === 'send') {
+      const capReason = await checkReplyCaps(ledgerRef);
+      if (capReason) {
+        console.log(`🛡️ Not answering invite in message ${parsed.id}: ${capReason}`);
+        await messageLedger.recordOutcome(ledgerRef, 'skipped', { skipReason: `safeguard:${capReason}` });
+        await this.labelMessage(parsed.id, 'needs_human');
+        return;
+      }
+    }
+
+    const recipients: ReplyRecipients = { to: plan.to, cc: [] };
+    let stage: SchedulingLabel = 'needs_human';
+    if (settings.reply_mode === 'draft') {
+      const draftId = await this.composeAndCreateDraft(recipients, plan.subject, plan.body, parsed.threadId, parsed.messageId, undefined, plan.calendar);
+      if (draftId) {
+        await messageLedger.recordOutcome(ledgerRef, 'drafted', { draftId });
+        this.emitEvent({
+          type: 'draft_created',
+          message: `Draft response to the invite "${invite.summary}" is waiting for review: ${plan.subject}`,
+          data: { draftId, messageId: parsed.id, threadId: parsed.threadId, to: describeRecipients(recipients), subject: plan.subject, action: plan.action },
+        });
+      } else {
+        await messageLedger.recordOutcome(ledgerRef, 'failed', { error: 'Draft invite response could not be created' });
+      }
+    } else if (settings.reply_mode === 'approve') {
+      const pending = await this.queueInviteResponse(parsed, invite, plan);
+      await messageLedger.recordOutcome(ledgerRef, pending ? 'queued' : 'failed', pending ? {} : { error: 'Invite response could not be queued' });
+    } else {
+      const replyMessageId = await this.composeAndSendEmail(recipients, plan.subject, plan.body, parsed.threadId, parsed.messageId, undefined, plan.calendar);
+      if (replyMessageId) {
+        console.log(`📤 Invite response sent (${plan.action})`);
+        await messageLedger.recordOutcome(ledgerRef, 'replied', { replyMessageId });
+        stage = plan.action === 'accept' ? 'confirmed' : 'replied';
+      } else {
+        await messageLedger.recordOutcome(ledgerRef, 'failed', { error: 'Invite response could not be sent' });
+      }
+    }
+    await this.labelMessage(parsed.id, stage);
+  }
+
+  private async queueInviteResponse(parsed: ParsedEmail, invite: CalendarInvite, plan: InviteResponsePlan): Promise<PendingReply | null> {
+    try {
+      const meetingContext = inviteMeetingContext(invite, plan);
+      const pending = await pendingReplyQueue.enqueue({
+        user_email: this.userEmail,
+        message_id: parsed.id,
+        thread_id: parsed.threadId,
+        to: plan.to.map(address => address.email).join(', '),
+        cc: [],
+        subject: plan.subject,
+        ...(parsed.messageId ? { in_reply_to: parsed.messageId } : {}),
+        original_from: parsed.from ? `${parsed.from.name} <${parsed.from.email}>`.trim() : '',
+        original_body: parsed.body,
+        meeting_context: meetingContext,
+        proposed_body: plan.body,
+        slots: meetingContext.suggested_meeting_times,
+        ...(plan.calendar ? { calendar: plan.calendar } : {}),
+      });
+      this.emitEvent({
+        type: 'reply_pending_approval',
+        message: `Response to the invite "${invite.summary}" is waiting for approval: ${plan.subject}`,
+        data: { replyId: pending.reply_id, messageId: parsed.id, threadId: parsed.threadId, to: pending.to, subject: plan.subject, action: plan.action },
       });
-      console.log(`✅ ${messageType === 'meeting' ? 'Meeting' : 'Non-meeting'} email marked as read`);
-    } catch (markReadErr) {
-      console.error(`⚠️ Failed to mark ${messageType} email as read:`, markReadErr);
+      return pending;
+    } catch (queueErr) {
+      console.error('❌ Could not queue invite response:', queueErr);
+      return null;
     }
   }
 
-  private async pollUnreadMessages(): Promise<void> {
+  /**
+   * Put a meeting the counterpart confirmed on the user's calendar, inviting everyone on the thread.
+   * Returns null when the context does not confirm exactly one slot or booking fails. A meeting already
+   * booked for the thread at that time is reused, so a redelivered confirmation never books twice.
+   */
+  private async bookConfirmedMeeting(
+    meetingContext: MeetingRequestContext,
+    attendees: EmailAddress[],
+    subject: string,
+    threadId?: string
+  ): Promise<BookedMeeting | null> {
+    const slot = confirmedSlot(meetingContext);
+    if (!slot || !threadId) return null;
+    try {
+      await this.calendarMonitor.initialize(this.userEmail || undefined);
+      const existing = await this.calendarMonitor.findThreadMeeting(threadId);
+      if (existing && existing.start.getTime() === slot.start.getTime()) {
+        console.log(`📅 Meeting for thread ${threadId} is already on the calendar (${existing.eventId})`);
+        await this.releaseThreadHolds(threadId);
+        return existing;
+      }
+      const settings = await userSettingsManager.getSettings(this.userEmail);
+      const booking = await this.calendarMonitor.bookMeeting({
+        threadId,
+        subject,
+        slot,
+        attendees,
+        ...(meetingContext.notes ? { notes: meetingContext.notes } : {}),
+        addMeetLink: settings.add_meet_link,
+      }, settings.attach_calendar ? 'none' : 'all');
+      console.log(`📅 Booked "${booking.summary}" at ${booking.start.toISOString()} (${booking.eventId})`);
+      await this.releaseThreadHolds(threadId);
+      return booking;
+    } catch (bookErr) {
+      if (isRetryableError(bookErr)) throw bookErr;
+      console.error(`⚠️ Could not book the confirmed meeting for thread ${threadId}, replying without it:`, bookErr);
+      return null;
+    }
+  }
+
+  /**
+   * Hold every slot a sent reply offered, replacing the thread's earlier holds, so the same time
+   * is not offered to someone else as if it were free. Best effort: the reply has already gone out.
+   */
+  private async placeProposalHolds(meetingContext: MeetingRequestContext, subject: string, threadId?: string): Promise<void> {
+    const ttlMs = getHoldTtlMs();
+    if (ttlMs <= 0 || !threadId || isConfirmation(meetingContext)) return;
+    const slots = slotsFromMeetingContext(meetingContext);
+    if (!slots.length) return;
+    try {
+      await this.calendarMonitor.initialize(this.userEmail || undefined);
+      await this.calendarMonitor.releaseHolds(threadId);
+      const placed = await this.calendarMonitor.placeHolds(threadId, subject, slots, new Date(Date.now() + ttlMs));
+      console.log(`📌 Placed ${placed} hold(s) for thread ${threadId}`);
+    } catch (holdErr) {
+      console.error(`⚠️ Could not place holds for thread ${threadId}:`, holdErr);
+    }
+  }
+
+  // Release a thread's holds once its meeting is booked; the booked event replaces them
+  private async releaseThreadHolds(threadId: string): Promise<void> {
+    try {
+      const released = await this.calendarMonitor.releaseHolds(threadId);
+      if (released) console.log(`📌 Released ${released} hold(s) for thread ${threadId}`);
+    } catch (holdErr) {
+      console.error(`⚠️ Could not release holds for thread ${threadId}:`, holdErr);
+    }
+  }
+
+  /**
+   * Delete holds nobody answered within HOLD_TTL_HOURS. Runs at most every 15 minutes per mailbox.
+   */
+  public async releaseExpiredHolds(): Promise<void> {
+    if (getHoldTtlMs() <= 0 || Date.now() - this.lastHoldSweepAt < HOLD_SWEEP_INTERVAL_MS) return;
+    this.lastHoldSweepAt = Date.now();
+    try {
+      if (!await this.calendarMonitor.initialize(this.userEmail || undefined)) return;
+      const released = await this.calendarMonitor.releaseExpiredHolds();
+      if (released) console.log(`🧹 Released ${released} expired hold(s) for ${this.userEmail}`);
+    } catch (holdErr) {
+      console.error(`⚠️ Could not release expired holds for ${this.userEmail}:`, holdErr);
+    }
+  }
+
+  // Everyone on a message except the user: the attendees of a meeting booked from it
+  private threadParticipants(emailInfo: EmailInfo): EmailAddress[] {
+    const { to, cc } = resolveReplyRecipients(emailInfo, { recipients: 'reply_all', always_cc: [] }, this.userEmail);
+    return [...to, ...cc];
+  }
+
+  // Recipients for a reply under the user's reply policy
+  private async resolveRecipients(emailInfo: EmailInfo): Promise<ReplyRecipients> {
+    const { reply_policy: policy } = await userSettingsManager.getSettings(this.userEmail);
+    return resolveReplyRecipients(emailInfo, policy, this.userEmail);
+  }
+
+  /**
+   * The .ics to attach to a meeting reply, or undefined if the user turned attachments off
+   * or no slot could be parsed. The UID is derived from the thread so a later invite updates the same event,
+   * or taken from the calendar event when the meeting has been booked.
+   */
+  private async buildReplyCalendar(
+    meetingContext: MeetingRequestContext,
+    recipients: ReplyRecipients,
+    subject: string,
+    uidKey: string,
+    booking?: BookedMeeting
+  ): Promise<CalendarDocument | undefined> {
+    const { attach_calendar: attachCalendar } = await userSettingsManager.getSettings(this.userEmail);
+    if (!attachCalendar) return undefined;
+    try {
+      if (booking) {
+        return bookedMeetingCalendar(booking, { name: '', email: this.userEmail });
+      }
+      const calendar = buildMeetingCalendar(meetingContext, {
+        uidKey,
+        summary: subject,
+        organizer: { name: '', email: this.userEmail },
+        attendees: [...recipients.to, ...recipients.cc],
+      });
+      return calendar || undefined;
+    } catch (calendarErr) {
+      console.error('⚠️ Could not build calendar attachment, replying without it:', calendarErr);
+      return undefined;
+    }
+  }
+
+  private emitEvent(event: MonitorEvent): void {
+    if (!this.onEvent) return;
+    try {
+      this.onEvent(event);
+    } catch (error) {
+      console.error(`❌ Error handling ${event.type} event:`, error);
+    }
+  }
+
+  /**
+   * Label a message with its scheduling stage, and mark it read unless the user leaves mail unread
+   */
+  public async labelMessage(messageId: string, label: SchedulingLabel): Promise<void> {
+    try {
+      const { leave_unread: leaveUnread } = await userSettingsManager.getSettings(this.userEmail);
+      await gmailLabelManager.applyLabel(this.gmail, this.userEmail, messageId, label, !leaveUnread);
+      console.log(`🏷️ Message ${messageId} labelled ${SCHEDULING_LABEL_NAMES[label]}${leaveUnread ? '' : ' and marked as read'}`);
+    } catch (labelErr) {
+      console.error(`⚠️ Failed to label message ${messageId} as ${SCHEDULING_LABEL_NAMES[label]}:`, labelErr);
+    }
+  }
+
+  private async runSyncCycle(): Promise<void> {
+    try {
+      await this.syncOnce();
+    } catch (err) {
+      console.error(`${this.syncMode === 'history' ? 'History sync' : 'Polling'} error:`, err);
+    }
+  }
+
+  /**
+   * Run one sync in the configured mode. Errors propagate to the caller.
+   */
+  public async syncOnce(): Promise<void> {
+    await this.runExclusiveSync(() => this.syncMode === 'history' ? this.performHistorySync() : this.pollUnreadMessages());
+  }
+
+  /**
+   * Incremental sync: process only what changed since the stored historyId checkpoint.
+   */
+  public async syncHistory(): Promise<void> {
+    await this.runExclusiveSync(() => this.performHistorySync());
+  }
+
+  /**
+   * Run a sync unless one is already running. Concurrent callers share the running sync,
+   * which runs once more if asked for meanwhile.
+   */
+  private async runExclusiveSync(sync: () => Promise<void>): Promise<void> {
+    if (this.syncInProgress) {
+      this.syncRequested = true;
+      return this.syncInProgress;
+    }
+    this.syncInProgress = (async () => {
+      do {
+        this.syncRequested = false;
+        await sync();
+      } while (this.syncRequested);
+    })();
+    try {
+      await this.syncInProgress;
+    } finally {
+      this.syncInProgress = null;
+    }
+  }
+
+  /**
+   * Walk history pages since the checkpoint and process newly unread inbox messages.
+   * Falls back to a full resync when there is no checkpoint or Gmail has expired it.
+   */
+  private async performHistorySync(): Promise<void> {
     if (!this.gmail) {
       console.error('Gmail client not initialized');
       return;
     }
-    try {
+    const startHistoryId = await historyCheckpointStore.getHistoryId(this.userEmail);
+    if (!startHistoryId) {
+      console.log(`🔄 No history checkpoint for ${this.userEmail}, running full resync`);
+      await this.fullResync();
+      return;
+    }
+
+    const messages: Map<string, GmailMessage> = new Map();
+    let latestHistoryId = startHistoryId;
+    let pageToken: string | undefined;
+    do {
+      let res;
+      try {
+        res = await this.gmail.users.history.list({
+          userId: 'me',
+          startHistoryId,
+          historyTypes: ['messageAdded', 'labelAdded'],
+          pageToken,
+        });
+      } catch (err) {
+        if (this.isHistoryExpiredError(err)) {
+          console.warn(`⚠️ History ID ${startHistoryId} expired for ${this.userEmail}, running full resync`);
+          await this.fullResync();
+          return;
+        }
+        throw err;
+      }
+      const data = res.data as GmailHistoryResponse;
+      for (const history of data.history || []) {
+        this.collectUnreadInboxMessages(history, messages);
+      }
+      latestHistoryId = data.historyId || latestHistoryId;
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+
+    const messageIds = await this.filterHistoryMessages(Array.from(messages.values()));
+    console.log(`📬 History sync found ${messageIds.length} new message(s) since ${startHistoryId}`);
+    await this.processMessages(messageIds);
+    await historyCheckpointStore.setHistoryId(this.userEmail, latestHistoryId);
+  }
+
+  /**
+   * Process every unread inbox message, then checkpoint at the mailbox's current historyId.
+   * The profile historyId is read first so anything arriving mid-resync is picked up next cycle.
+   */
+  private async fullResync(): Promise<void> {
+    const profile = await this.gmail.users.getProfile({ userId: 'me' });
+    const historyId: string | undefined = profile.data.historyId;
+    await this.pollUnreadMessages();
+    if (historyId) {
+      await historyCheckpointStore.setHistoryId(this.userEmail, historyId);
+    }
+  }
+
+  private collectUnreadInboxMessages(history: GmailHistory, messages: Map<string, GmailMessage>): void {
+    for (const added of history.messagesAdded || []) {
+      if (this.isUnreadInboxMessage(added.message)) {
+        messages.set(added.message.id, added.message);
+      }
+    }
+    for (const added of history.labelsAdded || []) {
+      const touchesInbox = added.labelIds.includes('UNREAD') || added.labelIds.includes('INBOX');
+      if (touchesInbox && this.isUnreadInboxMessage(added.message)) {
+        messages.set(added.message.id, added.message);
+      }
+    }
+  }
+
+  /**
+   * Apply what poll mode puts in its search query to messages found through history: skip those
+   * already carrying a scheduling label and, when the user has a gmail_query rule, those it excludes
+   */
+  private async filterHistoryMessages(messages: GmailMessage[]): Promise<string[]> {
+    if (!messages.length) return [];
+    const schedulingLabelIds = new Set(Object.values(await gmailLabelManager.getLabelIds(this.gmail, this.userEmail)));
+    const unlabelled = messages
+      .filter(message => !(message.labelIds || []).some(labelId => schedulingLabelIds.has(labelId)))
+      .map(message => message.id);
+
+    const { rules } = await userSettingsManager.getSettings(this.userEmail);
+    if (!unlabelled.length || !rules.gmail_query.trim()) return unlabelled;
+    // Gmail search is the only way to evaluate the query, so keep the messages it returns
+    const matching = new Set(await this.listUnreadMessageIds());
+    return unlabelled.filter(id => matching.has(id));
+  }
+
+  private isUnreadInboxMessage(message: GmailMessage): boolean {
+    const labels = message.labelIds || [];
+    return labels.includes('UNREAD') && labels.includes('INBOX') &&
+      !labels.includes('SENT') && !labels.includes('DRAFT');
+  }
+
+  private isHistoryExpiredError(err: unknown): boolean {
+    return apiErrorStatus(err) === 404;
+  }
+
+  /**
+   * List the IDs of all unread messages, following pagination
+   */
+  private async listUnreadMessageIds(): Promise<string[]> {
+    const { rules } = await userSettingsManager.getSettings(this.userEmail);
+    // Messages left unread after processing keep a scheduling label, so skip them here
+    const query = buildUnreadQuery(rules, excludeSchedulingLabelsQuery());
+    const ids: string[] = [];
+    let pageToken: string | undefined;
+    do {
       const res = await this.gmail.users.messages.list({
         userId: 'me',
-        q: 'is:unread',
-        maxResults: 10,
+        q: query,
+        maxResults: 100,
+        pageToken,
       });
-      const messages = res.data.messages || [];
-      for (const msg of messages) {
-        if (this.seenMessageIds.has(msg.id)) continue;
-        this.seenMessageIds.add(msg.id);
-        const fullMsg = await this.gmail.users.messages.get({ userId: 'me', id: msg.id });
-        this.onMessageReceived(fullMsg.data as GmailMessage);
-
-        // SIMPLIFIED: Check if meeting-related and get Claude's smart recommendations
-        const snippet = (fullMsg.data as GmailMessage).snippet || '';
-        const defaultTimeZone = '+00:00';
-        const today = new Date().toISOString().slice(0, 10);
-        
-        try {
-          console.log('📧 Checking if message is meeting-related and extracting dates...');
-          const meetingDates = await this.meetingIntentDetector.checkIfMessageMeetingRelated(snippet, today, defaultTimeZone);
-          if (meetingDates.length === 0) {
-            console.log('❌ Message is not meeting related, no response needed');
-            // Mark as read even if not meeting-related to avoid reprocessing
-            await this.markMessageAsRead(msg.id!, 'non-meeting');
-            continue;
-          }
-          
-          console.log(`✅ Meeting-related message detected with dates: ${meetingDates.join(', ')}`);
-          
-          // Get meeting recommendations from Claude using extracted dates
-          const smartRecommendations = await this.getMeetingRecommendations(snippet, meetingDates, defaultTimeZone);
-          
-          // Extract email info for reply
-          const emailInfo = this.extractEmailInfoForReply(fullMsg.data as GmailMessage);
-          
-          if (emailInfo.toEmail) {
-            // Generate professional email response using Claude
-            await this.sendMeetingReply(
-              emailInfo,
-              smartRecommendations,
-              snippet,
-              msg.id!,
-              (fullMsg.data as GmailMessage).threadId
-            );
-          } else {
-            console.log('❌ Could not determine sender email');
+      for (const msg of res.data.messages || []) {
+        ids.push(msg.id);
+      }
+      pageToken = res.data.nextPageToken || undefined;
+    } while (pageToken);
+    return ids;
+  }
+
+  private async pollUnreadMessages(): Promise<void> {
+    if (!this.gmail) {
+      console.error('Gmail client not initialized');
+      return;
+    }
+    const messageIds = await this.listUnreadMessageIds();
+    await this.processMessages(messageIds);
+  }
+
+  /**
+   * Hand messages to the worker pool and wait until all of them are processed.
+   * Rethrows the first failure so the caller does not advance its checkpoint.
+   */
+  private async processMessages(messageIds: Iterable<string>): Promise<void> {
+    const jobs: Promise<void>[] = [];
+    for (const id of messageIds) {
+      const queued = await this.messageQueue.enqueue(id);
+      jobs.push(queued.done);
+    }
+    const results = await Promise.allSettled(jobs);
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  private async processMessageById(messageId: string): Promise<void> {
+    if (this.messagesInFlight.has(messageId)) return;
+    this.messagesInFlight.add(messageId);
+    try {
+      // The durable ledger survives restarts, so a handled message is never replied to twice
+      if (await messageLedger.hasProcessed(this.userEmail, messageId)) return;
+      await this.processMessage(messageId);
+    } finally {
+      this.messagesInFlight.delete(messageId);
+    }
+  }
+
+  private async processMessage(messageId: string): Promise<void> {
+    // Thread and sender are filled in once the message is fetched
+    const ledgerRef: LedgerMessageRef = { userEmail: this.userEmail, messageId, threadId: '', sender: '' };
+
+    try {
+      // Fetching and parsing happen here so a message that cannot be read is recorded as failed
+      // instead of blocking the checkpoint forever
+      const fullMsg = await this.gmail.users.messages.get({ userId: 'me', id: messageId });
+      this.onMessageReceived(fullMsg.data as GmailMessage);
+
+      // SIMPLIFIED: Check if meeting-related and get Claude's smart recommendations
+      // Use the full decoded body (quotes and signature stripped), not the ~200 character snippet
+      const parsed = parseGmailMessage(fullMsg.data as GmailMessage);
+      const emailText = parsed.body;
+      ledgerRef.threadId = parsed.threadId;
+      ledgerRef.sender = parsed.from?.email || '';
+
+      // Never answer automated mail, mailing lists or ourselves, whatever the sender rules say
+      const automatedReason = detectAutomatedMessage(parsed, this.userEmail);
+      if (automatedReason) {
+        console.log(`🛡️ Skipping message ${messageId} from ${ledgerRef.sender || 'unknown sender'}: ${automatedReason}`);
+        await messageLedger.recordOutcome(ledgerRef, 'skipped', { skipReason: `safeguard:${automatedReason}` });
+        await this.labelMessage(messageId, 'ignored');
+        return;
+      }
+
+      // Sender rules run before the message is sent to Claude
+      const settings = await userSettingsManager.getSettings(this.userEmail);
+      const decision = evaluateMailboxRules(settings.rules, parsed, this.userEmail);
+      if (!decision.process) {
+        console.log(`⏭️ Skipping message ${messageId} from ${ledgerRef.sender || 'unknown sender'}: matched rule ${decision.rule}`);
+        await messageLedger.recordOutcome(ledgerRef, 'skipped', { skipReason: `rule:${decision.rule}` });
+        await this.labelMessage(messageId, 'ignored');
+        return;
+      }
+
+      // Calendar invites are answered from the calendar alone, without asking Claude
+      const invite = await this.extractCalendarInvite(parsed);
+      if (invite) {
+        await this.handleCalendarInvite(parsed, invite, ledgerRef, settings);
+        return;
+      }
+
+      // Earlier messages in the thread let Claude resolve replies like "the second option works"
+      const threadContext = formatThreadTranscript(await this.fetchThreadTranscript(parsed.threadId, messageId));
+
+      // Relative dates like "tomorrow" are read in the user's own time zone
+      const timeZone = settings.scheduling.time_zone;
+      const today = DateTime.now().setZone(timeZone).toISODate()!;
+      console.log('📧 Checking if message is meeting-related and extracting dates...');
+      const meetingDates = await this.meetingIntentDetector.checkIfMessageMeetingRelated(emailText, today, timeZone, threadContext);
+      if (meetingDates.length === 0) {
+        console.log('❌ Message is not meeting related, no response needed');
+        await messageLedger.recordOutcome(ledgerRef, 'skipped');
+        await this.labelMessage(messageId, 'ignored');
+        return;
+      }
+
+      console.log(`✅ Meeting-related message detected with dates: ${meetingDates.join(', ')}`);
+      await messageLedger.recordOutcome(ledgerRef, 'classified');
+      await this.labelMessage(messageId, 'detected');
+
+      const replyMode = settings.reply_mode;
+      if (replyMode === 'off') {
+        console.log(`🔕 Replies are turned off for ${this.userEmail}, leaving message classified`);
+        return;
+      }
+
+      // Automatic sends are capped per thread and sender so two bots cannot ping-pong
+      if (replyMode === 'send') {
+        const capReason = await checkReplyCaps(ledgerRef);
+        if (capReason) {
+          console.log(`🛡️ Not replying to message ${messageId}: ${capReason}`);
+          await messageLedger.recordOutcome(ledgerRef, 'skipped', { skipReason: `safeguard:${capReason}` });
+          await this.labelMessage(messageId, 'needs_human');
+          return;
+        }
+      }
+
+      // Get meeting recommendations from Claude using extracted dates
+      const smartRecommendations = await this.getMeetingRecommendations(emailText, meetingDates, timeZone, threadContext, parsed.threadId);
+
+      // Extract email info for reply
+      const emailInfo = this.extractEmailInfoForReply(fullMsg.data as GmailMessage);
+
+      // Drafts, queued replies and failures all wait on the user
+      let stage: SchedulingLabel = 'needs_human';
+      if (emailInfo.toEmail && replyMode === 'draft') {
+        const draftId = await this.draftMeetingReply(
+          emailInfo,
+          smartRecommendations,
+          emailText,
+          messageId,
+          parsed.threadId,
+          threadContext
+        );
+        if (draftId) {
+          await messageLedger.recordOutcome(ledgerRef, 'drafted', { draftId });
+        } else {
+          await messageLedger.recordOutcome(ledgerRef, 'failed', { error: 'Draft reply could not be created' });
+        }
+      } else if (emailInfo.toEmail && replyMode === 'approve') {
+        const pending = await this.queueMeetingReply(emailInfo, smartRecommendations, parsed, threadContext);
+        if (pending) {
+          await messageLedger.recordOutcome(ledgerRef, 'queued');
+        } else {
+          await messageLedger.recordOutcome(ledgerRef, 'failed', { error: 'Reply could not be queued' });
+        }
+      } else if (emailInfo.toEmail) {
+        // A confirmed time goes on the calendar before the confirmation reply goes out
+        const booking = await this.bookConfirmedMeeting(
+          smartRecommendations,
+          this.threadParticipants(emailInfo),
+          emailInfo.originalSubject,
+          parsed.threadId
+        );
+        // Generate professional email response using Claude
+        const replyMessageId = await this.sendMeetingReply(
+          emailInfo,
+          smartRecommendations,
+          emailText,
+          messageId,
+          parsed.threadId,
+          threadContext,
+          booking || undefined
+        );
+        if (replyMessageId) {
+          await messageLedger.recordOutcome(ledgerRef, 'replied', { replyMessageId });
+          stage = booking ? 'confirmed' : 'replied';
+          if (!booking) {
+            await this.placeProposalHolds(smartRecommendations, emailInfo.originalSubject, parsed.threadId);
           }
-          
-          // Mark the meeting-related email as read after processing (regardless of reply success)
-          await this.markMessageAsRead(msg.id!, 'meeting');
-        } catch (err) {
-          console.error('❌ Error processing meeting message:', err);
-          continue;
+        } else {
+          await messageLedger.recordOutcome(ledgerRef, 'failed', { error: 'Reply could not be sent' });
         }
+      } else {
+        console.log('❌ Could not determine sender email');
+        await messageLedger.recordOutcome(ledgerRef, 'failed', { error: 'Could not determine sender email' });
       }
+
+      await this.labelMessage(messageId, stage);
     } catch (err) {
-      console.error('Polling error:', err);
+      if (err instanceof LedgerWriteError) {
+        // Without a ledger entry the next sync would answer the message again, so it goes to the user
+        await this.labelMessage(messageId, 'needs_human');
+        throw err;
+      }
+      if (isRetryableError(err) || err instanceof SettingsUnavailableError) {
+        // Stop this sync without advancing the checkpoint; the next sync picks the message up again
+        console.warn(`⏳ Deferring message ${messageId} after a retryable failure:`, err instanceof Error ? err.message : err);
+        await messageLedger.recordOutcome(ledgerRef, 'deferred', { error: err instanceof Error ? err.message : String(err) });
+        throw err;
+      }
+      console.error('❌ Error processing meeting message:', err);
+      await this.labelMessage(messageId, 'needs_human');
+      await messageLedger.recordOutcome(ledgerRef, 'failed', { error: err instanceof Error ? err.message : String(err) });
     }
   }
 
   /**
-   * Fetch unread messages, mark them as seen, and return them.
+   * Fetch unread messages not yet in the ledger, record them as skipped so the
+   * automatic pipeline leaves them alone, and return them parsed.
    * Does not trigger the onMessageReceived callback.
    */
-  public async checkForNewMessages(): Promise<GmailMessage[]> {
+  public async checkForNewMessages(): Promise<ParsedEmail[]> {
     if (!this.gmail) {
       console.error('Gmail client not initialized');
       return [];
     }
     try {
-      const res = await this.gmail.users.messages.list({
-        userId: 'me',
-        q: 'is:unread',
-        maxResults: 10,
-      });
-      const messages = res.data.messages || [];
-      const newMessages: GmailMessage[] = [];
-      for (const msg of messages) {
-        if (this.seenMessageIds.has(msg.id)) continue;
-        this.seenMessageIds.add(msg.id);
-        const fullMsg = await this.gmail.users.messages.get({ userId: 'me', id: msg.id });
-        newMessages.push(fullMsg.data as GmailMessage);
+      const messageIds = await this.listUnreadMessageIds();
+      const newMessages: ParsedEmail[] = [];
+      for (const id of messageIds) {
+        if (this.messagesInFlight.has(id) || this.messageQueue.has(id) || await messageLedger.hasProcessed(this.userEmail, id)) continue;
+        const fullMsg = await this.gmail.users.messages.get({ userId: 'me', id });
+        const parsed = parseGmailMessage(fullMsg.data as GmailMessage);
+        await messageLedger.recordOutcome(
+          { userEmail: this.userEmail, messageId: id, threadId: parsed.threadId, sender: parsed.from?.email || '' },
+          'skipped'
+        );
+        newMessages.push(parsed);
       }
       return newMessages;
     } catch (err) {
@@ -411,4 +1457,10 @@ User requirements: ${meetingContext.notes || 'No specific requirements'}.`;
       return [];
     }
   }
-} 
\ No newline at end of file
+} 
+
+function describeRecipients(recipients: string | ReplyRecipients): string {
+  if (typeof recipients === 'string') return recipients;
+  const to = recipients.to.map(address => address.email).join(', ');
+  return recipients.cc.length ? `${to} (cc ${recipients.cc.map(address => address.email).join(', ')})` : to;
+}
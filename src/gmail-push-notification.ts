@@ -0,0 +1,26 @@
+import { GmailPushNotification } from './types';
+
+export type GmailPushHandler = (notification: GmailPushNotification) => Promise<void>;
+
+/**
+ * Decode the base64 `message.data` of a Gmail Pub/Sub push message into {emailAddress, historyId}.
+ * Throws if the payload is not a Gmail watch notification.
+ */
+export function decodeGmailPushData(data: string): GmailPushNotification {
+  return parseGmailPushNotification(Buffer.from(data, 'base64').toString('utf-8'));
+}
+
+/**
+ * Parse the JSON body Gmail publishes to the watch topic
+ */
+export function parseGmailPushNotification(json: string): GmailPushNotification {
+  const decoded = JSON.parse(json);
+  if (!decoded || typeof decoded.emailAddress !== 'string' || decoded.historyId === undefined) {
+    throw new Error('Pub/Sub message data is not a Gmail watch notification');
+  }
+  return {
+    emailAddress: decoded.emailAddress,
+    // Gmail sends historyId as a number; keep it as a string like the rest of the API
+    historyId: String(decoded.historyId),
+  };
+}
@@ -0,0 +1,116 @@
+import { gmail_v1 } from 'googleapis';
+import { AttachmentContent, EmailDetails, GmailMessage, GmailMessagePart, ThreadDetails } from './types';
+import { parseGmailMessage, decodeEncodedWords, decodeBase64Url, toGmailMessage } from './gmail-message-parser';
+import { listLabelNames, schedulingLabelFromNames } from './gmail-labels';
+
+/**
+ * Largest attachment download_attachment returns, in bytes (ATTACHMENT_MAX_BYTES, default 5 MB)
+ */
+export function getAttachmentMaxBytes(): number {
+  return parseInt(process.env['ATTACHMENT_MAX_BYTES'] || String(5 * 1024 * 1024));
+}
+
+/**
+ * One message with decoded headers and bodies, attachment metadata and its scheduling stage
+ */
+export async function getEmail(gmail: gmail_v1.Gmail, messageId: string): Promise<EmailDetails> {
+  const [res, labelNames] = await Promise.all([
+    gmail.users.messages.get({ userId: 'me', id: messageId, format: 'full' }),
+    listLabelNames(gmail),
+  ]);
+  return toEmailDetails(toGmailMessage(res.data), labelNames);
+}
+
+/**
+ * Every message of a thread, oldest first, in the same shape as getEmail
+ */
+export async function getThread(gmail: gmail_v1.Gmail, threadId: string): Promise<ThreadDetails> {
+  const [res, labelNames] = await Promise.all([
+    gmail.users.threads.get({ userId: 'me', id: threadId, format: 'full' }),
+    listLabelNames(gmail),
+  ]);
+  const messages = (res.data.messages || [])
+    .map(toGmailMessage)
+    .sort((a, b) => Number(a.internalDate) - Number(b.internalDate));
+  return { id: res.data.id || threadId, messages: messages.map(message => toEmailDetails(message, labelNames)) };
+}
+
+export function toEmailDetails(message: GmailMessage, labelNames: Map<string, string>): EmailDetails {
+  const parsed = parseGmailMessage(message);
+  const labels = parsed.labelIds.map(id => labelNames.get(id) || id);
+  return {
+    id: parsed.id,
+    threadId: parsed.threadId,
+    labels,
+    schedulingLabel: schedulingLabelFromNames(labels),
+    unread: parsed.labelIds.includes('UNREAD'),
+    headers: parsed.headers.map(header => ({ name: header.name, value: decodeEncodedWords(header.value) })),
+    subject: parsed.subject,
+    from: parsed.from,
+    to: parsed.to,
+    cc: parsed.cc,
+    replyTo: parsed.replyTo,
+    date: parsed.date,
+    messageId: parsed.messageId,
+    snippet: parsed.snippet,
+    body: parsed.body,
+    textBody: parsed.textBody,
+    htmlBody: parsed.htmlBody,
+    attachments: parsed.attachments,
+    hasCalendarInvite: parsed.calendarParts.length > 0,
+  };
+}
+
+/**
+ * Content of one attachment, found by part ID (stable) or attachment ID (Gmail issues a new
+ * one on every fetch). Throws if the attachment is missing or larger than `maxBytes`.
+ */
+export async function downloadAttachment(
+  gmail: gmail_v1.Gmail,
+  messageId: string,
+  ref: { partId?: string; attachmentId?: string },
+  maxBytes: number = getAttachmentMaxBytes()
+): Promise<AttachmentContent> {
+  const res = await gmail.users.messages.get({ userId: 'me', id: messageId, format: 'full' });
+  const message = toGmailMessage(res.data);
+  const parsed = parseGmailMessage(message);
+  const attachment = parsed.attachments.find(att =>
+    (ref.partId !== undefined && att.partId === ref.partId) || (ref.attachmentId !== undefined && att.attachmentId === ref.attachmentId)
+  );
+  if (!attachment) {
+    throw new Error(`Attachment not found in message ${messageId}`);
+  }
+  if (attachment.size > maxBytes) {
+    throw new Error(`Attachment ${attachment.filename || attachment.partId} is ${attachment.size} bytes, over the ${maxBytes} byte limit`);
+  }
+
+  let data: string | undefined;
+  if (attachment.attachmentId) {
+    const body = await gmail.users.messages.attachments.get({ userId: 'me', messageId, id: attachment.attachmentId });
+    data = body.data.data ?? undefined;
+  } else {
+    // Small parts carry their data inline
+    data = message.payload ? findPart(message.payload, attachment.partId)?.body?.data : undefined;
+  }
+  if (data === undefined) {
+    throw new Error(`Attachment ${attachment.filename || attachment.partId} has no content`);
+  }
+  const content = decodeBase64Url(data);
+  return {
+    messageId,
+    partId: attachment.partId,
+    filename: attachment.filename,
+    mimeType: attachment.mimeType,
+    size: content.length,
+    data: content.toString('base64'),
+  };
+}
+
+function findPart(part: GmailMessagePart, partId: string): GmailMessagePart | undefined {
+  if (part.partId === partId) return part;
+  for (const child of part.parts || []) {
+    const found = findPart(child, partId);
+    if (found) return found;
+  }
+  return undefined;
+}
@@ -0,0 +1,95 @@
+import { gmail_v1 } from 'googleapis';
+import { EmailSearchOptions, EmailSearchResponse, EmailSearchResult, GmailMessage } from './types';
+import { parseGmailMessage, toGmailMessage } from './gmail-message-parser';
+import { labelSearchTerm, listLabelNames } from './gmail-labels';
+import { apiErrorStatus } from './google-api-client';
+
+// users.messages.list returns at most 500 IDs per page
+const MAX_PAGE_SIZE = 500;
+// Messages fetched at the same time when expanding search results
+const FETCH_CONCURRENCY = 10;
+
+/**
+ * Combine the free-text query with label and date filters into one Gmail search query
+ */
+export function buildSearchQuery(options: Pick<EmailSearchOptions, 'query' | 'labels' | 'after' | 'before'>): string {
+  const terms = [options.query.trim()];
+  for (const label of options.labels || []) {
+    terms.push(labelSearchTerm(label));
+  }
+  // Epoch seconds avoid Gmail reading YYYY/MM/DD dates in Pacific time
+  if (options.after) terms.push(`after:${toEpochSeconds(options.after, 'after')}`);
+  if (options.before) terms.push(`before:${toEpochSeconds(options.before, 'before')}`);
+  return terms.filter(term => term).join(' ');
+}
+
+function toEpochSeconds(value: string, name: string): number {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} date: ${value}`);
+  }
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Run a Gmail search, following pageToken until maxResults messages are found, and
+ * return one structured result per message. Pass the returned nextPageToken to continue.
+ */
+export async function searchMessages(gmail: gmail_v1.Gmail, options: EmailSearchOptions): Promise<EmailSearchResponse> {
+  const query = buildSearchQuery(options);
+  const ids: string[] = [];
+  let pageToken = options.pageToken;
+  let resultSizeEstimate = 0;
+  do {
+    const res = await gmail.users.messages.list({
+      userId: 'me',
+      q: query,
+      maxResults: Math.min(MAX_PAGE_SIZE, options.maxResults - ids.length),
+      ...(pageToken ? { pageToken } : {}),
+    });
+    for (const message of res.data.messages || []) {
+      if (message.id) ids.push(message.id);
+    }
+    resultSizeEstimate = Math.max(resultSizeEstimate, res.data.resultSizeEstimate || 0);
+    pageToken = res.data.nextPageToken || undefined;
+  } while (pageToken && ids.length < options.maxResults);
+
+  const labelNames = await listLabelNames(gmail);
+  const results: EmailSearchResult[] = [];
+  for (let i = 0; i < ids.length; i += FETCH_CONCURRENCY) {
+    const batch = await Promise.all(ids.slice(i, i + FETCH_CONCURRENCY).map(async id => {
+      try {
+        const res = await gmail.users.messages.get({ userId: 'me', id, format: 'full' });
+        return toSearchResult(toGmailMessage(res.data), labelNames, options.includeBody);
+      } catch (error) {
+        // Deleted since the list call
+        if (apiErrorStatus(error) === 404) return null;
+        throw error;
+      }
+    }));
+    results.push(...batch.filter((result): result is EmailSearchResult => result !== null));
+  }
+
+  return {
+    query,
+    results,
+    ...(pageToken ? { nextPageToken: pageToken } : {}),
+    resultSizeEstimate: Math.max(resultSizeEstimate, results.length),
+  };
+}
+
+export function toSearchResult(message: GmailMessage, labelNames: Map<string, string>, includeBody: boolean): EmailSearchResult {
+  const parsed = parseGmailMessage(message);
+  return {
+    id: parsed.id,
+    threadId: parsed.threadId,
+    from: parsed.from,
+    to: parsed.to,
+    subject: parsed.subject,
+    date: parsed.date || new Date(Number(parsed.internalDate)).toUTCString(),
+    snippet: parsed.snippet,
+    labels: parsed.labelIds.map(id => labelNames.get(id) || id),
+    hasAttachments: parsed.attachments.length > 0,
+    ...(includeBody ? { body: parsed.body } : {}),
+  };
+}
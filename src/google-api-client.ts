@@ -0,0 +1,380 @@
+export type GoogleApiName = 'gmail' | 'calendar';
+
+export interface GoogleApiCallContext {
+  api: GoogleApiName;
+  userEmail: string;
+  // Resource path of the method, e.g. users.messages.get
+  method: string;
+}
+
+/**
+ * A failed Gmail or Calendar call. `code` keeps the HTTP status like the googleapis
+ * errors it replaces, so existing `error.code === 404` checks still work.
+ */
+export class GoogleApiError extends Error {
+  public readonly code: number | string | undefined;
+  public readonly status: number | undefined;
+  public readonly reason: string;
+  public readonly retryable: boolean;
+  public readonly retryAfterMs: number | undefined;
+
+  constructor(
+    message: string,
+    options: { status?: number | undefined; code?: number | string | undefined; reason: string; retryable: boolean; retryAfterMs?: number | undefined; cause?: unknown }
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.code = options.code ?? options.status;
+    this.reason = options.reason;
+    this.retryable = options.retryable;
+    this.retryAfterMs = options.retryAfterMs;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+// Rate limits, server errors and network failures: the same call may succeed later
+export class RetryableApiError extends GoogleApiError {}
+
+// Bad requests, missing resources and revoked access: retrying will not help
+export class PermanentApiError extends GoogleApiError {}
+
+// The per-user quota budget cannot fit the call right now
+export class QuotaBudgetExceededError extends RetryableApiError {}
+
+// The API failed repeatedly and calls are being refused until it recovers
+export class CircuitOpenError extends RetryableApiError {}
+
+/**
+ * True for failures worth retrying later, e.g. by leaving a message for the next sync
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof GoogleApiError && error.retryable;
+}
+
+// The parts of a googleapis (gaxios) error that classifyApiError reads
+interface RawApiError {
+  message?: unknown;
+  code?: unknown;
+  errors?: Array<{ reason?: string }>;
+  response?: {
+    status?: unknown;
+    headers?: Record<string, unknown>;
+    data?: { error?: { errors?: Array<{ reason?: string }> } };
+  };
+}
+
+function asRawApiError(error: unknown): RawApiError {
+  return typeof error === 'object' && error !== null ? error as RawApiError : {};
+}
+
+/**
+ * The HTTP status of a failed call, from a GoogleApiError or a raw googleapis error
+ */
+export function apiErrorStatus(error: unknown): number | undefined {
+  if (error instanceof GoogleApiError) {
+    return error.status ?? (typeof error.code === 'number' ? error.code : undefined);
+  }
+  const err = asRawApiError(error);
+  if (typeof err.response?.status === 'number') return err.response.status;
+  return typeof err.code === 'number' ? err.code : undefined;
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+// 403s with these reasons are rate limits rather than missing permissions
+const RATE_LIMIT_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded', 'quotaExceeded', 'dailyLimitExceeded', 'backendError']);
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'EAI_AGAIN', 'EPIPE']);
+
+/**
+ * Turn a googleapis (gaxios) error into a typed GoogleApiError. Errors that did not come
+ * from the API (programming errors) are returned unchanged.
+ */
+export function classifyApiError(error: unknown, context: GoogleApiCallContext): unknown {
+  if (error instanceof GoogleApiError) return error;
+  const err = asRawApiError(error);
+  const status = apiErrorStatus(error);
+  const networkCode = typeof err.code === 'string' && NETWORK_ERROR_CODES.has(err.code) ? err.code : undefined;
+  if (status === undefined && !networkCode) return error;
+
+  const reason: string = err.errors?.[0]?.reason || err.response?.data?.error?.errors?.[0]?.reason || networkCode || String(status);
+  const retryable = networkCode !== undefined || RETRYABLE_STATUSES.has(status!) || (status === 403 && RATE_LIMIT_REASONS.has(reason));
+  const message = `${context.api} ${context.method} failed for ${context.userEmail || 'unknown user'}: ${err.message || reason}`;
+  const options = {
+    status,
+    ...(networkCode ? { code: networkCode } : {}),
+    reason,
+    retryable,
+    retryAfterMs: parseRetryAfter(err.response?.headers?.['retry-after']),
+    cause: error,
+  };
+  return retryable ? new RetryableApiError(message, options) : new PermanentApiError(message, options);
+}
+
+/**
+ * Retry-After as milliseconds, from either delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Gmail quota units per method (https://developers.google.com/gmail/api/reference/quota)
+const GMAIL_QUOTA_UNITS: Record<string, number> = {
+  'users.getProfile': 1,
+  'users.watch': 100,
+  'users.stop': 50,
+  'users.history.list': 2,
+  'users.labels.list': 1,
+  'users.labels.create': 5,
+  'users.messages.list': 5,
+  'users.messages.get': 5,
+  'users.messages.modify': 5,
+  'users.messages.send': 100,
+  'users.messages.attachments.get': 5,
+  'users.drafts.create': 10,
+  'users.threads.get': 10,
+};
+
+export function getQuotaCost(api: GoogleApiName, method: string): number {
+  // Calendar quotas count requests, not units
+  if (api === 'calendar') return 1;
+  return GMAIL_QUOTA_UNITS[method] ?? 5;
+}
+
+export interface GoogleApiClientOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  quotaUnitsPerMinute: Record<GoogleApiName, number>;
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+  sleep: (ms: number) => Promise<void>;
+  random: () => number;
+  now: () => number;
+}
+
+export function getGoogleApiClientOptions(): GoogleApiClientOptions {
+  return {
+    maxRetries: parseInt(process.env['GOOGLE_API_MAX_RETRIES'] || '4'),
+    baseDelayMs: parseInt(process.env['GOOGLE_API_BASE_DELAY_MS'] || '500'),
+    maxDelayMs: parseInt(process.env['GOOGLE_API_MAX_DELAY_MS'] || '32000'),
+    quotaUnitsPerMinute: {
+      // Gmail allows 15,000 units per user per minute
+      gmail: parseInt(process.env['GMAIL_QUOTA_UNITS_PER_MINUTE'] || '15000'),
+      calendar: parseInt(process.env['CALENDAR_QUOTA_REQUESTS_PER_MINUTE'] || '600'),
+    },
+    breakerThreshold: parseInt(process.env['CIRCUIT_BREAKER_THRESHOLD'] || '5'),
+    breakerCooldownMs: parseInt(process.env['CIRCUIT_BREAKER_COOLDOWN_MS'] || '60000'),
+    sleep: (ms) => new Promise(resolve => setTimeout(resolve, ms)),
+    random: Math.random,
+    now: Date.now,
+  };
+}
+
+type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number;
+  trialInFlight: boolean;
+}
+
+interface QuotaWindow {
+  // [timestamp, units] of calls in the last minute
+  entries: Array<[number, number]>;
+}
+
+const QUOTA_WINDOW_MS = 60 * 1000;
+
+/**
+ * Runs Gmail and Calendar calls with exponential backoff (full jitter, honouring Retry-After),
+ * a per-user quota budget and a per-API circuit breaker, and rethrows failures as typed errors.
+ */
+export class GoogleApiClient {
+  private options: GoogleApiClientOptions;
+  private circuits: Map<GoogleApiName, Circuit> = new Map();
+  private quotaWindows: Map<string, QuotaWindow> = new Map();
+
+  constructor(options: Partial<GoogleApiClientOptions> = {}) {
+    this.options = { ...getGoogleApiClientOptions(), ...options };
+  }
+
+  public async call<T>(context: GoogleApiCallContext, request: () => Promise<T>): Promise<T> {
+    const cost = getQuotaCost(context.api, context.method);
+    for (let attempt = 0; ; attempt++) {
+      this.acquireCircuit(context);
+      await this.reserveQuota(context, cost);
+      try {
+        const result = await request();
+        this.recordSuccess(context.api);
+        return result;
+      } catch (error) {
+        const classified = classifyApiError(error, context);
+        if (!(classified instanceof GoogleApiError)) {
+          this.releaseTrial(context.api);
+          throw classified;
+        }
+        this.recordFailure(context.api, classified);
+        if (!classified.retryable || attempt >= this.options.maxRetries) {
+          throw classified;
+        }
+        const delay = this.getRetryDelay(attempt, classified.retryAfterMs);
+        if (delay === null) {
+          throw classified;
+        }
+        console.warn(`⏳ ${context.api} ${context.method} for ${context.userEmail} failed (${classified.reason}), retry ${attempt + 1}/${this.options.maxRetries} in ${delay}ms`);
+        await this.options.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Delay before the next attempt: Retry-After when the API sent one, otherwise a random
+   * delay up to base * 2^attempt. Null when Retry-After is longer than we are willing to wait.
+   */
+  public getRetryDelay(attempt: number, retryAfterMs?: number): number | null {
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs <= this.options.maxDelayMs ? retryAfterMs : null;
+    }
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.round(this.options.random() * ceiling);
+  }
+
+  public getCircuitState(api: GoogleApiName): CircuitState {
+    return this.getCircuit(api).state;
+  }
+
+  private getCircuit(api: GoogleApiName): Circuit {
+    let circuit = this.circuits.get(api);
+    if (!circuit) {
+      circuit = { state: 'closed', consecutiveFailures: 0, openedAt: 0, trialInFlight: false };
+      this.circuits.set(api, circuit);
+    }
+    return circuit;
+  }
+
+  // After the cooldown one trial call is let through; its result closes or re-opens the circuit
+  private acquireCircuit(context: GoogleApiCallContext): void {
+    const circuit = this.getCircuit(context.api);
+    if (circuit.state === 'open' && this.options.now() - circuit.openedAt >= this.options.breakerCooldownMs) {
+      circuit.state = 'half_open';
+    }
+    if (circuit.state === 'closed') return;
+    if (circuit.state === 'half_open' && !circuit.trialInFlight) {
+      circuit.trialInFlight = true;
+      return;
+    }
+    throw new CircuitOpenError(`${context.api} API circuit is open, not calling ${context.method}`, {
+      reason: 'circuit-open',
+      retryable: true,
+      retryAfterMs: Math.max(0, circuit.openedAt + this.options.breakerCooldownMs - this.options.now()),
+    });
+  }
+
+  private releaseTrial(api: GoogleApiName): void {
+    this.getCircuit(api).trialInFlight = false;
+  }
+
+  private recordSuccess(api: GoogleApiName): void {
+    const circuit = this.getCircuit(api);
+    if (circuit.state !== 'closed') {
+      console.log(`✅ ${api} API recovered, closing circuit`);
+    }
+    circuit.state = 'closed';
+    circuit.consecutiveFailures = 0;
+    circuit.trialInFlight = false;
+  }
+
+  // Only outages count towards the breaker; rate limits are handled by backoff and the quota budget
+  private recordFailure(api: GoogleApiName, error: GoogleApiError): void {
+    const circuit = this.getCircuit(api);
+    circuit.trialInFlight = false;
+    const outage = error.retryable && (error.status === undefined || error.status >= 500);
+    if (!outage) {
+      if (circuit.state === 'half_open') circuit.state = 'closed';
+      circuit.consecutiveFailures = 0;
+      return;
+    }
+    circuit.consecutiveFailures++;
+    if (circuit.state === 'half_open' || circuit.consecutiveFailures >= this.options.breakerThreshold) {
+      if (circuit.state !== 'open') {
+        console.error(`🔌 ${api} API failing (${circuit.consecutiveFailures} in a row), opening circuit for ${this.options.breakerCooldownMs}ms`);
+      }
+      circuit.state = 'open';
+      circuit.openedAt = this.options.now();
+    }
+  }
+
+  /**
+   * Wait until the user's rolling one-minute budget has room for the call
+   */
+  private async reserveQuota(context: GoogleApiCallContext, cost: number): Promise<void> {
+    const limit = this.options.quotaUnitsPerMinute[context.api];
+    if (cost > limit) {
+      throw new QuotaBudgetExceededError(`${context.method} costs ${cost} units, over the ${limit} unit budget`, { reason: 'quota-budget', retryable: true });
+    }
+    const key = `${context.api}:${context.userEmail.toLowerCase()}`;
+    let window = this.quotaWindows.get(key);
+    if (!window) {
+      window = { entries: [] };
+      this.quotaWindows.set(key, window);
+    }
+    for (;;) {
+      const now = this.options.now();
+      window.entries = window.entries.filter(([time]) => now - time < QUOTA_WINDOW_MS);
+      const used = window.entries.reduce((sum, [, units]) => sum + units, 0);
+      if (used + cost <= limit) {
+        window.entries.push([now, cost]);
+        return;
+      }
+      // Wait for the oldest calls to leave the window
+      let freed = used + cost - limit;
+      let waitMs = 0;
+      for (const [time, units] of window.entries) {
+        freed -= units;
+        waitMs = time + QUOTA_WINDOW_MS - now;
+        if (freed <= 0) break;
+      }
+      console.warn(`⏳ ${context.api} quota budget for ${context.userEmail} used (${used}/${limit} units), waiting ${waitMs}ms`);
+      await this.options.sleep(Math.max(waitMs, 1));
+    }
+  }
+}
+
+export const googleApiClient = new GoogleApiClient();
+
+/**
+ * Wrap a googleapis client (google.gmail(), google.calendar()) so every API method runs
+ * through the GoogleApiClient, without changing how call sites use it
+ */
+export function withGoogleApiClient<T extends object>(
+  client: T,
+  api: GoogleApiName,
+  userEmail: string,
+  apiClient: GoogleApiClient = googleApiClient
+): T {
+  const wrap = (target: object, path: string[]): object => new Proxy(target, {
+    get(obj, property, receiver) {
+      const value = Reflect.get(obj, property, receiver);
+      if (typeof property !== 'string') return value;
+      const childPath = [...path, property];
+      // API methods live on resources (users.messages.get), never on the client root
+      if (typeof value === 'function') {
+        if (!path.length) return value;
+        const method = childPath.join('.');
+        return (...args: unknown[]) => apiClient.call({ api, userEmail, method }, () => value.apply(obj, args));
+      }
+      if (value && typeof value === 'object' && property !== 'context') {
+        return wrap(value, childPath);
+      }
+      return value;
+    },
+  });
+  return wrap(client, []) as T;
+}
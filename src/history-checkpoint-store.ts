@@ -0,0 +1,44 @@
+import { DynamoDBHistoryCheckpointStore } from './dynamodb-history-checkpoint-storage';
+import { FirestoreHistoryCheckpointStore } from './firestore-history-checkpoint-storage';
+
+/**
+ * Keeps the last Gmail historyId each mailbox has been synced up to, so the
+ * next sync only asks Gmail for what changed since then.
+ */
+export interface HistoryCheckpointStore {
+  getHistoryId(userEmail: string): Promise<string | null>;
+  setHistoryId(userEmail: string, historyId: string): Promise<void>;
+}
+
+export class InMemoryHistoryCheckpointStore implements HistoryCheckpointStore {
+  private checkpoints: Map<string, string> = new Map();
+
+  async getHistoryId(userEmail: string): Promise<string | null> {
+    return this.checkpoints.get(userEmail) || null;
+  }
+
+  async setHistoryId(userEmail: string, historyId: string): Promise<void> {
+    const current = this.checkpoints.get(userEmail);
+    // historyIds only ever move forward; ignore stale writes from overlapping syncs
+    if (current && BigInt(current) >= BigInt(historyId)) {
+      return;
+    }
+    this.checkpoints.set(userEmail, historyId);
+  }
+}
+
+/**
+ * Pick the checkpoint backend from STORAGE_BACKEND (dynamodb, firestore or memory)
+ */
+export function createHistoryCheckpointStore(backend: string = process.env['STORAGE_BACKEND'] || 'dynamodb'): HistoryCheckpointStore {
+  switch (backend) {
+    case 'firestore':
+      return new FirestoreHistoryCheckpointStore();
+    case 'memory':
+      return new InMemoryHistoryCheckpointStore();
+    default:
+      return new DynamoDBHistoryCheckpointStore();
+  }
+}
+
+export const historyCheckpointStore: HistoryCheckpointStore = createHistoryCheckpointStore();
@@ -0,0 +1,173 @@
+import { EmailAddress, MeetingRequestContext } from './types';
+import { MeetingSlot, slotsFromMeetingContext } from './meeting-slots';
+
+const CRLF = '\r\n';
+// Content lines are folded at 75 octets (RFC 5545 section 3.1)
+const MAX_LINE_OCTETS = 75;
+const PRODUCT_ID = '-//MCP Email Agent//Meeting Scheduler//EN';
+const UID_DOMAIN = 'mcp-email-agent';
+
+export type CalendarMethod = 'PUBLISH' | 'REQUEST' | 'REPLY' | 'CANCEL' | 'COUNTER' | 'DECLINECOUNTER';
+
+export interface CalendarEventInput {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  organizer?: EmailAddress;
+  // Attendees without a partstat are invited (NEEDS-ACTION with RSVP); iTIP replies give the responder's partstat
+  attendees?: Array<EmailAddress & { partstat?: string }>;
+  status?: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+  sequence?: number;
+}
+
+export interface CalendarDocument {
+  method: CalendarMethod;
+  content: string;
+}
+
+// Event title from an email subject, without Re:/Fwd: prefixes
+export function meetingSummary(subject: string): string {
+  return subject.replace(/^(re|fwd?):\s*/i, '') || 'Meeting';
+}
+
+/**
+ * The calendar to attach to a meeting reply: an invite when the counterpart confirmed a single
+ * time, tentative proposals when times are suggested, or null when there are no usable slots
+ */
+export function buildMeetingCalendar(
+  context: MeetingRequestContext,
+  options: { uidKey: string; summary: string; organizer: EmailAddress; attendees: EmailAddress[]; now?: Date }
+): CalendarDocument | null {
+  const slots = slotsFromMeetingContext(context);
+  const summary = meetingSummary(options.summary);
+  const description = context.notes || undefined;
+  if (isConfirmation(context) && slots.length === 1) {
+    const [slot] = slots as [MeetingSlot];
+    return buildInviteCalendar({
+      uid: `meeting-${options.uidKey}@${UID_DOMAIN}`,
+      start: slot.start,
+      end: slot.end,
+      summary,
+      ...(description ? { description } : {}),
+      organizer: options.organizer,
+      attendees: options.attendees,
+    }, options.now);
+  }
+  if (!slots.length) return null;
+  return buildProposalCalendar(slots, {
+    uidPrefix: `proposal-${options.uidKey}`,
+    uidDomain: UID_DOMAIN,
+    summary,
+    ...(description ? { description } : {}),
+    organizer: options.organizer,
+    ...(options.now ? { now: options.now } : {}),
+  });
+}
+
+export function isConfirmation(context: MeetingRequestContext): boolean {
+  return /confirm/i.test(context.meeting_context?.intent || '');
+}
+
+/**
+ * Proposed times as tentative events that recipients can add to their calendars
+ */
+export function buildProposalCalendar(
+  slots: MeetingSlot[],
+  options: { uidPrefix: string; uidDomain?: string; summary: string; description?: string; organizer?: EmailAddress; now?: Date }
+): CalendarDocument {
+  const events = slots.map((slot, index) => ({
+    uid: `${options.uidPrefix}-${index + 1}@${options.uidDomain || UID_DOMAIN}`,
+    start: slot.start,
+    end: slot.end,
+    summary: `${options.summary} (proposed)`,
+    ...(options.description ? { description: options.description } : {}),
+    ...(options.organizer ? { organizer: options.organizer } : {}),
+    status: 'TENTATIVE' as const,
+  }));
+  return { method: 'PUBLISH', content: buildCalendar('PUBLISH', events, options.now) };
+}
+
+/**
+ * A meeting invite (METHOD:REQUEST) that mail clients show with accept/decline buttons.
+ * Send a higher `sequence` with the same UID to update it.
+ */
+export function buildInviteCalendar(event: CalendarEventInput, now?: Date): CalendarDocument {
+  return { method: 'REQUEST', content: buildCalendar('REQUEST', [{ status: 'CONFIRMED', sequence: 0, ...event }], now) };
+}
+
+export function buildCalendar(method: CalendarMethod, events: CalendarEventInput[], now: Date = new Date()): string {
+  // All times are written in UTC, so no VTIMEZONE components are needed
+  const lines = [
+    'BEGIN:VCALENDAR',
+    `PRODID:${PRODUCT_ID}`,
+    'VERSION:2.0',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    ...events.flatMap(event => buildEvent(event, now)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+function buildEvent(event: CalendarEventInput, now: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.organizer) lines.push(`ORGANIZER${formatCommonName(event.organizer)}:mailto:${event.organizer.email}`);
+  for (const attendee of event.attendees || []) {
+    const participation = attendee.partstat ? `PARTSTAT=${attendee.partstat}` : 'PARTSTAT=NEEDS-ACTION;RSVP=TRUE';
+    lines.push(`ATTENDEE${formatCommonName(attendee)};ROLE=REQ-PARTICIPANT;${participation}:mailto:${attendee.email}`);
+  }
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`);
+  lines.push(`TRANSP:${event.status === 'TENTATIVE' ? 'TRANSPARENT' : 'OPAQUE'}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function formatCommonName(address: EmailAddress): string {
+  return address.name ? `;CN="${address.name.replace(/"/g, "'")}"` : '';
+}
+
+/**
+ * Fold a content line at 75 octets without splitting a UTF-8 character
+ */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf-8') <= MAX_LINE_OCTETS) return line;
+  const parts: string[] = [];
+  let current = '';
+  // Continuation lines start with a space, which counts towards their length
+  let limit = MAX_LINE_OCTETS;
+  for (const char of Array.from(line)) {
+    if (Buffer.byteLength(current + char, 'utf-8') > limit) {
+      parts.push(current);
+      current = '';
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+}
@@ -0,0 +1,230 @@
+import { DateTime } from 'luxon';
+import { CalendarInvite, CalendarInviteAttendee, EmailAddress } from './types';
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Outlook writes Windows zone names as TZID; map the common ones to IANA zones
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Mountain Standard Time': 'America/Denver',
+  'Central Standard Time': 'America/Chicago',
+  'Eastern Standard Time': 'America/New_York',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'India Standard Time': 'Asia/Kolkata',
+  'China Standard Time': 'Asia/Shanghai',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'UTC': 'UTC',
+};
+
+/**
+ * Parse the VEVENTs of an iCalendar object (RFC 5545) together with the calendar's METHOD.
+ * Events without a UID or start are dropped; times are resolved to absolute instants.
+ */
+export function parseCalendarInvites(content: string): CalendarInvite[] {
+  const lines = unfoldLines(content).map(parseContentLine).filter((line): line is ContentLine => line !== null);
+  const zoneLocations = collectZoneLocations(lines);
+  let method = 'PUBLISH';
+  const invites: CalendarInvite[] = [];
+  // Properties of nested components (VALARM inside VEVENT, VTIMEZONE rules) are not event properties
+  const stack: string[] = [];
+  let event: ContentLine[] | null = null;
+
+  for (const line of lines) {
+    if (line.name === 'BEGIN') {
+      stack.push(line.value.toUpperCase());
+      if (line.value.toUpperCase() === 'VEVENT') event = [];
+      continue;
+    }
+    if (line.name === 'END') {
+      const component = stack.pop();
+      if (component === 'VEVENT' && event) {
+        const invite = buildInvite(method, event, zoneLocations);
+        if (invite) invites.push(invite);
+        event = null;
+      }
+      continue;
+    }
+    const current = stack[stack.length - 1];
+    if (current === 'VCALENDAR' && line.name === 'METHOD') {
+      method = line.value.toUpperCase();
+    } else if (current === 'VEVENT' && event) {
+      event.push(line);
+    }
+  }
+  return invites;
+}
+
+/**
+ * The event an iTIP message is about: the master event rather than an overridden occurrence
+ */
+export function primaryInvite(invites: CalendarInvite[]): CalendarInvite | null {
+  return invites.find(invite => !invite.recurrenceId) || invites[0] || null;
+}
+
+function buildInvite(method: string, lines: ContentLine[], zoneLocations: Map<string, string>): CalendarInvite | null {
+  const get = (name: string) => lines.find(line => line.name === name);
+  const uid = get('UID')?.value;
+  const dtstart = get('DTSTART');
+  if (!uid || !dtstart) return null;
+
+  const start = parseDateValue(dtstart, zoneLocations);
+  if (!start) return null;
+  const dtend = get('DTEND');
+  const duration = get('DURATION');
+  let end = dtend ? parseDateValue(dtend, zoneLocations)?.date : undefined;
+  if (!end && duration) {
+    const ms = parseDuration(duration.value);
+    if (ms !== null) end = new Date(start.date.getTime() + ms);
+  }
+  // Without an end, all-day events last one day and timed events are instantaneous (RFC 5545 3.6.1)
+  if (!end) end = new Date(start.date.getTime() + (start.allDay ? 24 * 60 * 60 * 1000 : 0));
+
+  const organizerLine = get('ORGANIZER');
+  const recurrenceId = get('RECURRENCE-ID')?.value;
+  const rrule = get('RRULE')?.value;
+  return {
+    method,
+    uid,
+    sequence: parseInt(get('SEQUENCE')?.value || '0', 10) || 0,
+    summary: unescapeText(get('SUMMARY')?.value || ''),
+    description: unescapeText(get('DESCRIPTION')?.value || ''),
+    location: unescapeText(get('LOCATION')?.value || ''),
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    timeZone: start.zone,
+    organizer: organizerLine ? toAddress(organizerLine) : null,
+    attendees: lines.filter(line => line.name === 'ATTENDEE').map(toAttendee).filter((a): a is CalendarInviteAttendee => a !== null),
+    status: (get('STATUS')?.value || '').toUpperCase(),
+    ...(recurrenceId ? { recurrenceId } : {}),
+    ...(rrule ? { rrule } : {}),
+  };
+}
+
+function toAddress(line: ContentLine): EmailAddress | null {
+  const email = line.value.replace(/^mailto:/i, '').trim();
+  if (!email.includes('@')) return null;
+  return { name: line.params['CN'] || '', email };
+}
+
+function toAttendee(line: ContentLine): CalendarInviteAttendee | null {
+  const address = toAddress(line);
+  if (!address) return null;
+  return {
+    ...address,
+    partstat: (line.params['PARTSTAT'] || 'NEEDS-ACTION').toUpperCase(),
+    role: (line.params['ROLE'] || 'REQ-PARTICIPANT').toUpperCase(),
+    rsvp: (line.params['RSVP'] || '').toUpperCase() === 'TRUE',
+  };
+}
+
+// VTIMEZONE blocks may name the IANA zone they describe in X-LIC-LOCATION
+function collectZoneLocations(lines: ContentLine[]): Map<string, string> {
+  const locations = new Map<string, string>();
+  let tzid: string | null = null;
+  for (const line of lines) {
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VTIMEZONE') tzid = null;
+    else if (line.name === 'TZID') tzid = line.value;
+    else if (line.name === 'X-LIC-LOCATION' && tzid) locations.set(tzid, line.value);
+  }
+  return locations;
+}
+
+export function resolveTimeZone(tzid: string, zoneLocations: Map<string, string> = new Map()): string {
+  const candidates = [tzid, zoneLocations.get(tzid), WINDOWS_TIME_ZONES[tzid]];
+  for (const candidate of candidates) {
+    if (candidate && DateTime.now().setZone(candidate).isValid) return candidate;
+  }
+  console.warn(`⚠️ Unknown calendar time zone "${tzid}", reading times as UTC`);
+  return 'UTC';
+}
+
+function parseDateValue(
+  line: ContentLine,
+  zoneLocations: Map<string, string>
+): { date: Date; allDay: boolean; zone: string } | null {
+  const value = line.value.trim();
+  const zone = line.params['TZID'] ? resolveTimeZone(line.params['TZID'], zoneLocations) : 'UTC';
+  if (line.params['VALUE'] === 'DATE' || /^\d{8}$/.test(value)) {
+    const date = DateTime.fromFormat(value, 'yyyyMMdd', { zone });
+    return date.isValid ? { date: date.toJSDate(), allDay: true, zone } : null;
+  }
+  // UTC (trailing Z), zoned (TZID) or floating; floating times are read as UTC
+  const utc = value.endsWith('Z');
+  const date = DateTime.fromFormat(value.replace(/Z$/, ''), "yyyyMMdd'T'HHmmss", { zone: utc ? 'UTC' : zone });
+  return date.isValid ? { date: date.toJSDate(), allDay: false, zone: utc ? 'UTC' : zone } : null;
+}
+
+/**
+ * Length of an iCalendar DURATION such as PT1H30M or P1D, in milliseconds
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match || value.trim().replace(/^[+-]/, '') === 'P') return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = (((parseInt(weeks || '0') * 7 + parseInt(days || '0')) * 24 + parseInt(hours || '0')) * 60 + parseInt(minutes || '0')) * 60
+    + parseInt(seconds || '0');
+  return (sign === '-' ? -1 : 1) * total * 1000;
+}
+
+/**
+ * Undo line folding: a CRLF followed by a space or tab continues the previous line
+ */
+export function unfoldLines(content: string): string[] {
+  return content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.trim());
+}
+
+export function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = splitOutsideQuotes(line.slice(0, colon), ';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq < 0) continue;
+    params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"(.*)"$/, '$1');
+  }
+  return { name: (name || '').toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const ch of value) {
+    if (ch === '"') inQuotes = !inQuotes;
+    if (ch === separator && !inQuotes) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  parts.push(current);
+  return parts;
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
@@ -1,10 +1,13 @@
 import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
 import { tokenStorageConfig } from './token-storage-config';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { JWTPayload } from './types';
 
 export interface AuthenticatedRequest extends Request {
   user?: JWTPayload;
+  // Read by the MCP transport and passed to tool handlers as `extra.authInfo`
+  auth?: AuthInfo;
   googleTokens?: {
     access_token: string;
     refresh_token: string;
@@ -74,6 +77,13 @@ export class JWTAuthMiddleware {
       // Attach user and tokens to request
       req.user = decoded;
       req.googleTokens = tokenRecord.google_tokens;
+      req.auth = {
+        token: jwtToken,
+        clientId: decoded.jti,
+        scopes: tokenRecord.google_tokens.scopes || [],
+        ...(decoded.exp ? { expiresAt: decoded.exp } : {}),
+        extra: { email: decoded.email }
+      };
 
       console.log(`✅ JWT authenticated for user: ${decoded.email} (JTI: ${decoded.jti})`);
       next();
@@ -0,0 +1,382 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { simpleParser, AddressObject } from 'mailparser';
+import { DateTime } from 'luxon';
+import { BusyInterval, CalendarEvent, SchedulingPreferences, CalendarInvite, EmailAddress, EmailInfo, GmailHeader, GmailMessage, GmailMessagePart, MeetingRequestContext, ParsedEmail, UserSettings } from './types';
+import { CalendarMonitor } from './calendar-monitor';
+import { MeetingIntentDetector } from './meeting-intent-detector';
+import { parseGmailMessage } from './gmail-message-parser';
+import { detectAutomatedMessage } from './reply-safeguards';
+import { evaluateMailboxRules } from './mailbox-rules';
+import { resolveReplyRecipients } from './reply-recipients';
+import { buildThreadTranscript, formatThreadTranscript } from './thread-transcript';
+import { buildMeetingCalendar } from './ics-generator';
+import { confirmedSlot } from './meeting-booking';
+import { parseCalendarInvites, primaryInvite } from './ics-parser';
+import { findInviteConflicts, findAlternativeSlot, planInviteResponse, InviteAvailability } from './calendar-invite-router';
+import { mergeBusyIntervals } from './busy-intervals';
+import { datesBetween } from './scheduling-preferences';
+
+// One message loaded from an .eml file or an .mbox archive
+export interface ReplayMessage {
+  // File the message came from, with its position for .mbox archives (e.g. `inbox.mbox#3`)
+  source: string;
+  message: GmailMessage;
+}
+
+export type ReplayCalendar = Pick<CalendarMonitor, 'getBusyEvents' | 'getFreeSlotsForDates'>;
+export type ReplayDetector = Pick<MeetingIntentDetector, 'checkIfMessageMeetingRelated' | 'getMeetingRequestContext' | 'generateEmailResponse'>;
+
+export interface ReplayOptions {
+  userEmail: string;
+  settings: UserSettings;
+  calendar: ReplayCalendar;
+  detector: ReplayDetector;
+  timeZone?: string;
+}
+
+// 'reply' is a Claude-written reply, 'invite_response' an answer to a calendar invite
+export type ReplayAction = 'reply' | 'invite_response' | 'skipped' | 'error';
+
+export interface ReplayResult {
+  source: string;
+  messageId: string;
+  threadId: string;
+  from: string;
+  subject: string;
+  date: string;
+  action: ReplayAction;
+  // Why the message got no reply, e.g. `safeguard:mailing-list`, `rule:deny:example.com`, `not-meeting`
+  reason?: string;
+  meetingDates?: string[];
+  meetingContext?: MeetingRequestContext;
+  reply?: {
+    to: string[];
+    cc: string[];
+    subject: string;
+    body: string;
+    // iTIP method of the .ics that would be attached
+    calendarMethod?: string;
+  };
+  // Meeting that would be put on the calendar for a confirmed time
+  booking?: {
+    start: string;
+    end: string;
+    attendees: string[];
+  };
+  error?: string;
+}
+
+export interface ReplayReport {
+  generatedAt: string;
+  userEmail: string;
+  replyMode: string;
+  results: ReplayResult[];
+}
+
+/**
+ * Split an mbox archive into raw messages, undoing the `>From ` quoting of body lines
+ */
+export function splitMbox(content: string): string[] {
+  const messages: string[] = [];
+  let current: string[] | null = null;
+  for (const line of content.split(/\r?\n/)) {
+    if (line.startsWith('From ')) {
+      if (current) messages.push(current.join('\r\n'));
+      current = [];
+      continue;
+    }
+    current?.push(/^>+From /.test(line) ? line.slice(1) : line);
+  }
+  if (current) messages.push(current.join('\r\n'));
+  return messages.filter(message => message.trim());
+}
+
+/**
+ * Read .eml files and .mbox archives into Gmail-shaped messages, oldest first
+ */
+export async function loadReplayMessages(files: string[], userEmail: string): Promise<ReplayMessage[]> {
+  const loaded: ReplayMessage[] = [];
+  for (const file of files) {
+    // latin1 keeps every byte as-is, so 8-bit message bodies survive the round trip
+    const content = await fs.readFile(file, 'latin1');
+    const isMbox = path.extname(file).toLowerCase() === '.mbox' || content.startsWith('From ');
+    const raws = isMbox ? splitMbox(content) : [content];
+    for (let i = 0; i < raws.length; i++) {
+      const source = isMbox ? `${file}#${i + 1}` : file;
+      loaded.push({ source, message: await emlToGmailMessage(Buffer.from(raws[i]!, 'latin1'), source, userEmail) });
+    }
+  }
+  return loaded.sort((a, b) => Number(a.message.internalDate) - Number(b.message.internalDate));
+}
+
+/**
+ * Parse a raw RFC 822 message with mailparser into the shape the Gmail API returns, so the
+ * live pipeline's parsing and thread handling apply unchanged. Messages of one conversation
+ * share a threadId derived from the first Message-ID in References.
+ */
+export async function emlToGmailMessage(raw: Buffer, source: string, userEmail: string): Promise<GmailMessage> {
+  const mail = await simpleParser(raw, { skipTextToHtml: true });
+  const headers: GmailHeader[] = mail.headerLines.map(header => {
+    const line = header.line.replace(/\r?\n(?=[ \t])/g, '');
+    const colon = line.indexOf(':');
+    return { name: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() };
+  });
+
+  const references = Array.isArray(mail.references) ? mail.references : mail.references ? mail.references.split(/\s+/) : [];
+  const rootId = references[0] || mail.inReplyTo || mail.messageId || source;
+  const fromSelf = addressesOf(mail.from).some(address => address.email.toLowerCase() === userEmail.toLowerCase());
+
+  const parts: GmailMessagePart[] = [];
+  if (mail.text) parts.push(bodyPart(`${parts.length}`, 'text/plain', '', Buffer.from(mail.text, 'utf-8')));
+  if (mail.html) parts.push(bodyPart(`${parts.length}`, 'text/html', '', Buffer.from(mail.html, 'utf-8')));
+  for (const attachment of mail.attachments) {
+    parts.push(bodyPart(`${parts.length}`, attachment.contentType, attachment.filename || '', attachment.content));
+  }
+
+  return {
+    id: shortHash(mail.messageId || source),
+    threadId: shortHash(rootId),
+    labelIds: fromSelf ? ['SENT'] : ['INBOX', 'UNREAD'],
+    snippet: (mail.text || '').replace(/\s+/g, ' ').trim().slice(0, 200),
+    historyId: '0',
+    internalDate: String(mail.date?.getTime() ?? 0),
+    payload: {
+      partId: '',
+      mimeType: 'multipart/mixed',
+      filename: '',
+      headers,
+      body: { size: 0 },
+      parts,
+    },
+    sizeEstimate: raw.length,
+  };
+}
+
+function bodyPart(partId: string, mimeType: string, filename: string, content: Buffer): GmailMessagePart {
+  return {
+    partId,
+    mimeType,
+    filename,
+    headers: [{ name: 'Content-Type', value: `${mimeType}${mimeType.startsWith('text/') ? '; charset=UTF-8' : ''}` }],
+    body: { size: content.length, data: content.toString('base64url') },
+  };
+}
+
+function addressesOf(value: AddressObject | AddressObject[] | undefined): EmailAddress[] {
+  const objects = Array.isArray(value) ? value : value ? [value] : [];
+  return objects.flatMap(object => object.value).map(address => ({ name: address.name || '', email: address.address || '' }));
+}
+
+function shortHash(value: string): string {
+  return createHash('sha1').update(value).digest('hex').slice(0, 16);
+}
+
+/**
+ * A calendar read from a JSON file of events (an array, or `{ "events": [...] }` with the same
+ * fields as CalendarEvent). Free slots are computed by CalendarMonitor exactly as for a live calendar,
+ * under the given scheduling preferences.
+ */
+export class FixtureCalendar extends CalendarMonitor {
+  private events: CalendarEvent[];
+
+  constructor(events: CalendarEvent[], preferences?: SchedulingPreferences) {
+    super();
+    this.events = events;
+    if (preferences) this.preferences = preferences;
+  }
+
+  public static async fromFile(file: string, preferences?: SchedulingPreferences): Promise<FixtureCalendar> {
+    const data = JSON.parse(await fs.readFile(file, 'utf-8'));
+    const events: CalendarEvent[] = Array.isArray(data) ? data : data.events || [];
+    return new FixtureCalendar(events, preferences);
+  }
+
+  // Fixtures are dated in the past; the replay passes each message's date where it matters
+  protected override now(): Date {
+    return new Date(0);
+  }
+
+  public override async initialize(): Promise<boolean> {
+    return true;
+  }
+
+  public override async getBusyEvents(requestedDates?: string[]): Promise<CalendarEvent[]> {
+    if (!requestedDates?.length) return [...this.events];
+    const { timeMin, timeMax } = this.timeRange(requestedDates);
+    return this.events.filter(event => {
+      if (!event.start?.dateTime || !event.end?.dateTime) return false;
+      return new Date(event.start.dateTime) < timeMax && new Date(event.end.dateTime) > timeMin;
+    });
+  }
+
+  public override async getBusyIntervals(requestedDates?: string[]): Promise<BusyInterval[]> {
+    const events = await this.getBusyEvents(requestedDates);
+    return mergeBusyIntervals(events.filter(event => !event.hold).map(toBusyInterval));
+  }
+
+  protected override async getHoldIntervals(requestedDates?: string[]): Promise<BusyInterval[]> {
+    const events = await this.getBusyEvents(requestedDates);
+    return events.filter(event => event.hold).map(toBusyInterval);
+  }
+}
+
+function toBusyInterval(event: CalendarEvent): BusyInterval {
+  return { start: new Date(event.start.dateTime), end: new Date(event.end.dateTime) };
+}
+
+/**
+ * Run the scheduling pipeline over loaded messages and report what would have been replied.
+ * Nothing is sent, drafted, labelled or recorded: there is no Gmail client here at all.
+ * Reply caps are not applied because they depend on the live ledger.
+ */
+export async function replayMessages(messages: ReplayMessage[], options: ReplayOptions): Promise<ReplayReport> {
+  const results: ReplayResult[] = [];
+  for (const { source, message } of messages) {
+    const parsed = parseGmailMessage(message);
+    const result: ReplayResult = {
+      source,
+      messageId: message.id,
+      threadId: message.threadId,
+      from: parsed.from?.email || '',
+      subject: parsed.subject,
+      date: new Date(Number(message.internalDate)).toISOString(),
+      action: 'skipped',
+    };
+    try {
+      const thread = messages.filter(other => other.message.threadId === message.threadId).map(other => other.message);
+      Object.assign(result, await replayMessage(parsed, thread, options));
+    } catch (err) {
+      result.action = 'error';
+      result.error = err instanceof Error ? err.message : String(err);
+    }
+    results.push(result);
+  }
+  return {
+    generatedAt: new Date().toISOString(),
+    userEmail: options.userEmail,
+    replyMode: options.settings.reply_mode,
+    results,
+  };
+}
+
+// The same decisions GmailMonitor.processMessage makes, in the same order
+async function replayMessage(parsed: ParsedEmail, thread: GmailMessage[], options: ReplayOptions): Promise<Partial<ReplayResult>> {
+  const { userEmail, settings } = options;
+  const receivedAt = new Date(Number(parsed.internalDate));
+
+  const automatedReason = detectAutomatedMessage(parsed, userEmail);
+  if (automatedReason) return { action: 'skipped', reason: `safeguard:${automatedReason}` };
+
+  const decision = evaluateMailboxRules(settings.rules, parsed, userEmail);
+  if (!decision.process) return { action: 'skipped', reason: `rule:${decision.rule}` };
+
+  const invite = parsed.calendarParts.map(part => primaryInvite(parseCalendarInvites(part))).find(Boolean);
+  if (invite) return replayInvite(invite, receivedAt, options);
+
+  const timeZone = options.timeZone || settings.scheduling.time_zone;
+  const today = DateTime.fromJSDate(receivedAt, { zone: timeZone }).toISODate()!;
+  const threadContext = formatThreadTranscript(buildThreadTranscript(thread, userEmail, parsed.id));
+  const meetingDates = (await options.detector.checkIfMessageMeetingRelated(parsed.body, today, timeZone, threadContext))
+    .filter(date => date);
+  if (!meetingDates.length) return { action: 'skipped', reason: 'not-meeting' };
+  if (settings.reply_mode === 'off') return { action: 'skipped', reason: 'reply-mode:off', meetingDates };
+
+  const busyEvents = await options.calendar.getBusyEvents(meetingDates);
+  const meetingContext = await options.detector.getMeetingRequestContext(parsed.body, meetingDates[0]!, timeZone, busyEvents, threadContext, settings.scheduling);
+  const emailInfo = toEmailInfo(parsed);
+  const recipients = resolveReplyRecipients(emailInfo, settings.reply_policy, userEmail);
+  const body = await options.detector.generateEmailResponse(parsed.body, meetingContext, emailInfo.senderName, threadContext);
+  const calendar = settings.attach_calendar
+    ? buildMeetingCalendar(meetingContext, {
+      uidKey: parsed.threadId,
+      summary: parsed.subject,
+      organizer: { name: '', email: userEmail },
+      attendees: [...recipients.to, ...recipients.cc],
+      now: receivedAt,
+    })
+    : null;
+  // Drafts are never booked; send and approve book once the reply goes out
+  const slot = settings.reply_mode === 'draft' ? null : confirmedSlot(meetingContext);
+  const participants = resolveReplyRecipients(emailInfo, { recipients: 'reply_all', always_cc: [] }, userEmail);
+
+  return {
+    action: 'reply',
+    meetingDates,
+    meetingContext,
+    ...(slot ? {
+      booking: {
+        start: slot.start.toISOString(),
+        end: slot.end.toISOString(),
+        attendees: [...participants.to, ...participants.cc].map(address => address.email),
+      },
+    } : {}),
+    reply: {
+      to: recipients.to.map(address => address.email),
+      cc: recipients.cc.map(address => address.email),
+      subject: emailInfo.originalSubject,
+      body,
+      ...(calendar ? { calendarMethod: calendar.method } : {}),
+    },
+  };
+}
+
+async function replayInvite(invite: CalendarInvite, receivedAt: Date, options: ReplayOptions): Promise<Partial<ReplayResult>> {
+  let availability: InviteAvailability = { conflicts: [], alternative: null };
+  if (invite.method === 'REQUEST' || invite.method === 'COUNTER') {
+    const busyDates = datesBetween(invite.start, invite.end, options.settings.scheduling.time_zone);
+    const conflicts = findInviteConflicts(invite, await options.calendar.getBusyEvents(busyDates));
+    let alternative = null;
+    if (conflicts.length && invite.method === 'REQUEST') {
+      const searchDates = [0, 1, 2].map(offset =>
+        DateTime.fromJSDate(invite.start, { zone: invite.timeZone }).plus({ days: offset }).toISODate()!
+      );
+      const freeSlots = await options.calendar.getFreeSlotsForDates(searchDates, invite.timeZone, receivedAt);
+      alternative = findAlternativeSlot(freeSlots, invite.end.getTime() - invite.start.getTime(), receivedAt);
+    }
+    availability = { conflicts, alternative };
+  }
+
+  const plan = planInviteResponse(invite, options.userEmail, availability, receivedAt);
+  if (plan.action === 'none') return { action: 'skipped', reason: `invite:${plan.reason}` };
+  if (options.settings.reply_mode === 'off') return { action: 'skipped', reason: 'reply-mode:off' };
+  return {
+    action: 'invite_response',
+    reason: `${plan.action}:${plan.reason}`,
+    reply: {
+      to: plan.to.map(address => address.email),
+      cc: [],
+      subject: plan.subject,
+      body: plan.body,
+      ...(plan.calendar ? { calendarMethod: plan.calendar.method } : {}),
+    },
+  };
+}
+
+function toEmailInfo(parsed: ParsedEmail): EmailInfo {
+  const recipient = parsed.replyTo[0] || parsed.from;
+  return {
+    toEmail: recipient?.email || '',
+    senderName: parsed.from?.name || recipient?.name || '',
+    originalSubject: parsed.subject ? (/^re:/i.test(parsed.subject) ? parsed.subject : `Re: ${parsed.subject}`) : 'Re: Meeting Request',
+    headers: parsed.headers,
+    messageId: parsed.messageId,
+    from: parsed.from,
+    to: parsed.to,
+    cc: parsed.cc,
+    replyTo: parsed.replyTo,
+  };
+}
+
+/**
+ * One line per message, for the console
+ */
+export function formatReplaySummary(report: ReplayReport): string {
+  return report.results.map(result => {
+    const what = result.action === 'reply' || result.action === 'invite_response'
+      ? `${result.action} to ${result.reply?.to.join(', ')}${result.reason ? ` (${result.reason})` : ''}`
+      : result.action === 'error' ? `error: ${result.error}` : `skipped (${result.reason})`;
+    return `${result.source}: "${result.subject}" from ${result.from || 'unknown'} → ${what}`;
+  }).join('\n');
+}
@@ -0,0 +1,75 @@
+import { MailboxRules, ParsedEmail } from './types';
+
+export const DEFAULT_MAILBOX_RULES: MailboxRules = {
+  allow: [],
+  deny: [],
+  vip: [],
+  require_self_addressed: false,
+  gmail_query: '',
+};
+
+export interface RuleDecision {
+  process: boolean;
+  // The rule that decided, e.g. `deny:example.com` or `require_self_addressed`
+  rule: string;
+}
+
+/**
+ * Match an address against a rule pattern: a full address, or a domain
+ * (with or without a leading `@`) that also matches its subdomains
+ */
+export function matchesSenderPattern(pattern: string, email: string): boolean {
+  const normalizedPattern = pattern.trim().toLowerCase();
+  const normalizedEmail = email.trim().toLowerCase();
+  if (!normalizedPattern || !normalizedEmail) return false;
+  if (normalizedPattern.includes('@') && !normalizedPattern.startsWith('@')) {
+    return normalizedPattern === normalizedEmail;
+  }
+  const domain = normalizedPattern.replace(/^@/, '');
+  const emailDomain = normalizedEmail.split('@').pop() || '';
+  return emailDomain === domain || emailDomain.endsWith(`.${domain}`);
+}
+
+/**
+ * Decide whether a message should be processed. VIP senders always are; otherwise the
+ * denylist, the allowlist and the self-addressing requirement are checked in that order.
+ */
+export function evaluateMailboxRules(rules: MailboxRules, message: ParsedEmail, userEmail: string): RuleDecision {
+  const sender = message.from?.email || '';
+
+  const vip = rules.vip.find(pattern => matchesSenderPattern(pattern, sender));
+  if (vip) {
+    return { process: true, rule: `vip:${vip}` };
+  }
+
+  const denied = rules.deny.find(pattern => matchesSenderPattern(pattern, sender));
+  if (denied) {
+    return { process: false, rule: `deny:${denied}` };
+  }
+
+  if (rules.allow.length > 0) {
+    const allowed = rules.allow.find(pattern => matchesSenderPattern(pattern, sender));
+    if (!allowed) {
+      return { process: false, rule: 'allowlist' };
+    }
+  }
+
+  if (rules.require_self_addressed) {
+    const self = userEmail.toLowerCase();
+    const addressed = [...message.to, ...message.cc].some(address => address.email.toLowerCase() === self);
+    if (!addressed) {
+      return { process: false, rule: 'require_self_addressed' };
+    }
+  }
+
+  return { process: true, rule: 'default' };
+}
+
+/**
+ * Gmail search query for unread messages, refined by the user's extra query terms
+ */
+export function buildUnreadQuery(rules: MailboxRules, ...extraTerms: string[]): string {
+  return ['is:unread', ...extraTerms, rules.gmail_query.trim() ? `(${rules.gmail_query.trim()})` : '']
+    .filter(term => term)
+    .join(' ');
+}
@@ -0,0 +1,297 @@
+import { GmailMonitor } from './gmail-monitor';
+import { tokenManager } from './token-manager';
+import { getServerConfig } from './server-config';
+import { GmailMessage, GmailPushNotification, MessageQueueStats, MonitorEvent } from './types';
+
+export interface MailboxStatus {
+  userEmail: string;
+  pushActive: boolean;
+  lastSyncAt: string | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  queue: MessageQueueStats;
+}
+
+interface MailboxContext {
+  userEmail: string;
+  monitor: GmailMonitor;
+  lastSyncAt: string | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  // A notification-triggered sync failed; the next cycle syncs the mailbox even though push is active
+  syncPending: boolean;
+  // Account syncs in a row that did not list this user; guards against transient storage errors
+  missingCount: number;
+}
+
+// An account must be missing from storage this many syncs in a row before its context is removed
+const REMOVAL_THRESHOLD = 2;
+
+/**
+ * Runs one GmailMonitor per authenticated user in TokenManager. Contexts are added and
+ * removed as tokens appear or are revoked, each account's failures are isolated from the
+ * others, and polling runs across users with bounded concurrency.
+ */
+export class MailboxScheduler {
+  private contexts: Map<string, MailboxContext> = new Map();
+  // Contexts being initialized, so concurrent callers share one monitor per user
+  private pendingContexts: Map<string, Promise<MailboxContext | null>> = new Map();
+  private onMessageReceived: (userEmail: string, message: GmailMessage) => void;
+  private onEvent: ((userEmail: string, event: MonitorEvent) => void) | undefined;
+  private maxConcurrency: number;
+  private interval: NodeJS.Timeout | null = null;
+  private cycleInProgress: boolean = false;
+  private running: boolean = false;
+
+  constructor(
+    onMessageReceived: (userEmail: string, message: GmailMessage) => void,
+    onEvent?: (userEmail: string, event: MonitorEvent) => void,
+    maxConcurrency: number = parseInt(process.env['MAILBOX_POLL_CONCURRENCY'] || '3')
+  ) {
+    this.onMessageReceived = onMessageReceived;
+    this.onEvent = onEvent;
+    this.maxConcurrency = Math.max(1, maxConcurrency);
+  }
+
+  /**
+   * Reconcile monitor contexts with the users that currently have tokens
+   */
+  public async syncAccounts(): Promise<void> {
+    const userEmails = await tokenManager.getUserEmails();
+    const current = new Set(userEmails.map(email => email.toLowerCase()));
+
+    for (const userEmail of userEmails) {
+      const key = userEmail.toLowerCase();
+      const existing = this.contexts.get(key);
+      if (existing) {
+        existing.missingCount = 0;
+        continue;
+      }
+      await this.addContext(userEmail);
+    }
+
+    for (const [key, context] of this.contexts) {
+      if (current.has(key)) continue;
+      context.missingCount++;
+      if (context.missingCount >= REMOVAL_THRESHOLD) {
+        await this.removeContext(key);
+      }
+    }
+  }
+
+  private async addContext(userEmail: string): Promise<MailboxContext | null> {
+    const key = userEmail.toLowerCase();
+    const existing = this.contexts.get(key);
+    if (existing) return existing;
+    let pending = this.pendingContexts.get(key);
+    if (!pending) {
+      pending = this.createContext(userEmail).finally(() => this.pendingContexts.delete(key));
+      this.pendingContexts.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async createContext(userEmail: string): Promise<MailboxContext | null> {
+    const monitor = new GmailMonitor(
+      (message) => this.onMessageReceived(userEmail, message),
+      undefined,
+      (event) => this.onEvent?.(userEmail, event)
+    );
+    try {
+      const initialized = await monitor.initialize(userEmail);
+      if (!initialized) {
+        console.warn(`⚠️ Could not initialize Gmail monitor for ${userEmail}, will retry next cycle`);
+        return null;
+      }
+    } catch (error) {
+      console.error(`❌ Error initializing Gmail monitor for ${userEmail}:`, error);
+      return null;
+    }
+
+    const context: MailboxContext = {
+      userEmail,
+      monitor,
+      lastSyncAt: null,
+      lastError: null,
+      consecutiveFailures: 0,
+      syncPending: false,
+      missingCount: 0,
+    };
+    this.contexts.set(userEmail.toLowerCase(), context);
+    console.log(`📬 Added mailbox ${userEmail} (${this.contexts.size} total)`);
+
+    if (this.running) {
+      await this.startNotifications(context);
+    }
+    return context;
+  }
+
+  private async removeContext(key: string): Promise<void> {
+    const context = this.contexts.get(key);
+    if (!context) return;
+    this.contexts.delete(key);
+    try {
+      await context.monitor.stopMonitoring();
+    } catch (error) {
+      console.error(`❌ Error stopping Gmail monitor for ${context.userEmail}:`, error);
+    }
+    console.log(`📭 Removed mailbox ${context.userEmail} (${this.contexts.size} remaining)`);
+  }
+
+  /**
+   * In push or pull mode, register a Gmail watch for the mailbox instead of polling it
+   */
+  private async startNotifications(context: MailboxContext): Promise<void> {
+    const config = getServerConfig();
+    if (config.gmailNotificationMode === 'poll' || !config.gmailWatchTopic) {
+      return;
+    }
+    const watching = await context.monitor.startPushNotifications(config.gmailWatchTopic);
+    if (!watching) {
+      console.warn(`⚠️ Push notifications unavailable for ${context.userEmail}, polling instead`);
+    }
+  }
+
+  /**
+   * Start monitoring every account: scheduler-wide, not per user. Accounts added later are
+   * started as they appear.
+   */
+  public async start(intervalMs: number = 60000): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    // Contexts added from here on start their own notifications
+    const stopped = Array.from(this.contexts.values());
+    this.running = true;
+    await this.syncAccounts();
+    await runWithConcurrency(stopped, this.maxConcurrency, (context) => this.startNotifications(context));
+
+    this.interval = setInterval(() => this.runCycle(), intervalMs);
+    // Run immediately on start
+    this.runCycle();
+    console.log(`Started mailbox scheduler for ${this.contexts.size} account(s) every ${intervalMs / 1000} seconds.`);
+  }
+
+  /**
+   * Stop monitoring every account. Contexts are kept, so a later start() resumes them.
+   */
+  public async stop(): Promise<void> {
+    this.running = false;
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    for (const context of this.contexts.values()) {
+      await context.monitor.stopMonitoring();
+    }
+    console.log('Stopped mailbox scheduler.');
+  }
+
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * One scheduler tick: pick up new or revoked accounts, then sync every mailbox that is
+   * not receiving watch notifications or whose last notification sync failed. A tick is
+   * skipped if the previous one is still running.
+   */
+  private async runCycle(): Promise<void> {
+    if (this.cycleInProgress) {
+      console.log('⏳ Previous mailbox cycle still running, skipping this tick');
+      return;
+    }
+    this.cycleInProgress = true;
+    try {
+      await this.syncAccounts();
+      const toSync = Array.from(this.contexts.values()).filter(context => context.syncPending || !context.monitor.isPushActive());
+      await runWithConcurrency(toSync, this.maxConcurrency, (context) => this.syncContext(context));
+      // Push-mode mailboxes are not synced here, but their holds still expire
+      await runWithConcurrency(Array.from(this.contexts.values()), this.maxConcurrency, (context) => context.monitor.releaseExpiredHolds());
+    } catch (error) {
+      console.error('❌ Mailbox scheduler cycle failed:', error);
+    } finally {
+      this.cycleInProgress = false;
+    }
+  }
+
+  private async syncContext(context: MailboxContext): Promise<void> {
+    try {
+      await context.monitor.syncOnce();
+      context.lastSyncAt = new Date().toISOString();
+      context.lastError = null;
+      context.consecutiveFailures = 0;
+      context.syncPending = false;
+    } catch (error) {
+      context.lastError = error instanceof Error ? error.message : String(error);
+      context.consecutiveFailures++;
+      console.error(`❌ Sync failed for ${context.userEmail} (${context.consecutiveFailures} in a row):`, error);
+    }
+  }
+
+  /**
+   * Route a Gmail watch notification to the monitor that owns the mailbox. If the sync fails
+   * the mailbox is left for the next cycle, since the notification is not delivered again.
+   */
+  public async handleNotification(notification: GmailPushNotification): Promise<void> {
+    let context = this.contexts.get(notification.emailAddress.toLowerCase());
+    if (!context) {
+      // The user may have signed in since the last account sync
+      await this.syncAccounts();
+      context = this.contexts.get(notification.emailAddress.toLowerCase());
+    }
+    if (!context) {
+      console.warn(`⚠️ No Gmail monitor for ${notification.emailAddress}, ignoring notification`);
+      return;
+    }
+    try {
+      await context.monitor.handlePushNotification(notification);
+    } catch (error) {
+      context.syncPending = true;
+      context.lastError = error instanceof Error ? error.message : String(error);
+      context.consecutiveFailures++;
+      throw error;
+    }
+    context.lastSyncAt = new Date().toISOString();
+    context.lastError = null;
+    context.consecutiveFailures = 0;
+    context.syncPending = false;
+  }
+
+  public getMonitor(userEmail: string): GmailMonitor | undefined {
+    return this.contexts.get(userEmail.toLowerCase())?.monitor;
+  }
+
+  /**
+   * Get the monitor for a user, creating its context if the user has a token but no monitor yet
+   */
+  public async getOrCreateMonitor(userEmail: string): Promise<GmailMonitor | undefined> {
+    const context = await this.addContext(userEmail);
+    return context?.monitor;
+  }
+
+  public getStatus(): MailboxStatus[] {
+    return Array.from(this.contexts.values()).map(context => ({
+      userEmail: context.userEmail,
+      pushActive: context.monitor.isPushActive(),
+      lastSyncAt: context.lastSyncAt,
+      lastError: context.lastError,
+      consecutiveFailures: context.consecutiveFailures,
+      queue: context.monitor.getQueueStats(),
+    }));
+  }
+}
+
+/**
+ * Run an async task for every item with at most `limit` running at once
+ */
+async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++]!;
+      await task(item);
+    }
+  });
+  await Promise.all(workers);
+}
@@ -1,10 +1,34 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { GmailMonitor } from './gmail-monitor';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { MailboxScheduler } from './mailbox-scheduler';
 import { SSEManager } from './mcp-server-remote'; // If SSEManager is not exported, move its definition here or pass as argument
 import { CalendarMonitor } from './calendar-monitor';
-import { FreeSlot } from './types';
+import { FreeSlot, PendingReply, Weekday } from './types';
+import { userSettingsManager } from './user-settings';
+import { pendingReplyQueue } from './pending-reply-queue';
+import { rankFreeSlots } from './calendar-holds';
+import { availabilityCalendarIds } from './busy-intervals';
+import { applySchedulingPreferencesUpdate, describeSchedulingPreferences, WEEKDAYS } from './scheduling-preferences';
+import { getAttachmentMaxBytes } from './gmail-reader';
+import { apiErrorStatus } from './google-api-client';
+import { GmailMonitor } from './gmail-monitor';
+import { z } from 'zod';
+
+// A time-of-day range for the scheduling preferences tool
+const timeRangeSchema = z.object({
+  start: z.string().describe("HH:MM"),
+  end: z.string().describe("HH:MM"),
+});
+
+/**
+ * Email of the user whose JWT authenticated this MCP request (set by jwtAuthMiddleware)
+ */
+export function getAuthenticatedEmail(extra: { authInfo?: AuthInfo | undefined }): string | undefined {
+  const email = extra.authInfo?.extra?.['email'];
+  return typeof email === 'string' ? email : undefined;
+}
 
-export function setupMcpServer(mcp: McpServer, gmailMonitor: GmailMonitor, sseManager: SSEManager) {
+export function setupMcpServer(mcp: McpServer, mailboxScheduler: MailboxScheduler, sseManager: SSEManager) {
   // MCP Tools
   mcp.tool(
     "start_meeting_monitor",
@@ -13,7 +37,7 @@ export function setupMcpServer(mcp: McpServer, gmailMonitor: GmailMonitor, sseMa
       parameters: {},
     },
     async () => {
-      gmailMonitor.startPolling(30000); // Poll every 60 seconds
+      await mailboxScheduler.start(30000); // Push notifications, or poll every 30 seconds
       return {
         content: [
           {
@@ -32,7 +56,7 @@ export function setupMcpServer(mcp: McpServer, gmailMonitor: GmailMonitor, sseMa
       parameters: {},
     },
     async () => {
-      gmailMonitor.stopPolling();
+      await mailboxScheduler.stop();
       // Streaming mode cleanup is handled in main file
       return {
         content: [
@@ -51,8 +75,20 @@ export function setupMcpServer(mcp: McpServer, gmailMonitor: GmailMonitor, sseMa
     {
       parameters: {},
     },
-    async () => {
+    async (extra) => {
       try {
+        const userEmail = getAuthenticatedEmail(extra);
+        const gmailMonitor = userEmail ? await mailboxScheduler.getOrCreateMonitor(userEmail) : undefined;
+        if (!gmailMonitor) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No Gmail mailbox is connected for ${userEmail || 'this session'}.`
+              }
+            ]
+          };
+        }
         const messages = await gmailMonitor.checkForNewMessages();
         if (!messages.length) {
           return {
@@ -67,7 +103,7 @@ export function setupMcpServer(mcp: McpServer, gmailMonitor: GmailMonitor, sseMa
         return {
           content: messages.map(msg => ({
             type: "text",
-            text: `Subject: ${msg.payload?.headers?.find(h => h.name.toLowerCase() === "subject")?.value || "No subject"}\nFrom: ${msg.payload?.headers?.find(h => h.name.toLowerCase() === "from")?.value || "Unknown"}\nSnippet: ${msg.snippet}`
+            text: `Subject: ${msg.subject || "No subject"}\nFrom: ${msg.from ? `${msg.from.name} <${msg.from.email}>`.trim() : "Unknown"}\nTo: ${msg.to.map(a => a.email).join(', ')}${msg.attachments.length ? `\nAttachments: ${msg.attachments.map(a => a.filename || a.mimeType).join(', ')}` : ''}\n\n${msg.body}`
           }))
         };
       } catch (error) {
@@ -89,12 +125,23 @@ export function setupMcpServer(mcp: McpServer, gmailMonitor: GmailMonitor, sseMa
     {
       parameters: {},
     },
-    async () => {
+    async (extra) => {
+      const userEmail = getAuthenticatedEmail(extra);
+      const mailboxes = mailboxScheduler.getStatus()
+        .filter(status => !userEmail || status.userEmail.toLowerCase() === userEmail.toLowerCase());
+      const lines = mailboxes.map(status =>
+        `- ${status.userEmail}: push notifications active = ${status.pushActive}, last sync = ${status.lastSyncAt || 'never'}` +
+        (status.lastError ? `, last error = ${status.lastError} (${status.consecutiveFailures} in a row)` : '') +
+        `, queue depth = ${status.queue.queued}, processing = ${status.queue.active}, processed = ${status.queue.processed}` +
+        (status.queue.failed ? `, failed = ${status.queue.failed}` : '') +
+        (status.queue.averageLatencyMs !== null ? `, avg latency = ${status.queue.averageLatencyMs}ms (last ${status.queue.lastLatencyMs}ms)` : '')
+      );
       return {
         content: [
           {
             type: "text",
-            text: `Gmail Status: polling active = ${!!gmailMonitor['pollingInterval']}`
+            text: `Gmail Status: scheduler active = ${mailboxScheduler.isRunning()}, mailboxes = ${mailboxes.length}` +
+              (lines.length ? `\n${lines.join('\n')}` : '')
           }
         ]
       };
@@ -102,31 +149,276 @@ export function setupMcpServer(mcp: McpServer, gmailMonitor: GmailMonitor, sseMa
   );
 
   mcp.tool(
-    "search_emails",
-    "Search emails in Gmail",
-    {
-      parameters: {
-        type: "object",
-        properties: {
-          query: {
-            type: "string",
-            description: "Gmail search query"
-          },
-          maxResults: {
-            type: "number",
-            description: "Maximum number of results (default: 10)",
-            default: 10
+    "get_reply_mode",
+    "Get how meeting replies are delivered for your mailbox (send, draft, approve or off)",
+    {
+      parameters: {},
+    },
+    async (extra) => {
+      const userEmail = getAuthenticatedEmail(extra);
+      if (!userEmail) {
+        return {
+          content: [{ type: "text", text: "No authenticated user for this session." }]
+        };
+      }
+      const settings = await userSettingsManager.getSettings(userEmail);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Reply mode for ${userEmail}: ${settings.reply_mode}`
           }
-        },
-        required: ["query"]
-      },
+        ]
+      };
+    }
+  );
+
+  mcp.tool(
+    "set_reply_mode",
+    "Set how meeting replies are delivered: 'send' replies immediately, 'draft' leaves a draft in the thread for review, 'approve' queues replies until you approve them, 'off' never replies",
+    {
+      mode: z.enum(['send', 'draft', 'approve', 'off']).describe("Reply mode"),
     },
-    async ({ query, maxResults = 10 }) => {
+    async ({ mode }, extra) => {
+      const userEmail = getAuthenticatedEmail(extra);
+      if (!userEmail) {
+        return {
+          content: [{ type: "text", text: "No authenticated user for this session." }]
+        };
+      }
+      try {
+        await userSettingsManager.updateSettings(userEmail, { reply_mode: mode });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Reply mode for ${userEmail} set to ${mode}.`
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error updating reply mode: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  mcp.tool(
+    "set_leave_unread",
+    "Choose whether processed emails stay unread (they are labelled with their Scheduling/* stage either way)",
+    {
+      leave_unread: z.boolean().describe("true to leave processed emails unread, false to mark them read"),
+    },
+    async ({ leave_unread }, extra) => {
+      const userEmail = getAuthenticatedEmail(extra);
+      if (!userEmail) {
+        return {
+          content: [{ type: "text", text: "No authenticated user for this session." }]
+        };
+      }
+      try {
+        await userSettingsManager.updateSettings(userEmail, { leave_unread });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Processed emails for ${userEmail} will ${leave_unread ? 'stay unread' : 'be marked as read'}.`
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error updating settings: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  mcp.tool(
+    "set_attach_calendar",
+    "Choose whether meeting replies carry .ics attachments: tentative events for proposed times, or an invite once a time is confirmed",
+    {
+      attach_calendar: z.boolean().describe("true to attach calendar files to replies, false to send plain replies"),
+    },
+    async ({ attach_calendar }, extra) => {
+      const userEmail = getAuthenticatedEmail(extra);
+      if (!userEmail) {
+        return {
+          content: [{ type: "text", text: "No authenticated user for this session." }]
+        };
+      }
+      try {
+        await userSettingsManager.updateSettings(userEmail, { attach_calendar });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Meeting replies for ${userEmail} will ${attach_calendar ? 'include' : 'not include'} calendar attachments.`
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error updating settings: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  mcp.tool(
+    "set_add_meet_link",
+    "Choose whether meetings booked when a counterpart confirms a time get a Google Meet link",
+    {
+      add_meet_link: z.boolean().describe("true to add a Google Meet link to booked meetings"),
+    },
+    async ({ add_meet_link }, extra) => {
+      const userEmail = getAuthenticatedEmail(extra);
+      if (!userEmail) {
+        return {
+          content: [{ type: "text", text: "No authenticated user for this session." }]
+        };
+      }
+      try {
+        await userSettingsManager.updateSettings(userEmail, { add_meet_link });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Meetings booked for ${userEmail} will ${add_meet_link ? 'include' : 'not include'} a Google Meet link.`
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error updating settings: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  mcp.tool(
+    "set_calendars",
+    "Choose which calendars are checked for availability, e.g. shared team or personal calendars (IDs from Google Calendar settings). The primary calendar is always checked.",
+    {
+      calendar_ids: z.array(z.string()).describe("Calendar IDs checked in addition to the primary calendar"),
+    },
+    async ({ calendar_ids }, extra) => {
+      const userEmail = getAuthenticatedEmail(extra);
+      if (!userEmail) {
+        return {
+          content: [{ type: "text", text: "No authenticated user for this session." }]
+        };
+      }
+      try {
+        const calendarIds = availabilityCalendarIds(calendar_ids, userEmail);
+        await userSettingsManager.updateSettings(userEmail, { calendar_ids: calendarIds });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Availability for ${userEmail} is now checked on: ${calendarIds.join(', ')}`
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error updating settings: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  mcp.tool(
+    "set_reply_policy",
+    "Choose who receives meeting replies: the sender only or everyone on the thread except you, plus addresses always copied (e.g. an assistant). Only the fields given are replaced.",
+    {
+      recipients: z.enum(['sender', 'reply_all']).optional().describe("'sender' replies to the sender only, 'reply_all' copies everyone on To and Cc"),
+      always_cc: z.array(z.string()).optional().describe("Addresses copied on every reply"),
+    },
+    async (update, extra) => {
+      const userEmail = getAuthenticatedEmail(extra);
+      if (!userEmail) {
+        return {
+          content: [{ type: "text", text: "No authenticated user for this session." }]
+        };
+      }
+      try {
+        const { reply_policy: policy } = await userSettingsManager.getSettings(userEmail);
+        const updated = await userSettingsManager.updateSettings(userEmail, {
+          reply_policy: {
+            ...policy,
+            ...(update.recipients ? { recipients: update.recipients } : {}),
+            ...(update.always_cc ? { always_cc: update.always_cc } : {}),
+          }
+        });
+        const alwaysCc = updated.reply_policy.always_cc;
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Replies for ${userEmail} go to ${updated.reply_policy.recipients === 'reply_all' ? 'everyone on the thread' : 'the sender only'}` +
+                (alwaysCc.length ? `, always copying ${alwaysCc.join(', ')}.` : '.')
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error updating reply policy: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  mcp.tool(
+    "get_mailbox_rules",
+    "Show the sender rules that decide which emails are checked for meeting requests",
+    {
+      parameters: {},
+    },
+    async (extra) => {
+      const userEmail = getAuthenticatedEmail(extra);
+      if (!userEmail) {
+        return {
+          content: [{ type: "text", text: "No authenticated user for this session." }]
+        };
+      }
+      const { rules } = await userSettingsManager.getSettings(userEmail);
       return {
         content: [
           {
             type: "text",
-            text: `Search feature not yet implemented. Query: "${query}", max results: ${maxResults}`
+            text: `Mailbox rules for ${userEmail}:\n${JSON.stringify(rules, null, 2)}`
           }
         ]
       };
@@ -134,69 +426,421 @@ export function setupMcpServer(mcp: McpServer, gmailMonitor: GmailMonitor, sseMa
   );
 
   mcp.tool(
-    "get_sse_status",
-    "Get the current status of SSE connections",
+    "set_mailbox_rules",
+    "Update sender rules. Patterns are addresses (jane@example.com) or domains (example.com). Only the fields given are replaced.",
+    {
+      allow: z.array(z.string()).optional().describe("Only process senders matching these patterns (empty list allows everyone)"),
+      deny: z.array(z.string()).optional().describe("Never process senders matching these patterns"),
+      vip: z.array(z.string()).optional().describe("Always process senders matching these patterns"),
+      require_self_addressed: z.boolean().optional().describe("Only process emails that list you in To or Cc"),
+      gmail_query: z.string().optional().describe("Extra Gmail search terms for the unread query, e.g. -category:promotions"),
+    },
+    async (update, extra) => {
+      const userEmail = getAuthenticatedEmail(extra);
+      if (!userEmail) {
+        return {
+          content: [{ type: "text", text: "No authenticated user for this session." }]
+        };
+      }
+      try {
+        const { rules } = await userSettingsManager.getSettings(userEmail);
+        const updated = await userSettingsManager.updateSettings(userEmail, {
+          rules: {
+            ...rules,
+            ...(update.allow ? { allow: update.allow } : {}),
+            ...(update.deny ? { deny: update.deny } : {}),
+            ...(update.vip ? { vip: update.vip } : {}),
+            ...(update.require_self_addressed !== undefined ? { require_self_addressed: update.require_self_addressed } : {}),
+            ...(update.gmail_query !== undefined ? { gmail_query: update.gmail_query } : {}),
+          }
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Updated mailbox rules for ${userEmail}:\n${JSON.stringify(updated.rules, null, 2)}`
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error updating mailbox rules: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  mcp.tool(
+    "get_scheduling_preferences",
+    "Show the working hours and meeting preferences used when offering times",
     {
       parameters: {},
     },
-    async () => {
+    async (extra) => {
+      const userEmail = getAuthenticatedEmail(extra);
+      if (!userEmail) {
+        return {
+          content: [{ type: "text", text: "No authenticated user for this session." }]
+        };
+      }
+      const { scheduling } = await userSettingsManager.getSettings(userEmail);
       return {
         content: [
           {
             type: "text",
-            text: `SSE Status: ${sseManager.getClientCount()} connected clients`
+            text: `Scheduling preferences for ${userEmail}:\n${describeSchedulingPreferences(scheduling)}\n\n${JSON.stringify(scheduling, null, 2)}`
           }
         ]
       };
     }
   );
 
-  // CalendarMonitor instance (singleton for now)
-  const calendarMonitor = new CalendarMonitor();
+  mcp.tool(
+    "set_scheduling_preferences",
+    "Update working hours and meeting preferences. Times are HH:MM in the given IANA time zone. Only the fields given are replaced; set a weekday to null for a day off.",
+    {
+      time_zone: z.string().optional().describe("IANA time zone of the working hours, e.g. Europe/London"),
+      working_hours: z.object(
+        Object.fromEntries(WEEKDAYS.map(day => [day, timeRangeSchema.nullable().optional()])) as Record<Weekday, z.ZodOptional<z.ZodNullable<typeof timeRangeSchema>>>
+      ).optional().describe("Working hours per weekday (monday..sunday), e.g. { \"friday\": { \"start\": \"09:00\", \"end\": \"13:00\" }, \"saturday\": null }"),
+      default_duration_minutes: z.number().optional().describe("Length of offered meetings"),
+      buffer_before_minutes: z.number().optional().describe("Minutes kept free after an earlier meeting"),
+      buffer_after_minutes: z.number().optional().describe("Minutes kept free before the next meeting"),
+      minimum_notice_hours: z.number().optional().describe("Never offer times sooner than this"),
+      max_meetings_per_day: z.number().optional().describe("Do not offer days that already have this many meetings (0 for no limit)"),
+      lunch: timeRangeSchema.nullable().optional().describe("Lunch break kept free each working day, or null for none"),
+    },
+    async (update, extra) => {
+      const userEmail = getAuthenticatedEmail(extra);
+      if (!userEmail) {
+        return {
+          content: [{ type: "text", text: "No authenticated user for this session." }]
+        };
+      }
+      try {
+        const { scheduling } = await userSettingsManager.getSettings(userEmail);
+        const updated = await userSettingsManager.updateSettings(userEmail, {
+          scheduling: applySchedulingPreferencesUpdate(scheduling, update),
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Updated scheduling preferences for ${userEmail}:\n${describeSchedulingPreferences(updated.scheduling)}`
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error updating scheduling preferences: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
 
   mcp.tool(
-    "check_cal_avail_for_dates",
-    "Check Google Calendar for free slots for specific dates and timezone (9am-6pm, 30min slots)",
-    {
-      parameters: {
-        type: "object",
-        properties: {
-          dates: {
-            type: "array",
-            items: { type: "string" },
-            description: "Array of date strings (YYYY-MM-DD)"
-          },
-          timeZone: {
-            type: "string",
-            description: "Timezone string (e.g., 'UTC+8')"
+    "list_pending_replies",
+    "List generated meeting replies waiting for your approval",
+    {
+      parameters: {},
+    },
+    async (extra) => {
+      const userEmail = getAuthenticatedEmail(extra);
+      if (!userEmail) {
+        return {
+          content: [{ type: "text", text: "No authenticated user for this session." }]
+        };
+      }
+      const replies = await pendingReplyQueue.listPending(userEmail);
+      if (!replies.length) {
+        return {
+          content: [{ type: "text", text: "No replies are waiting for approval." }]
+        };
+      }
+      return {
+        content: replies.map(reply => ({
+          type: "text",
+          text: formatPendingReply(reply)
+        }))
+      };
+    }
+  );
+
+  // Approve, edit-and-approve and reject all act on one queued reply of the authenticated user
+  const resolvePendingReply = async (
+    extra: { authInfo?: AuthInfo | undefined },
+    replyId: string,
+    action: 'approve' | 'reject',
+    editedBody?: string
+  ) => {
+    const userEmail = getAuthenticatedEmail(extra);
+    const gmailMonitor = userEmail ? await mailboxScheduler.getOrCreateMonitor(userEmail) : undefined;
+    if (!gmailMonitor) {
+      return {
+        content: [{ type: "text" as const, text: `No Gmail mailbox is connected for ${userEmail || 'this session'}.` }]
+      };
+    }
+    try {
+      const reply = action === 'approve'
+        ? await gmailMonitor.approvePendingReply(replyId, editedBody)
+        : await gmailMonitor.rejectPendingReply(replyId);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: reply
+              ? `Reply ${replyId} to ${reply.to} ${action === 'approve' ? 'approved and sent' : 'rejected'}.`
+              : `Reply ${replyId} is not pending (it may have expired or already been handled).`
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Error handling reply ${replyId}: ${error instanceof Error ? error.message : String(error)}`
           }
-        },
-        required: ["dates", "timeZone"]
-      },
+        ]
+      };
+    }
+  };
+
+  mcp.tool(
+    "approve_reply",
+    "Send a pending meeting reply as proposed",
+    {
+      reply_id: z.string().describe("ID of the pending reply"),
     },
-    async ({ dates, timeZone }) => {
-      const initialized = await calendarMonitor.initialize();
-      if (!initialized) {
+    async ({ reply_id }, extra) => resolvePendingReply(extra, reply_id, 'approve')
+  );
+
+  mcp.tool(
+    "edit_and_approve_reply",
+    "Replace the body of a pending meeting reply and send it",
+    {
+      reply_id: z.string().describe("ID of the pending reply"),
+      body: z.string().min(1).describe("Reply body to send instead of the proposed one"),
+    },
+    async ({ reply_id, body }, extra) => resolvePendingReply(extra, reply_id, 'approve', body)
+  );
+
+  mcp.tool(
+    "reject_reply",
+    "Discard a pending meeting reply without sending it",
+    {
+      reply_id: z.string().describe("ID of the pending reply"),
+    },
+    async ({ reply_id }, extra) => resolvePendingReply(extra, reply_id, 'reject')
+  );
+
+  mcp.tool(
+    "search_emails",
+    "Search the authenticated user's Gmail with a Gmail query. Returns JSON with id, threadId, from, to, subject, date, snippet, labels and hasAttachments per message, plus nextPageToken when more results exist.",
+    {
+      query: z.string().describe("Gmail search query, e.g. 'from:jane@example.com subject:sync' (may be empty when filters are given)"),
+      maxResults: z.number().int().min(1).max(100).default(10).describe("Maximum number of results (default: 10)"),
+      pageToken: z.string().optional().describe("nextPageToken from a previous search, to get the following results"),
+      includeBody: z.boolean().default(false).describe("Include the message body (new content only, quotes and signature removed)"),
+      labels: z.array(z.string()).optional().describe("Label names every result must carry, e.g. ['INBOX', 'Scheduling/Replied']"),
+      after: z.string().optional().describe("Only messages on or after this date (YYYY-MM-DD or ISO date-time)"),
+      before: z.string().optional().describe("Only messages before this date (YYYY-MM-DD or ISO date-time)"),
+    },
+    async ({ query, maxResults, pageToken, includeBody, labels, after, before }, extra) => {
+      const userEmail = getAuthenticatedEmail(extra);
+      const gmailMonitor = userEmail ? await mailboxScheduler.getOrCreateMonitor(userEmail) : undefined;
+      if (!gmailMonitor) {
+        return {
+          content: [{ type: "text", text: `No Gmail mailbox is connected for ${userEmail || 'this session'}.` }]
+        };
+      }
+      if (!query.trim() && !labels?.length && !after && !before) {
+        return {
+          content: [{ type: "text", text: "Give a query or at least one label or date filter." }]
+        };
+      }
+      try {
+        const response = await gmailMonitor.searchEmails({
+          query,
+          maxResults,
+          includeBody,
+          ...(pageToken ? { pageToken } : {}),
+          ...(labels ? { labels } : {}),
+          ...(after ? { after } : {}),
+          ...(before ? { before } : {}),
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(response, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
         return {
           content: [
             {
               type: "text",
-              text: "Failed to initialize Google Calendar client."
+              text: `Error searching emails: ${error instanceof Error ? error.message : String(error)}`
             }
           ]
         };
       }
-      const slots: FreeSlot[] = await calendarMonitor.getFreeSlotsForDates(dates, timeZone);
+    }
+  );
+
+  // get_email, get_thread and download_attachment read from the authenticated user's mailbox
+  const readMailbox = async (
+    extra: { authInfo?: AuthInfo | undefined },
+    description: string,
+    read: (gmailMonitor: GmailMonitor) => Promise<unknown>
+  ) => {
+    const userEmail = getAuthenticatedEmail(extra);
+    const gmailMonitor = userEmail ? await mailboxScheduler.getOrCreateMonitor(userEmail) : undefined;
+    if (!gmailMonitor) {
+      return {
+        content: [{ type: "text" as const, text: `No Gmail mailbox is connected for ${userEmail || 'this session'}.` }]
+      };
+    }
+    try {
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(await read(gmailMonitor), null, 2) }]
+      };
+    } catch (error) {
+      const reason = apiErrorStatus(error) === 404 ? 'not found' : error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Error reading ${description}: ${reason}` }]
+      };
+    }
+  };
+
+  mcp.tool(
+    "get_email",
+    "Read one message: decoded headers, plain-text and HTML bodies, attachment metadata and its Scheduling/* label. Returns JSON.",
+    {
+      message_id: z.string().describe("Gmail message ID, e.g. from search_emails"),
+    },
+    async ({ message_id }, extra) => readMailbox(extra, `message ${message_id}`, monitor => monitor.getEmail(message_id))
+  );
+
+  mcp.tool(
+    "get_thread",
+    "Read a whole conversation, oldest message first, in the same form as get_email. Returns JSON.",
+    {
+      thread_id: z.string().describe("Gmail thread ID"),
+    },
+    async ({ thread_id }, extra) => readMailbox(extra, `thread ${thread_id}`, monitor => monitor.getThread(thread_id))
+  );
+
+  mcp.tool(
+    "download_attachment",
+    `Get the base64 content of an attachment listed by get_email, up to ${Math.round(getAttachmentMaxBytes() / 1024)} KB. Returns JSON.`,
+    {
+      message_id: z.string().describe("Gmail message ID"),
+      part_id: z.string().optional().describe("partId of the attachment (preferred: stable across requests)"),
+      attachment_id: z.string().optional().describe("attachmentId of the attachment"),
+    },
+    async ({ message_id, part_id, attachment_id }, extra) => {
+      if (part_id === undefined && attachment_id === undefined) {
+        return {
+          content: [{ type: "text", text: "Give the part_id or attachment_id of the attachment." }]
+        };
+      }
+      return readMailbox(extra, `attachment of message ${message_id}`, monitor => monitor.downloadAttachment(message_id, {
+        ...(part_id !== undefined ? { partId: part_id } : {}),
+        ...(attachment_id !== undefined ? { attachmentId: attachment_id } : {}),
+      }));
+    }
+  );
+
+  mcp.tool(
+    "get_sse_status",
+    "Get the current status of SSE connections",
+    {
+      parameters: {},
+    },
+    async () => {
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(slots, null, 2)
+            text: `SSE Status: ${sseManager.getClientCount()} connected clients`
           }
         ]
       };
     }
   );
 
+  mcp.tool(
+    "check_cal_avail_for_dates",
+    "Check Google Calendar for free slots on specific dates, within the user's working hours and at their default meeting length (see get_scheduling_preferences). Slots are returned in the given timezone.",
+    {
+      dates: z.array(z.string()).describe("Array of date strings (YYYY-MM-DD)"),
+      timeZone: z.string().describe("Timezone string (e.g., 'UTC+8')"),
+    },
+    async ({ dates, timeZone }, extra) => {
+      const userEmail = getAuthenticatedEmail(extra);
+      if (!userEmail) {
+        return {
+          content: [{ type: "text", text: "No authenticated user for this session." }]
+        };
+      }
+      // One monitor per call, so each user sees only their own calendars and preferences
+      const calendarMonitor = new CalendarMonitor();
+      const initialized = await calendarMonitor.initialize(userEmail);
+      if (!initialized) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Failed to initialize Google Calendar client for ${userEmail}.`
+            }
+          ]
+        };
+      }
+      try {
+        // Held slots were already offered elsewhere, so they are listed after the clear ones
+        const slots: FreeSlot[] = rankFreeSlots(await calendarMonitor.getFreeSlotsForDates(dates, timeZone));
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(slots, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error checking calendar availability: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+
+} 
 
-} 
\ No newline at end of file
+function formatPendingReply(reply: PendingReply): string {
+  const slots = reply.slots
+    .map(slot => `${slot.date} ${slot.time_slots.join(', ')} (${slot.timezone})`)
+    .join('\n  ');
+  return `Reply ID: ${reply.reply_id}\nTo: ${reply.to}${reply.cc?.length ? `\nCc: ${reply.cc.join(', ')}` : ''}\nSubject: ${reply.subject}\nQueued: ${reply.created_at}` +
+    (slots ? `\nSlots:\n  ${slots}` : '') +
+    `\n\nOriginal from ${reply.original_from}:\n${reply.original_body}\n\nProposed reply:\n${reply.proposed_body}`;
+}
@@ -1,16 +1,20 @@
 import 'dotenv/config';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { GmailMonitor } from './gmail-monitor';
+import { MailboxScheduler } from './mailbox-scheduler';
 import { tokenManager } from './token-manager';
 import { setNotifyCallback, startWebhookServer } from './webhook-server';
 import { jwtAuthMiddleware, AuthenticatedRequest } from './jwt-auth-middleware';
 import express from 'express';
 import cors from 'cors';
 import { randomUUID } from 'crypto';
-import { GmailMessage } from './types';
+import { GmailMessage, GmailPushNotification, MonitorEvent } from './types';
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js"
 import { setupMcpServer } from './mcp-mcp-logic';
+import { getServerConfig } from './server-config';
+import { PubSubPullSubscriber } from './pubsub-pull-subscriber';
+import { messageLedger } from './message-ledger';
+import { pendingReplyQueue } from './pending-reply-queue';
 
 
 // SSE clients management
@@ -80,20 +84,22 @@ const mcp = new McpServer({
   description: 'Remote MCP server for Gmail email monitoring and meeting detection',
 });
 
-const gmailMonitor = new GmailMonitor(onNewGmailMessage);
+// One Gmail monitor per authenticated user
+const mailboxScheduler = new MailboxScheduler(onNewGmailMessage, onMonitorEvent);
 
 // Set up MCP server tools and resources
-setupMcpServer(mcp, gmailMonitor, sseManager);
+setupMcpServer(mcp, mailboxScheduler, sseManager);
 
 // Notification mechanism for connected clients
-function onNewGmailMessage(message: GmailMessage) {
-  console.log('📧 New Gmail message detected:', message.id);
+function onNewGmailMessage(userEmail: string, message: GmailMessage) {
+  console.log(`📧 New Gmail message detected for ${userEmail}:`, message.id);
 
   // Extract email details for notification
   const subject = message.payload?.headers?.find(h => h.name.toLowerCase() === 'subject')?.value || 'No subject';
   const from = message.payload?.headers?.find(h => h.name.toLowerCase() === 'from')?.value || 'Unknown sender';
 
   const notificationData = {
+    userEmail,
     messageId: message.id,
     subject,
     from,
@@ -101,7 +107,17 @@ function onNewGmailMessage(message: GmailMessage) {
     receivedAt: new Date(parseInt(message.internalDate)).toISOString()
   };
 
-  // Send through MCP streaming if active
+  notifyClients('new_email', `New email: ${subject}`, notificationData);
+}
+
+// Drafts waiting for review and other events raised while processing a mailbox
+function onMonitorEvent(userEmail: string, event: MonitorEvent) {
+  console.log(`🔔 ${event.type} for ${userEmail}: ${event.message}`);
+  notifyClients(event.type, event.message, { userEmail, ...event.data });
+}
+
+// Send a notification through MCP streaming (if active) and to all connected SSE clients
+function notifyClients(type: string, message: string, data: Record<string, unknown>) {
   if (isStreamingMode && streamingRes) {
     try {
       const mcpNotification = {
@@ -109,15 +125,15 @@ function onNewGmailMessage(message: GmailMessage) {
         method: 'notifications/notify',
         params: {
           notification: {
-            type: 'new_email',
-            message: `New email: ${subject}`,
-            data: notificationData
+            type,
+            message,
+            data
           }
         }
       };
 
       streamingRes.write(`data: ${JSON.stringify(mcpNotification)}\n\n`);
-      console.log('📡 Sent email notification through MCP streaming');
+      console.log(`📡 Sent ${type} notification through MCP streaming`);
     } catch (error) {
       console.error('Error sending MCP notification:', error);
       isStreamingMode = false;
@@ -126,24 +142,38 @@ function onNewGmailMessage(message: GmailMessage) {
   }
 
   // Also broadcast to all connected SSE clients (for web apps)
-  sseManager.broadcastToAll('new_email', notificationData);
+  sseManager.broadcastToAll(type, data);
 }
 
-// Initialize Gmail monitor
-async function initializeGmailMonitor() {
-  const initialized = await gmailMonitor.initialize();
-  if (!initialized) {
-    console.error("Failed to initialize Gmail monitor.");
-    return false;
-  }
+let pullSubscriber: PubSubPullSubscriber | null = null;
 
-  setNotifyCallback((messageId) => {
-    console.log(`New email received: ${messageId}`);
-    // Send notification to all connected MCP clients
-    // This will be handled by the MCP protocol
-  });
+// Start receiving Gmail watch notifications (webhook for push, Pub/Sub subscriber for pull)
+// and route each one to the monitor that owns the mailbox
+function startNotificationEndpoint() {
+  const routeGmailNotification = (notification: GmailPushNotification) => mailboxScheduler.handleNotification(notification);
+
+  const config = getServerConfig();
+  if (config.gmailNotificationMode === 'pull') {
+    if (!config.gmailWatchSubscription) {
+      console.error('GMAIL_WATCH_SUBSCRIPTION must be set to use pull mode');
+      return;
+    }
+    pullSubscriber = new PubSubPullSubscriber(config.gmailWatchSubscription, routeGmailNotification);
+    pullSubscriber.start();
+    return;
+  }
 
+  setNotifyCallback(routeGmailNotification);
   startWebhookServer();
+}
+
+// Initialize a Gmail monitor for every authenticated mailbox
+async function initializeGmailMonitor() {
+  await mailboxScheduler.syncAccounts();
+  if (mailboxScheduler.getStatus().length === 0) {
+    console.error("Failed to initialize any Gmail monitor.");
+    return false;
+  }
   return true;
 }
 
@@ -155,7 +185,7 @@ async function initializeGmailMonitor() {
 //   name: "example-server",
 //   version: "1.0.0"
 // });
-// setupMcpServer(server, gmailMonitor, sseManager);
+// setupMcpServer(server, mailboxScheduler, sseManager);
 
 // Remove all mcp.tool and mcp.resource definitions from this file. Only keep the import and call to setupMcpServer where needed.
 
@@ -164,6 +194,9 @@ let initPromise: Promise<void> | null = null;
 
 async function topLevelInit() {
   try {
+    // Accounts that sign in later are picked up by the scheduler, so notifications are always accepted
+    startNotificationEndpoint();
+
     // Check if tokens are available (optional - don't fail if none found)
     const hasTokens = await tokenManager.hasTokens();
     if (!hasTokens) {
@@ -179,15 +212,19 @@ async function topLevelInit() {
     // Set up automatic token refresh
     await tokenManager.setupAutomaticRefresh();
     console.log('⏰ Automatic token refresh enabled');
+
+    // Drop processed-message ledger entries past their TTL
+    messageLedger.setupAutomaticPruning();
+    pendingReplyQueue.setupAutomaticPruning();
     
-    // Initialize Gmail monitor only if tokens are available
+    // Initialize Gmail monitors only if tokens are available
     const gmailInitialized = await initializeGmailMonitor();
     if (!gmailInitialized) {
       console.warn('⚠️  Failed to initialize Gmail monitor, but server will continue');
       return; // Don't throw error, just return
     }
     
-    console.log('✅ Gmail monitor initialized successfully');
+    console.log(`✅ Gmail monitors initialized for ${mailboxScheduler.getStatus().length} mailbox(es)`);
   } catch (err) {
     console.warn('⚠️  Error during initialization, but server will continue:', err);
     // Don't throw the error, just log it
@@ -313,7 +350,7 @@ app.post('/mcp', jwtAuthMiddleware.authenticateJWT, async (req: AuthenticatedReq
       res.write(`data: ${JSON.stringify(initialResponse)}\n\n`);
 
       // Start the email monitoring
-      gmailMonitor.startPolling(30000);
+      await mailboxScheduler.start(30000);
 
       // Keep connection alive and send notifications
       const keepAliveInterval = setInterval(() => {
@@ -346,7 +383,9 @@ app.post('/mcp', jwtAuthMiddleware.authenticateJWT, async (req: AuthenticatedReq
         isStreamingMode = false;
         streamingRes = null;
         clearInterval(keepAliveInterval);
-        gmailMonitor.stopPolling();
+        mailboxScheduler.stop().catch(error => {
+          console.error('Error stopping mailbox scheduler:', error);
+        });
       });
 
     } else if (isStreamingMode) {
@@ -518,13 +557,15 @@ export default app;
 // Handle graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\nReceived SIGINT, shutting down gracefully...');
-  gmailMonitor.stopPolling();
+  await mailboxScheduler.stop();
+  await pullSubscriber?.stop();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('\nReceived SIGTERM, shutting down gracefully...');
-  gmailMonitor.stopPolling();
+  await mailboxScheduler.stop();
+  await pullSubscriber?.stop();
   process.exit(0);
 });
 
@@ -0,0 +1,97 @@
+import { randomUUID } from 'crypto';
+import { calendar_v3 } from 'googleapis';
+import { BookedMeeting, EmailAddress, MeetingRequestContext } from './types';
+import { MeetingSlot, slotsFromMeetingContext } from './meeting-slots';
+import { buildInviteCalendar, isConfirmation, meetingSummary, CalendarDocument } from './ics-generator';
+
+// Private extended property tying a calendar event to the Gmail thread it was scheduled in
+export const THREAD_ID_PROPERTY = 'mcpThreadId';
+
+export interface MeetingBookingInput {
+  threadId: string;
+  subject: string;
+  slot: MeetingSlot;
+  attendees: EmailAddress[];
+  notes?: string;
+  addMeetLink: boolean;
+}
+
+/**
+ * The slot a counterpart confirmed, or null unless the context confirms exactly one time
+ */
+export function confirmedSlot(context: MeetingRequestContext): MeetingSlot | null {
+  const slots = slotsFromMeetingContext(context);
+  return isConfirmation(context) && slots.length === 1 ? slots[0]! : null;
+}
+
+export function gmailThreadLink(threadId: string): string {
+  return `https://mail.google.com/mail/u/0/#all/${threadId}`;
+}
+
+/**
+ * The Calendar API event resource for a confirmed meeting: everyone on the thread is invited,
+ * the description links back to the email thread, and a Meet conference is requested if asked for
+ */
+export function buildEventResource(input: MeetingBookingInput): Record<string, unknown> {
+  const link = `Scheduled by email: ${gmailThreadLink(input.threadId)}`;
+  return {
+    summary: meetingSummary(input.subject),
+    description: input.notes ? `${input.notes}\n\n${link}` : link,
+    start: { dateTime: input.slot.start.toISOString() },
+    end: { dateTime: input.slot.end.toISOString() },
+    attendees: input.attendees.map(attendee => ({
+      email: attendee.email,
+      ...(attendee.name ? { displayName: attendee.name } : {}),
+    })),
+    extendedProperties: { private: { [THREAD_ID_PROPERTY]: input.threadId } },
+    ...(input.addMeetLink ? {
+      conferenceData: {
+        createRequest: { requestId: randomUUID(), conferenceSolutionKey: { type: 'hangoutsMeet' } },
+      },
+    } : {}),
+  };
+}
+
+/**
+ * A Calendar API event as a BookedMeeting
+ */
+export function toBookedMeeting(item: calendar_v3.Schema$Event): BookedMeeting {
+  const video = (item.conferenceData?.entryPoints || []).find(entry => entry.entryPointType === 'video');
+  const meetLink = item.hangoutLink || video?.uri;
+  return {
+    eventId: item.id || '',
+    iCalUID: item.iCalUID || '',
+    htmlLink: item.htmlLink || '',
+    summary: item.summary || '',
+    description: item.description || '',
+    start: new Date(item.start?.dateTime ?? ''),
+    end: new Date(item.end?.dateTime ?? ''),
+    attendees: (item.attendees || []).map(attendee => ({ name: attendee.displayName || '', email: attendee.email || '' })),
+    ...(meetLink ? { meetLink } : {}),
+  };
+}
+
+/**
+ * The invite for a booked meeting, with the calendar event's UID so the recipient's copy and
+ * the organizer's event stay one and the same
+ */
+export function bookedMeetingCalendar(meeting: BookedMeeting, organizer: EmailAddress): CalendarDocument {
+  return buildInviteCalendar({
+    uid: meeting.iCalUID,
+    start: meeting.start,
+    end: meeting.end,
+    summary: meeting.summary,
+    ...(meeting.description ? { description: meeting.description } : {}),
+    ...(meeting.meetLink ? { location: meeting.meetLink } : {}),
+    organizer,
+    attendees: meeting.attendees.filter(attendee => attendee.email.toLowerCase() !== organizer.email.toLowerCase()),
+  });
+}
+
+/**
+ * Add the Meet link of a booked meeting to a reply body
+ */
+export function appendMeetingDetails(body: string, meeting: BookedMeeting | null): string {
+  if (!meeting?.meetLink) return body;
+  return `${body.trimEnd()}\n\nJoin with Google Meet: ${meeting.meetLink}`;
+}
@@ -1,6 +1,14 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { MeetingRequestContext } from './gmail-monitor';
-import { CalendarEvent } from './types';
+import { CalendarEvent, SchedulingPreferences } from './types';
+import { describeSchedulingPreferences, getDefaultSchedulingPreferences } from './scheduling-preferences';
+
+// Prompt section with the earlier messages of the thread, so replies like "the second option works"
+// can be resolved against what was proposed before
+function buildThreadSection(threadContext?: string): string {
+  if (!threadContext) return '';
+  return `\n\nEARLIER MESSAGES IN THIS THREAD (oldest first; "You" is the user we act for, "Counterpart" is the other party):\n---\n${threadContext}\n---\nUse this history to resolve references in the latest message (e.g. "the second option", "that time works") against times proposed earlier, and to recognise confirmations and counter-proposals.`;
+}
 
 export class MeetingIntentDetector {
   private anthropic: Anthropic;
@@ -13,10 +21,10 @@ export class MeetingIntentDetector {
     this.anthropic = new Anthropic({ apiKey: key });
   }
 
-  async checkIfMessageMeetingRelated(emailText: string, today: string, timeZone: string): Promise<Array<string>> {
+  async checkIfMessageMeetingRelated(emailText: string, today: string, timeZone: string, threadContext?: string): Promise<Array<string>> {
     const prompt = `You are an intelligent assistant who can parse strings and check if they relate to meetings or not. 
 
-Given the following email text: "${emailText}"
+Given the following email text: "${emailText}"${buildThreadSection(threadContext)}
 Date: ${today}
 Timezone: ${timeZone}
 
@@ -46,26 +54,43 @@ Respond with the parsed dates if the message is meeting-related, or an empty lis
   }
 
 
-  async getMeetingRequestContext(emailText: string, today: string, timeZone: string, busyEvents?: CalendarEvent[]): Promise<MeetingRequestContext> {
+  async getMeetingRequestContext(
+    emailText: string,
+    today: string,
+    timeZone: string,
+    busyEvents?: CalendarEvent[],
+    threadContext?: string,
+    preferences: SchedulingPreferences = getDefaultSchedulingPreferences()
+  ): Promise<MeetingRequestContext> {
     // Build busy events section for the prompt
     let busyEventsSection = '';
-    if (busyEvents && busyEvents.length > 0) {
-      const formattedEvents = busyEvents.map(event => {
-        // Parse the ISO time and format it nicely
-        const start = new Date(event.start.dateTime);
-        const end = new Date(event.end.dateTime);
-        const date = start.toISOString().split('T')[0]; // YYYY-MM-DD
-        const startTime = start.toTimeString().substring(0, 5); // HH:MM
-        const endTime = end.toTimeString().substring(0, 5); // HH:MM
-        const summary = event.summary || 'Busy';
-        return `${date} ${startTime}-${endTime}: ${summary}`;
-      }).join('\n');
+    const formatEvent = (event: CalendarEvent): string => {
+      // Parse the ISO time and format it nicely
+      const start = new Date(event.start.dateTime);
+      const end = new Date(event.end.dateTime);
+      const date = start.toISOString().split('T')[0]; // YYYY-MM-DD
+      const startTime = start.toTimeString().substring(0, 5); // HH:MM
+      const endTime = end.toTimeString().substring(0, 5); // HH:MM
+      const summary = event.summary || 'Busy';
+      return `${date} ${startTime}-${endTime}: ${summary}`;
+    };
+    const firmEvents = (busyEvents || []).filter(event => !event.hold);
+    const holds = (busyEvents || []).filter(event => event.hold);
+    if (firmEvents.length > 0) {
+      const formattedEvents = firmEvents.map(formatEvent).join('\n');
       
       busyEventsSection = `\n\nBUSY TIME SLOTS (avoid these times):\n${formattedEvents}\n\nIMPORTANT: Do NOT schedule meetings during any of these busy times. Suggest alternative times that avoid conflicts.`;
+    }
+    if (holds.length > 0) {
+      // Holds are times already offered to other people: soft conflicts, ranked below real events
+      busyEventsSection += `\n\nTENTATIVELY HELD SLOTS (already offered to someone else):\n${holds.map(formatEvent).join('\n')}\n\nPrefer other times; suggest a held slot only when no other time works.`;
+    }
+    if (busyEventsSection) {
       console.log('[For Claude API] Busy events section:', busyEventsSection);
     }
+    const preferencesSection = `\n\nTHE USER'S SCHEDULING PREFERENCES (only suggest times that follow all of these):\n${describeSchedulingPreferences(preferences)}`;
 
-    const prompt = `You are a smart assistant that helps schedule meetings.\n\nGiven the following message:\n---\n"${emailText}"\n---\nin time zone: ${timeZone}\nAssume today's date is: ${today}${busyEventsSection}\n\nPlease perform the following:\n1. Classify the **meeting intent**: is the user confirming a time, requesting a time, proposing multiple times, cancelling, rescheduling, or being vague?\n2. Identify the **meeting type or context** if it's apparent: e.g., lunch, dinner, interview, sync, casual catch-up.\n3. Extract any preferred meeting windows (dates, days, time ranges) if mentioned.\n4. If a specific time is mentioned in the message AND it does NOT conflict with busy times, return that time.\n5. If the requested time conflicts with busy slots or no specific time is mentioned, recommend 2-3 alternative time slots during business hours (9 AM - 6 PM) that avoid all busy periods.\n6. Use the default meeting interval of 30 minutes for suggestions.\n7. Output all times in the same time zone the message came from.\n8. Return output in **strict JSON**, no markdown, no extra text, no code blocks.\n\nJSON format:\n{\n  "extracted_preferences": {\n    "date_range": ["2025-07-24"],\n    "preferred_days": ["Thursday"],\n    "preferred_time": "3:00 PM"\n  },\n  "suggested_meeting_times": [\n    {\n      "date": "2025-07-24",\n      "time_slots": ["15:00-15:30"],\n      "timezone": "-07:00"\n    }\n  ],\n  "meeting_context": {\n    "intent": "propose",\n    "meeting_type": "lunch",\n    "mentions_slots": true,\n    "user_action_required": "confirm"\n  },\n  "meeting_duration": "30 minutes",\n  "notes": "User proposed Monday 3 PM for lunch"\n}`;
+    const prompt = `You are a smart assistant that helps schedule meetings.\n\nGiven the following message:\n---\n"${emailText}"\n---\nin time zone: ${timeZone}\nAssume today's date is: ${today}${buildThreadSection(threadContext)}${busyEventsSection}${preferencesSection}\n\nPlease perform the following:\n1. Classify the **meeting intent**: is the user confirming a time (including one proposed earlier in the thread), requesting a time, proposing multiple times, counter-proposing, cancelling, rescheduling, or being vague?\n2. Identify the **meeting type or context** if it's apparent: e.g., lunch, dinner, interview, sync, casual catch-up.\n3. Extract any preferred meeting windows (dates, days, time ranges) if mentioned.\n4. If a specific time is mentioned in the message AND it does NOT conflict with busy times, return that time.\n5. If the requested time conflicts with busy slots or no specific time is mentioned, recommend 2-3 alternative time slots within the user's working hours that avoid all busy periods.\n6. Use the default meeting length of ${preferences.default_duration_minutes} minutes for suggestions unless the message asks for another length.\n7. Output all times in the same time zone the message came from.\n8. Return output in **strict JSON**, no markdown, no extra text, no code blocks.\n\nJSON format:\n{\n  "extracted_preferences": {\n    "date_range": ["2025-07-24"],\n    "preferred_days": ["Thursday"],\n    "preferred_time": "3:00 PM"\n  },\n  "suggested_meeting_times": [\n    {\n      "date": "2025-07-24",\n      "time_slots": ["15:00-15:30"],\n      "timezone": "-07:00"\n    }\n  ],\n  "meeting_context": {\n    "intent": "propose",\n    "meeting_type": "lunch",\n    "mentions_slots": true,\n    "user_action_required": "confirm"\n  },\n  "meeting_duration": "30 minutes",\n  "notes": "User proposed Monday 3 PM for lunch"\n}`;
 
     const model = 'claude-sonnet-4-20250514';
     try {
@@ -100,7 +125,8 @@ Respond with the parsed dates if the message is meeting-related, or an empty lis
   async generateEmailResponse(
     originalEmailText: string, 
     meetingContext: MeetingRequestContext,
-    senderName?: string
+    senderName?: string,
+    threadContext?: string
   ): Promise<string> {
     // Format available slots for the prompt
     const availableSlots = meetingContext.suggested_meeting_times.flatMap(time => 
@@ -119,7 +145,7 @@ Respond with the parsed dates if the message is meeting-related, or an empty lis
     const prompt = `You are an AI assistant helping to respond to meeting requests. Generate a professional, well-formatted email response.
 
 ORIGINAL EMAIL REQUEST:
-"${originalEmailText}"
+"${originalEmailText}"${buildThreadSection(threadContext)}
 
 MEETING CONTEXT:
 - Meeting Type: ${meetingType}
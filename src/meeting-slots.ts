@@ -0,0 +1,41 @@
+import { DateTime } from 'luxon';
+import { MeetingRequestContext } from './types';
+
+export interface MeetingSlot {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Normalise the time zones Claude returns (`+08:00`, `UTC+8`, `Z`, IANA names) to a Luxon zone
+ */
+export function toLuxonZone(timeZone: string): string {
+  const zone = (timeZone || '').trim();
+  if (!zone || zone === 'Z') return 'UTC';
+  if (/^[+-]\d{1,2}(:?\d{2})?$/.test(zone)) return `UTC${zone}`;
+  return zone;
+}
+
+/**
+ * Turn a date, an `HH:MM-HH:MM` range and a time zone into absolute times, or null if unparseable
+ */
+export function parseSlot(date: string, timeSlot: string, timeZone: string): MeetingSlot | null {
+  const [startTime, endTime] = timeSlot.split('-').map(part => part.trim());
+  if (!startTime || !endTime) return null;
+  const zone = toLuxonZone(timeZone);
+  const start = DateTime.fromISO(`${date}T${startTime}`, { zone });
+  const end = DateTime.fromISO(`${date}T${endTime}`, { zone });
+  if (!start.isValid || !end.isValid || end <= start) return null;
+  return { start: start.toJSDate(), end: end.toJSDate() };
+}
+
+/**
+ * Every suggested slot of a meeting context as absolute times, in the order Claude gave them
+ */
+export function slotsFromMeetingContext(context: MeetingRequestContext): MeetingSlot[] {
+  return context.suggested_meeting_times.flatMap(time =>
+    time.time_slots
+      .map(slot => parseSlot(time.date, slot, time.timezone))
+      .filter((slot): slot is MeetingSlot => slot !== null)
+  );
+}
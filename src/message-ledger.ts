@@ -0,0 +1,179 @@
+import 'dotenv/config';
+import { ProcessedMessageRecord, ProcessingOutcome } from './types';
+import { DynamoDBLedgerStorage } from './dynamodb-ledger-storage';
+import { FirestoreLedgerStorage } from './firestore-ledger-storage';
+
+export interface MessageLedgerStorage {
+  getRecord(userEmail: string, messageId: string): Promise<ProcessedMessageRecord | null>;
+  putRecord(record: ProcessedMessageRecord): Promise<void>;
+  listRecordsByOutcome(userEmail: string, outcome: ProcessingOutcome): Promise<ProcessedMessageRecord[]>;
+  // Delete records whose expires_at (epoch seconds) is before the given time; returns how many
+  deleteExpired(nowSeconds: number): Promise<number>;
+}
+
+/**
+ * An outcome could not be written to the ledger. Raised instead of being logged and dropped,
+ * since a message missing from the ledger is answered again after a restart.
+ */
+export class LedgerWriteError extends Error {
+  constructor(messageId: string, outcome: ProcessingOutcome, cause: unknown) {
+    super(`Could not record ${outcome} for message ${messageId}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = new.target.name;
+    (this as { cause?: unknown }).cause = cause;
+  }
+}
+
+export interface LedgerMessageRef {
+  userEmail: string;
+  messageId: string;
+  threadId: string;
+  sender: string;
+}
+
+export class InMemoryLedgerStorage implements MessageLedgerStorage {
+  private records: Map<string, ProcessedMessageRecord> = new Map();
+
+  async getRecord(userEmail: string, messageId: string): Promise<ProcessedMessageRecord | null> {
+    return this.records.get(`${userEmail}#${messageId}`) || null;
+  }
+
+  async putRecord(record: ProcessedMessageRecord): Promise<void> {
+    this.records.set(`${record.user_email}#${record.message_id}`, record);
+  }
+
+  async listRecordsByOutcome(userEmail: string, outcome: ProcessingOutcome): Promise<ProcessedMessageRecord[]> {
+    return Array.from(this.records.values()).filter(record => record.user_email === userEmail && record.outcome === outcome);
+  }
+
+  async deleteExpired(nowSeconds: number): Promise<number> {
+    let deleted = 0;
+    for (const [key, record] of this.records) {
+      if (record.expires_at < nowSeconds) {
+        this.records.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
+
+/**
+ * Durable ledger of processed Gmail messages so restarts and cold starts never
+ * re-process (and re-reply to) a message that was already handled.
+ */
+export class ProcessedMessageLedger {
+  private storage: MessageLedgerStorage;
+  private ttlSeconds: number;
+  private pruneInterval: NodeJS.Timeout | null = null;
+
+  constructor(storage: MessageLedgerStorage, ttlDays: number = parseInt(process.env['MESSAGE_LEDGER_TTL_DAYS'] || '30')) {
+    this.storage = storage;
+    this.ttlSeconds = ttlDays * 24 * 60 * 60;
+  }
+
+  /**
+   * Get the ledger entry for a message, ignoring entries past their TTL that have not been pruned yet
+   */
+  public async getRecord(userEmail: string, messageId: string): Promise<ProcessedMessageRecord | null> {
+    const record = await this.storage.getRecord(userEmail, messageId);
+    if (!record || record.expires_at < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return record;
+  }
+
+  public async hasProcessed(userEmail: string, messageId: string): Promise<boolean> {
+    const record = await this.getRecord(userEmail, messageId);
+    return record !== null && record.outcome !== 'deferred';
+  }
+
+  /**
+   * Record the latest processing outcome for a message, keeping its original created_at.
+   * Throws LedgerWriteError if storage fails.
+   */
+  public async recordOutcome(
+    ref: LedgerMessageRef,
+    outcome: ProcessingOutcome,
+    details: {
+      replyMessageId?: string | undefined;
+      draftId?: string | undefined;
+      skipReason?: string | undefined;
+      error?: string | undefined;
+    } = {}
+  ): Promise<void> {
+    try {
+      const existing = await this.storage.getRecord(ref.userEmail, ref.messageId);
+      const now = new Date();
+      const replyMessageId = details.replyMessageId || existing?.reply_message_id;
+      const draftId = details.draftId || existing?.draft_id;
+      const record: ProcessedMessageRecord = {
+        user_email: ref.userEmail,
+        message_id: ref.messageId,
+        thread_id: ref.threadId,
+        sender: ref.sender,
+        outcome,
+        ...(replyMessageId ? { reply_message_id: replyMessageId } : {}),
+        ...(draftId ? { draft_id: draftId } : {}),
+        ...(details.skipReason ? { skip_reason: details.skipReason } : {}),
+        ...(details.error ? { error: details.error } : {}),
+        created_at: existing?.created_at || now.toISOString(),
+        updated_at: now.toISOString(),
+        expires_at: Math.floor(now.getTime() / 1000) + this.ttlSeconds,
+      };
+      await this.storage.putRecord(record);
+    } catch (error) {
+      console.error(`❌ Error recording ${outcome} for message ${ref.messageId}:`, error);
+      throw new LedgerWriteError(ref.messageId, outcome, error);
+    }
+  }
+
+  /**
+   * Replies sent for a user since the given time, newest outcome per message
+   */
+  public async getRepliesSince(userEmail: string, since: Date): Promise<ProcessedMessageRecord[]> {
+    const replies = await this.storage.listRecordsByOutcome(userEmail, 'replied');
+    const sinceIso = since.toISOString();
+    return replies.filter(record => record.updated_at >= sinceIso);
+  }
+
+  public async pruneExpired(): Promise<number> {
+    const deleted = await this.storage.deleteExpired(Math.floor(Date.now() / 1000));
+    if (deleted > 0) {
+      console.log(`🧹 Pruned ${deleted} expired message ledger record(s)`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Prune expired records periodically (backends without native TTL rely on this)
+   */
+  public setupAutomaticPruning(intervalMs: number = 6 * 60 * 60 * 1000): void {
+    if (this.pruneInterval) {
+      clearInterval(this.pruneInterval);
+    }
+    this.pruneInterval = setInterval(async () => {
+      try {
+        await this.pruneExpired();
+      } catch (error) {
+        console.error('❌ Error pruning message ledger:', error);
+      }
+    }, intervalMs);
+    console.log(`⏰ Message ledger pruning scheduled every ${intervalMs / (60 * 60 * 1000)} hours`);
+  }
+}
+
+/**
+ * Pick the ledger backend from STORAGE_BACKEND (dynamodb, firestore or memory)
+ */
+export function createLedgerStorage(backend: string = process.env['STORAGE_BACKEND'] || 'dynamodb'): MessageLedgerStorage {
+  switch (backend) {
+    case 'firestore':
+      return new FirestoreLedgerStorage();
+    case 'memory':
+      return new InMemoryLedgerStorage();
+    default:
+      return new DynamoDBLedgerStorage();
+  }
+}
+
+export const messageLedger = new ProcessedMessageLedger(createLedgerStorage());
@@ -0,0 +1,131 @@
+import 'dotenv/config';
+import { MessageQueueStats } from './types';
+
+export interface MessageWorkQueueOptions {
+  // Messages processed at the same time
+  concurrency: number;
+  // Messages waiting for a worker before enqueue() makes the producer wait
+  maxSize: number;
+  now: () => number;
+}
+
+export interface QueuedMessage {
+  messageId: string;
+  // Settles once a worker has processed the message, rejecting with the worker's error
+  done: Promise<void>;
+}
+
+interface Job {
+  messageId: string;
+  enqueuedAt: number;
+  done: Promise<void>;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+// Latencies kept for the rolling average in getStats()
+const LATENCY_SAMPLE_SIZE = 50;
+
+export function getMessageWorkQueueOptions(): MessageWorkQueueOptions {
+  return {
+    concurrency: parseInt(process.env['MESSAGE_WORKER_CONCURRENCY'] || '2'),
+    maxSize: parseInt(process.env['MESSAGE_QUEUE_MAX_SIZE'] || '100'),
+    now: Date.now,
+  };
+}
+
+/**
+ * Bounded queue of Gmail message IDs drained by a fixed pool of workers. A message that is
+ * already queued or being processed is not queued again, and producers wait while the queue is full.
+ */
+export class MessageWorkQueue {
+  private worker: (messageId: string) => Promise<void>;
+  private options: MessageWorkQueueOptions;
+  private pending: Job[] = [];
+  private active: Map<string, Job> = new Map();
+  private spaceWaiters: Array<() => void> = [];
+  private processed: number = 0;
+  private failed: number = 0;
+  private latencies: number[] = [];
+
+  constructor(worker: (messageId: string) => Promise<void>, options: Partial<MessageWorkQueueOptions> = {}) {
+    this.worker = worker;
+    this.options = { ...getMessageWorkQueueOptions(), ...options };
+  }
+
+  /**
+   * Add a message, waiting for room if the queue is full. Resolves once the message is
+   * accepted; await `done` on the result for its processing to finish.
+   */
+  public async enqueue(messageId: string): Promise<QueuedMessage> {
+    const existing = this.findJob(messageId);
+    if (existing) return { messageId, done: existing.done };
+
+    while (this.pending.length >= Math.max(1, this.options.maxSize)) {
+      await new Promise<void>(resolve => this.spaceWaiters.push(resolve));
+      // Another producer may have queued the same message while this one waited
+      const queued = this.findJob(messageId);
+      if (queued) return { messageId, done: queued.done };
+    }
+
+    let resolve!: () => void;
+    let reject!: (error: unknown) => void;
+    const done = new Promise<void>((res, rej) => { resolve = res; reject = rej; });
+    // Producers that stop waiting must not leave an unhandled rejection behind
+    done.catch(() => undefined);
+    this.pending.push({ messageId, enqueuedAt: this.options.now(), done, resolve, reject });
+    this.startWorkers();
+    return { messageId, done };
+  }
+
+  public has(messageId: string): boolean {
+    return this.findJob(messageId) !== undefined;
+  }
+
+  public getStats(): MessageQueueStats {
+    const total = this.latencies.reduce((sum, latency) => sum + latency, 0);
+    return {
+      queued: this.pending.length,
+      active: this.active.size,
+      processed: this.processed,
+      failed: this.failed,
+      averageLatencyMs: this.latencies.length ? Math.round(total / this.latencies.length) : null,
+      lastLatencyMs: this.latencies[this.latencies.length - 1] ?? null,
+    };
+  }
+
+  private findJob(messageId: string): Job | undefined {
+    return this.active.get(messageId) || this.pending.find(job => job.messageId === messageId);
+  }
+
+  private startWorkers(): void {
+    while (this.active.size < Math.max(1, this.options.concurrency) && this.pending.length) {
+      const job = this.pending.shift()!;
+      this.active.set(job.messageId, job);
+      this.spaceWaiters.shift()?.();
+      void this.run(job);
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    try {
+      await this.worker(job.messageId);
+      this.processed++;
+      job.resolve();
+    } catch (error) {
+      this.failed++;
+      job.reject(error);
+    } finally {
+      this.recordLatency(this.options.now() - job.enqueuedAt);
+      this.active.delete(job.messageId);
+      this.startWorkers();
+    }
+  }
+
+  private recordLatency(latencyMs: number): void {
+    this.latencies.push(latencyMs);
+    if (this.latencies.length > LATENCY_SAMPLE_SIZE) {
+      this.latencies.shift();
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import { randomBytes } from 'crypto';
+import { EmailAddress } from './types';
+
+const CRLF = '\r\n';
+// Quoted-printable and base64 lines stay within the RFC 2045 limit of 76 characters
+const MAX_LINE_LENGTH = 76;
+// UTF-8 bytes per encoded word, so `=?UTF-8?B?...?=` stays within 75 characters (RFC 2047)
+const MAX_ENCODED_WORD_BYTES = 45;
+
+export interface MimeAttachment {
+  filename: string;
+  mimeType: string;
+  content: Buffer | string;
+  disposition?: 'attachment' | 'inline';
+  contentId?: string;
+}
+
+export interface MimeMessageOptions {
+  from?: EmailAddress | string;
+  to: Array<EmailAddress | string>;
+  cc?: Array<EmailAddress | string>;
+  bcc?: Array<EmailAddress | string>;
+  replyTo?: Array<EmailAddress | string>;
+  subject: string;
+  text: string;
+  html?: string;
+  date?: Date;
+  messageId?: string;
+  // Message-ID of the message being replied to
+  inReplyTo?: string;
+  // Full chain: the original's References followed by its Message-ID
+  references?: string[];
+  // Extra headers such as Auto-Submitted, written as given
+  headers?: Record<string, string>;
+  attachments?: MimeAttachment[];
+  // iCalendar body shown inline by mail clients (RFC 6047), added as a text/calendar alternative
+  calendar?: { method: string; content: string };
+}
+
+interface MimePart {
+  headers: string[];
+  body: string;
+}
+
+export function randomBoundary(): string {
+  return `----=_Part_${randomBytes(12).toString('hex')}`;
+}
+
+/**
+ * Build an RFC 5322 message with CRLF line endings: encoded-word headers, quoted-printable
+ * text, and multipart/alternative and multipart/mixed parts as needed.
+ * Pass `createBoundary` to get deterministic output (for tests).
+ */
+export function buildMimeMessage(options: MimeMessageOptions, createBoundary: () => string = randomBoundary): string {
+  const headers: string[] = [];
+  if (options.from) headers.push(`From: ${formatAddress(options.from)}`);
+  headers.push(`To: ${formatAddressList(options.to)}`);
+  if (options.cc?.length) headers.push(`Cc: ${formatAddressList(options.cc)}`);
+  // Gmail delivers to Bcc recipients and strips the header from the sent message
+  if (options.bcc?.length) headers.push(`Bcc: ${formatAddressList(options.bcc)}`);
+  if (options.replyTo?.length) headers.push(`Reply-To: ${formatAddressList(options.replyTo)}`);
+  headers.push(`Subject: ${encodeHeaderValue(options.subject)}`);
+  if (options.date) headers.push(`Date: ${options.date.toUTCString().replace('GMT', '+0000')}`);
+  if (options.messageId) headers.push(`Message-ID: ${normalizeMessageId(options.messageId)}`);
+  if (options.inReplyTo) headers.push(`In-Reply-To: ${normalizeMessageId(options.inReplyTo)}`);
+  const references = buildReferences(options.references || [], options.inReplyTo);
+  if (references.length) headers.push(`References: ${references.join(`${CRLF} `)}`);
+  for (const [name, value] of Object.entries(options.headers || {})) {
+    headers.push(`${name}: ${value}`);
+  }
+  headers.push('MIME-Version: 1.0');
+
+  const content = buildContentPart(options, createBoundary);
+  return [...headers, ...content.headers].join(CRLF) + CRLF + CRLF + content.body + CRLF;
+}
+
+/**
+ * Encode a message for the Gmail API `raw` field
+ */
+export function toBase64Url(message: string): string {
+  return Buffer.from(message, 'utf-8').toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function buildContentPart(options: MimeMessageOptions, createBoundary: () => string): MimePart {
+  const textPart: MimePart = {
+    headers: ['Content-Type: text/plain; charset=UTF-8', 'Content-Transfer-Encoding: quoted-printable'],
+    body: encodeQuotedPrintable(options.text),
+  };
+  const alternatives: MimePart[] = [];
+  if (options.html) {
+    alternatives.push({
+      headers: ['Content-Type: text/html; charset=UTF-8', 'Content-Transfer-Encoding: quoted-printable'],
+      body: encodeQuotedPrintable(options.html),
+    });
+  }
+  if (options.calendar) {
+    alternatives.push({
+      headers: [
+        `Content-Type: text/calendar; charset=UTF-8; method=${options.calendar.method}`,
+        'Content-Transfer-Encoding: base64',
+      ],
+      body: wrapLines(Buffer.from(options.calendar.content, 'utf-8').toString('base64')),
+    });
+  }
+  const bodyPart = alternatives.length
+    ? buildMultipart('alternative', [textPart, ...alternatives], createBoundary())
+    : textPart;
+
+  if (!options.attachments?.length) {
+    return bodyPart;
+  }
+  return buildMultipart('mixed', [bodyPart, ...options.attachments.map(buildAttachmentPart)], createBoundary());
+}
+
+function buildMultipart(subtype: 'alternative' | 'mixed', parts: MimePart[], boundary: string): MimePart {
+  const body = parts
+    .map(part => `--${boundary}${CRLF}${part.headers.join(CRLF)}${CRLF}${CRLF}${part.body}`)
+    .join(CRLF);
+  return {
+    headers: [`Content-Type: multipart/${subtype}; boundary="${boundary}"`],
+    body: `${body}${CRLF}--${boundary}--`,
+  };
+}
+
+function buildAttachmentPart(attachment: MimeAttachment): MimePart {
+  const content = typeof attachment.content === 'string' ? Buffer.from(attachment.content, 'utf-8') : attachment.content;
+  const headers = [
+    `Content-Type: ${attachment.mimeType}; ${formatParameter('name', attachment.filename)}`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: ${attachment.disposition || 'attachment'}; ${formatParameter('filename', attachment.filename)}`,
+  ];
+  if (attachment.contentId) headers.push(`Content-ID: ${normalizeMessageId(attachment.contentId)}`);
+  return { headers, body: wrapLines(content.toString('base64')) };
+}
+
+/**
+ * Encode a header value as RFC 2047 encoded words if it is not plain ASCII
+ */
+export function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+  // Split on code points so multi-byte characters never straddle two encoded words
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of Array.from(value)) {
+    if (Buffer.byteLength(chunk + char, 'utf-8') > MAX_ENCODED_WORD_BYTES) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+  return words.map(word => `=?UTF-8?B?${Buffer.from(word, 'utf-8').toString('base64')}?=`).join(`${CRLF} `);
+}
+
+export function formatAddress(address: EmailAddress | string): string {
+  if (typeof address === 'string') return address;
+  if (!address.name) return address.email;
+  let name: string;
+  if (!/^[\x20-\x7e]*$/.test(address.name)) {
+    name = encodeHeaderValue(address.name);
+  } else if (/^[A-Za-z0-9!#$%&'*+\-/=?^_`{|}~ ]+$/.test(address.name)) {
+    name = address.name;
+  } else {
+    name = `"${address.name.replace(/(["\\])/g, '\\$1')}"`;
+  }
+  return `${name} <${address.email}>`;
+}
+
+function formatAddressList(addresses: Array<EmailAddress | string>): string {
+  return addresses.map(formatAddress).join(', ');
+}
+
+export function normalizeMessageId(id: string): string {
+  const trimmed = id.trim();
+  return trimmed.startsWith('<') ? trimmed : `<${trimmed}>`;
+}
+
+function buildReferences(references: string[], inReplyTo?: string): string[] {
+  const ids = references.flatMap(ref => ref.split(/\s+/)).filter(ref => ref).map(normalizeMessageId);
+  if (inReplyTo) {
+    const parent = normalizeMessageId(inReplyTo);
+    if (!ids.includes(parent)) ids.push(parent);
+  }
+  return Array.from(new Set(ids));
+}
+
+// ASCII filenames are quoted; others use the RFC 2231 form
+function formatParameter(name: string, value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return `${name}="${value.replace(/(["\\])/g, '\\$1')}"`;
+  }
+  const encoded = encodeURIComponent(value).replace(/['()*!]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${name}*=UTF-8''${encoded}`;
+}
+
+/**
+ * Quoted-printable encode UTF-8 text (RFC 2045), normalising line endings to CRLF
+ */
+export function encodeQuotedPrintable(text: string): string {
+  return text.replace(/\r\n?/g, '\n').split('\n').map(encodeQuotedPrintableLine).join(CRLF);
+}
+
+function encodeQuotedPrintableLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf-8');
+  const tokens: string[] = [];
+  bytes.forEach((byte, index) => {
+    const isLast = index === bytes.length - 1;
+    if ((byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast)) {
+      tokens.push(String.fromCharCode(byte));
+    } else {
+      tokens.push(`=${byte.toString(16).toUpperCase().padStart(2, '0')}`);
+    }
+  });
+
+  // Soft line breaks (`=`) keep each line within the limit without splitting an escape
+  const lines: string[] = [];
+  let current = '';
+  for (const token of tokens) {
+    if (current.length + token.length > MAX_LINE_LENGTH - 1) {
+      lines.push(`${current}=`);
+      current = '';
+    }
+    current += token;
+  }
+  lines.push(current);
+  return lines.join(CRLF);
+}
+
+function wrapLines(value: string): string {
+  const lines: string[] = [];
+  for (let i = 0; i < value.length; i += MAX_LINE_LENGTH) {
+    lines.push(value.slice(i, i + MAX_LINE_LENGTH));
+  }
+  return lines.join(CRLF);
+}
@@ -0,0 +1,155 @@
+import 'dotenv/config';
+import { randomUUID } from 'crypto';
+import { PendingReply, PendingReplyStatus } from './types';
+import { DynamoDBPendingReplyStorage } from './dynamodb-pending-reply-storage';
+import { FirestorePendingReplyStorage } from './firestore-pending-reply-storage';
+
+export interface PendingReplyStorage {
+  getReply(userEmail: string, replyId: string): Promise<PendingReply | null>;
+  putReply(reply: PendingReply): Promise<void>;
+  listReplies(userEmail: string): Promise<PendingReply[]>;
+  // Delete replies whose expires_at (epoch seconds) is before the given time; returns how many
+  deleteExpired(nowSeconds: number): Promise<number>;
+}
+
+export type NewPendingReply = Omit<PendingReply, 'reply_id' | 'status' | 'created_at' | 'updated_at' | 'expires_at'>;
+
+export class InMemoryPendingReplyStorage implements PendingReplyStorage {
+  private replies: Map<string, PendingReply> = new Map();
+
+  async getReply(userEmail: string, replyId: string): Promise<PendingReply | null> {
+    return this.replies.get(`${userEmail}#${replyId}`) || null;
+  }
+
+  async putReply(reply: PendingReply): Promise<void> {
+    this.replies.set(`${reply.user_email}#${reply.reply_id}`, reply);
+  }
+
+  async listReplies(userEmail: string): Promise<PendingReply[]> {
+    return Array.from(this.replies.values()).filter(reply => reply.user_email === userEmail);
+  }
+
+  async deleteExpired(nowSeconds: number): Promise<number> {
+    let deleted = 0;
+    for (const [key, reply] of this.replies) {
+      if (reply.expires_at < nowSeconds) {
+        this.replies.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
+
+/**
+ * Generated meeting replies held for the user's approval. Entries that are not
+ * approved or rejected within the TTL expire and are no longer sendable.
+ */
+export class PendingReplyQueue {
+  private storage: PendingReplyStorage;
+  private ttlSeconds: number;
+  private pruneInterval: NodeJS.Timeout | null = null;
+
+  constructor(storage: PendingReplyStorage, ttlHours: number = parseInt(process.env['PENDING_REPLY_TTL_HOURS'] || '72')) {
+    this.storage = storage;
+    this.ttlSeconds = ttlHours * 60 * 60;
+  }
+
+  public async enqueue(reply: NewPendingReply): Promise<PendingReply> {
+    const now = new Date();
+    const pending: PendingReply = {
+      ...reply,
+      user_email: reply.user_email.toLowerCase(),
+      reply_id: randomUUID(),
+      status: 'pending',
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+      expires_at: Math.floor(now.getTime() / 1000) + this.ttlSeconds,
+    };
+    await this.storage.putReply(pending);
+    console.log(`🗳️ Queued reply ${pending.reply_id} to ${pending.to} for approval`);
+    return pending;
+  }
+
+  /**
+   * Get a reply that is still waiting for approval, or null if it was resolved or has expired
+   */
+  public async getPending(userEmail: string, replyId: string): Promise<PendingReply | null> {
+    const reply = await this.storage.getReply(userEmail.toLowerCase(), replyId);
+    if (!reply || reply.status !== 'pending' || this.isExpired(reply)) {
+      return null;
+    }
+    return reply;
+  }
+
+  public async listPending(userEmail: string): Promise<PendingReply[]> {
+    const replies = await this.storage.listReplies(userEmail.toLowerCase());
+    return replies
+      .filter(reply => reply.status === 'pending' && !this.isExpired(reply))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  /**
+   * Record how a pending reply was resolved
+   */
+  public async resolve(
+    reply: PendingReply,
+    status: Exclude<PendingReplyStatus, 'pending'>,
+    details: { sentMessageId?: string | undefined; body?: string | undefined } = {}
+  ): Promise<PendingReply> {
+    const resolved: PendingReply = {
+      ...reply,
+      status,
+      ...(details.body ? { proposed_body: details.body } : {}),
+      ...(details.sentMessageId ? { sent_message_id: details.sentMessageId } : {}),
+      updated_at: new Date().toISOString(),
+    };
+    await this.storage.putReply(resolved);
+    return resolved;
+  }
+
+  public async pruneExpired(): Promise<number> {
+    const deleted = await this.storage.deleteExpired(Math.floor(Date.now() / 1000));
+    if (deleted > 0) {
+      console.log(`🧹 Pruned ${deleted} expired pending reply(s)`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Prune expired replies periodically (backends without native TTL rely on this)
+   */
+  public setupAutomaticPruning(intervalMs: number = 60 * 60 * 1000): void {
+    if (this.pruneInterval) {
+      clearInterval(this.pruneInterval);
+    }
+    this.pruneInterval = setInterval(async () => {
+      try {
+        await this.pruneExpired();
+      } catch (error) {
+        console.error('❌ Error pruning pending replies:', error);
+      }
+    }, intervalMs);
+    console.log(`⏰ Pending reply pruning scheduled every ${intervalMs / (60 * 1000)} minutes`);
+  }
+
+  private isExpired(reply: PendingReply): boolean {
+    return reply.expires_at < Math.floor(Date.now() / 1000);
+  }
+}
+
+/**
+ * Pick the pending reply backend from STORAGE_BACKEND (dynamodb, firestore or memory)
+ */
+export function createPendingReplyStorage(backend: string = process.env['STORAGE_BACKEND'] || 'dynamodb'): PendingReplyStorage {
+  switch (backend) {
+    case 'firestore':
+      return new FirestorePendingReplyStorage();
+    case 'memory':
+      return new InMemoryPendingReplyStorage();
+    default:
+      return new DynamoDBPendingReplyStorage();
+  }
+}
+
+export const pendingReplyQueue = new PendingReplyQueue(createPendingReplyStorage());
@@ -0,0 +1,75 @@
+import { PubSub, Subscription, Message } from '@google-cloud/pubsub';
+import { parseGmailPushNotification, GmailPushHandler } from './gmail-push-notification';
+import { GmailPushNotification } from './types';
+
+/**
+ * Consumes Gmail watch notifications from a Pub/Sub pull subscription and feeds them to the
+ * same handler as the /webhook/gmail push endpoint. Messages are acked once handled and nacked
+ * on failure so Pub/Sub redelivers them.
+ *
+ * Set PUBSUB_EMULATOR_HOST to run against the Pub/Sub emulator.
+ */
+export class PubSubPullSubscriber {
+  private pubsub: PubSub;
+  private subscription: Subscription | null = null;
+  private subscriptionName: string;
+  private handler: GmailPushHandler;
+
+  constructor(subscriptionName: string, handler: GmailPushHandler) {
+    const projectId = process.env['GOOGLE_CLOUD_PROJECT_ID'];
+    this.pubsub = new PubSub(projectId ? { projectId } : {});
+    this.subscriptionName = subscriptionName;
+    this.handler = handler;
+  }
+
+  public start(maxMessages: number = 10): void {
+    if (this.subscription) {
+      return;
+    }
+    this.subscription = this.pubsub.subscription(this.subscriptionName, {
+      flowControl: { maxMessages },
+    });
+    this.subscription.on('message', (message: Message) => this.handleMessage(message));
+    this.subscription.on('error', (error) => {
+      console.error(`❌ Pub/Sub subscription ${this.subscriptionName} error:`, error);
+    });
+    console.log(`📥 Pulling Gmail notifications from ${this.subscriptionName}`);
+  }
+
+  public async stop(): Promise<void> {
+    if (!this.subscription) {
+      return;
+    }
+    const subscription = this.subscription;
+    this.subscription = null;
+    subscription.removeAllListeners();
+    await subscription.close();
+    console.log(`🛑 Stopped pulling from ${this.subscriptionName}`);
+  }
+
+  public isRunning(): boolean {
+    return this.subscription !== null;
+  }
+
+  private async handleMessage(message: Message): Promise<void> {
+    let notification: GmailPushNotification;
+    try {
+      notification = parseGmailPushNotification(message.data.toString('utf-8'));
+    } catch (error) {
+      // Ack malformed messages so they are not redelivered forever
+      console.error(`❌ Ignoring undecodable Pub/Sub message ${message.id}:`, error);
+      message.ack();
+      return;
+    }
+
+    console.log(`📨 Pulled Gmail notification for ${notification.emailAddress} (historyId ${notification.historyId})`);
+
+    try {
+      await this.handler(notification);
+      message.ack();
+    } catch (error) {
+      console.error(`❌ Error processing Pub/Sub message ${message.id}, nacking:`, error);
+      message.nack();
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import 'dotenv/config';
+import { promises as fs } from 'fs';
+import { UserSettings } from './types';
+import { MeetingIntentDetector } from './meeting-intent-detector';
+import { FixtureCalendar, loadReplayMessages, replayMessages, formatReplaySummary } from './mail-replay';
+import { userSettingsManager } from './user-settings';
+
+const USAGE = `Usage: npm run replay -- --user <email> --calendar <events.json> [--settings <settings.json>]
+       [--timezone <+HH:MM>] [--out <report.json>] <file.eml|archive.mbox>...
+
+Runs meeting detection and slot planning over saved mail against a fixture calendar and
+writes what would have been replied. Nothing is ever sent.`;
+
+interface ReplayArgs {
+  user: string;
+  calendar: string;
+  settings?: string;
+  timezone?: string;
+  out: string;
+  files: string[];
+}
+
+function parseArgs(argv: string[]): ReplayArgs | null {
+  const values: Record<string, string> = {};
+  const files: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === '--help' || arg === '-h') return null;
+    if (arg.startsWith('--')) {
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`Missing value for ${arg}`);
+      values[arg.slice(2)] = value;
+    } else {
+      files.push(arg);
+    }
+  }
+  if (!values['user'] || !values['calendar'] || !files.length) return null;
+  return {
+    user: values['user'],
+    calendar: values['calendar'],
+    ...(values['settings'] ? { settings: values['settings'] } : {}),
+    ...(values['timezone'] ? { timezone: values['timezone'] } : {}),
+    out: values['out'] || 'replay-report.json',
+    files,
+  };
+}
+
+// Defaults as for a new user, overridden by an optional settings file (same fields as UserSettings)
+async function loadSettings(userEmail: string, file?: string): Promise<UserSettings> {
+  const defaults = userSettingsManager.getDefaults(userEmail);
+  const overrides: Partial<UserSettings> = file ? JSON.parse(await fs.readFile(file, 'utf-8')) : {};
+  return {
+    ...defaults,
+    ...overrides,
+    rules: { ...defaults.rules, ...overrides.rules },
+    reply_policy: { ...defaults.reply_policy, ...overrides.reply_policy },
+    scheduling: { ...defaults.scheduling, ...overrides.scheduling },
+  };
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  const messages = await loadReplayMessages(args.files, args.user);
+  console.log(`📂 Loaded ${messages.length} message(s) from ${args.files.length} file(s)`);
+  const settings = await loadSettings(args.user, args.settings);
+  const report = await replayMessages(messages, {
+    userEmail: args.user,
+    settings,
+    calendar: await FixtureCalendar.fromFile(args.calendar, settings.scheduling),
+    detector: new MeetingIntentDetector(),
+    ...(args.timezone ? { timeZone: args.timezone } : {}),
+  });
+
+  await fs.writeFile(args.out, JSON.stringify(report, null, 2));
+  console.log(`\n${formatReplaySummary(report)}`);
+  console.log(`\n📝 Replay report written to ${args.out}`);
+}
+
+main().catch(error => {
+  console.error('❌ Replay failed:', error);
+  process.exit(1);
+});
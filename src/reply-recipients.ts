@@ -0,0 +1,28 @@
+import { EmailAddress, EmailInfo, ReplyPolicy, ReplyRecipients } from './types';
+import { parseAddressList } from './gmail-message-parser';
+
+/**
+ * Work out who a reply goes to under the user's reply policy. The reply is addressed to
+ * the Reply-To (or From) of the original; reply-all copies everyone else on To and Cc.
+ * The user's own address is never included and nobody appears twice.
+ */
+export function resolveReplyRecipients(emailInfo: EmailInfo, policy: ReplyPolicy, userEmail: string): ReplyRecipients {
+  const seen = new Set<string>([userEmail.toLowerCase()]);
+  const take = (addresses: EmailAddress[]): EmailAddress[] => addresses.filter(address => {
+    const key = address.email.toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const primary = emailInfo.replyTo.length > 0 ? emailInfo.replyTo : emailInfo.from ? [emailInfo.from] : [];
+  const to = take(primary);
+  const cc = policy.recipients === 'reply_all' ? take([...emailInfo.to, ...emailInfo.cc]) : [];
+  cc.push(...take(policy.always_cc.flatMap(address => parseAddressList(address))));
+
+  // If the original came from the user, address the first other participant instead
+  if (to.length === 0 && cc.length > 0) {
+    to.push(cc.shift()!);
+  }
+  return { to, cc };
+}
@@ -0,0 +1,83 @@
+import 'dotenv/config';
+import { ParsedEmail } from './types';
+import { getHeader } from './gmail-message-parser';
+import { messageLedger, LedgerMessageRef } from './message-ledger';
+
+// Auto-Submitted value on every reply we send so other assistants (and our own monitor) recognise it as automated
+export const AUTO_SUBMITTED_REPLY = 'auto-replied';
+
+const BULK_PRECEDENCE = ['bulk', 'list', 'junk', 'auto_reply'];
+const NO_REPLY_LOCAL_PART = /^(no[-_.]?reply|do[-_.]?not[-_.]?reply|mailer-daemon|postmaster|bounces?)([-+_.].*)?$/i;
+
+export interface ReplyCapLimits {
+  perThread: number;
+  perSender: number;
+  windowMs: number;
+}
+
+export function getReplyCapLimits(): ReplyCapLimits {
+  return {
+    perThread: parseInt(process.env['REPLY_CAP_PER_THREAD'] || '3'),
+    perSender: parseInt(process.env['REPLY_CAP_PER_SENDER'] || '5'),
+    windowMs: parseInt(process.env['REPLY_CAP_WINDOW_HOURS'] || '24') * 60 * 60 * 1000,
+  };
+}
+
+/**
+ * Why a message must never get an automatic reply (out-of-office, mailing list, bounce,
+ * no-reply sender, another bot or the user's own mail), or null if it may.
+ */
+export function detectAutomatedMessage(message: ParsedEmail, userEmail: string): string | null {
+  const autoSubmitted = getHeader(message.headers, 'Auto-Submitted').trim().toLowerCase();
+  if (autoSubmitted && autoSubmitted !== 'no') {
+    return `auto-submitted:${autoSubmitted}`;
+  }
+
+  const precedence = getHeader(message.headers, 'Precedence').trim().toLowerCase();
+  if (BULK_PRECEDENCE.includes(precedence)) {
+    return `precedence:${precedence}`;
+  }
+
+  if (getHeader(message.headers, 'List-Id') || getHeader(message.headers, 'List-Unsubscribe')) {
+    return 'mailing-list';
+  }
+
+  if (getHeader(message.headers, 'X-Autoreply') || getHeader(message.headers, 'X-Autorespond')) {
+    return 'x-autoreply';
+  }
+
+  // An empty Return-Path marks bounces and other delivery notifications
+  const returnPath = message.headers.find(h => h.name.toLowerCase() === 'return-path');
+  if (returnPath && returnPath.value.trim() === '<>') {
+    return 'empty-return-path';
+  }
+
+  const sender = message.from?.email.toLowerCase() || '';
+  if (!sender) {
+    return 'no-sender';
+  }
+  if (sender === userEmail.toLowerCase()) {
+    return 'own-address';
+  }
+  if (NO_REPLY_LOCAL_PART.test(sender.split('@')[0] || '')) {
+    return 'no-reply-sender';
+  }
+  return null;
+}
+
+/**
+ * Why replying would exceed the per-thread or per-sender reply cap, or null if it would not
+ */
+export async function checkReplyCaps(ref: LedgerMessageRef, limits: ReplyCapLimits = getReplyCapLimits()): Promise<string | null> {
+  const replies = await messageLedger.getRepliesSince(ref.userEmail, new Date(Date.now() - limits.windowMs));
+  const threadReplies = replies.filter(record => record.thread_id === ref.threadId).length;
+  if (threadReplies >= limits.perThread) {
+    return `thread-cap:${threadReplies}`;
+  }
+  const sender = ref.sender.toLowerCase();
+  const senderReplies = replies.filter(record => record.sender.toLowerCase() === sender).length;
+  if (senderReplies >= limits.perSender) {
+    return `sender-cap:${senderReplies}`;
+  }
+  return null;
+}
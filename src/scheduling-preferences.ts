@@ -0,0 +1,318 @@
+import 'dotenv/config';
+import { DateTime } from 'luxon';
+import { BusyInterval, CalendarEvent, FreeSlot, SchedulingPreferences, TimeRange, Weekday } from './types';
+import { toLuxonZone } from './meeting-slots';
+
+// In Luxon weekday order (1 = Monday)
+export const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Preferences for users who have not set their own: weekdays 9:00-18:00 in DEFAULT_TIME_ZONE,
+ * 30-minute meetings with 5 minutes either side
+ */
+export function getDefaultSchedulingPreferences(): SchedulingPreferences {
+  const workday: TimeRange = { start: '09:00', end: '18:00' };
+  return {
+    time_zone: process.env['DEFAULT_TIME_ZONE'] || 'UTC',
+    working_hours: {
+      monday: { ...workday },
+      tuesday: { ...workday },
+      wednesday: { ...workday },
+      thursday: { ...workday },
+      friday: { ...workday },
+    },
+    default_duration_minutes: 30,
+    buffer_before_minutes: 5,
+    buffer_after_minutes: 5,
+    minimum_notice_hours: 0,
+    max_meetings_per_day: 0,
+    lunch: null,
+  };
+}
+
+/**
+ * Throw with every problem found, so a bad update is rejected before it is stored
+ */
+export function validateSchedulingPreferences(preferences: SchedulingPreferences): void {
+  const problems: string[] = [];
+  const checkRange = (name: string, range: TimeRange) => {
+    if (!TIME_OF_DAY.test(range.start) || !TIME_OF_DAY.test(range.end)) {
+      problems.push(`${name} must be HH:MM times`);
+    } else if (range.start >= range.end) {
+      problems.push(`${name} must end after it starts`);
+    }
+  };
+
+  if (!DateTime.local().setZone(preferences.time_zone).isValid) {
+    problems.push(`unknown time zone "${preferences.time_zone}"`);
+  }
+  for (const [day, range] of Object.entries(preferences.working_hours)) {
+    if (!WEEKDAYS.includes(day as Weekday)) {
+      problems.push(`unknown weekday "${day}"`);
+    } else if (range) {
+      checkRange(`${day} hours`, range);
+    }
+  }
+  if (preferences.lunch) {
+    checkRange('lunch', preferences.lunch);
+  }
+  if (!(preferences.default_duration_minutes > 0)) {
+    problems.push('default duration must be positive');
+  }
+  for (const [name, value] of [
+    ['buffer before', preferences.buffer_before_minutes],
+    ['buffer after', preferences.buffer_after_minutes],
+    ['minimum notice', preferences.minimum_notice_hours],
+    ['max meetings per day', preferences.max_meetings_per_day],
+  ] as const) {
+    if (!(value >= 0)) problems.push(`${name} must not be negative`);
+  }
+
+  if (problems.length) {
+    throw new Error(`Invalid scheduling preferences: ${problems.join('; ')}`);
+  }
+}
+
+// Fields left out are kept; a weekday set to null becomes a day off, lunch set to null is removed
+export interface SchedulingPreferencesUpdate {
+  time_zone?: string | undefined;
+  working_hours?: Partial<Record<Weekday, TimeRange | null | undefined>> | undefined;
+  default_duration_minutes?: number | undefined;
+  buffer_before_minutes?: number | undefined;
+  buffer_after_minutes?: number | undefined;
+  minimum_notice_hours?: number | undefined;
+  max_meetings_per_day?: number | undefined;
+  lunch?: TimeRange | null | undefined;
+}
+
+/**
+ * Apply a partial update and validate the result
+ */
+export function applySchedulingPreferencesUpdate(current: SchedulingPreferences, update: SchedulingPreferencesUpdate): SchedulingPreferences {
+  const workingHours = { ...current.working_hours };
+  for (const [day, hours] of Object.entries(update.working_hours || {})) {
+    if (hours === null) {
+      delete workingHours[day as Weekday];
+    } else if (hours) {
+      workingHours[day as Weekday] = hours;
+    }
+  }
+  const updated: SchedulingPreferences = {
+    ...current,
+    ...(update.time_zone !== undefined ? { time_zone: update.time_zone } : {}),
+    ...(update.default_duration_minutes !== undefined ? { default_duration_minutes: update.default_duration_minutes } : {}),
+    ...(update.buffer_before_minutes !== undefined ? { buffer_before_minutes: update.buffer_before_minutes } : {}),
+    ...(update.buffer_after_minutes !== undefined ? { buffer_after_minutes: update.buffer_after_minutes } : {}),
+    ...(update.minimum_notice_hours !== undefined ? { minimum_notice_hours: update.minimum_notice_hours } : {}),
+    ...(update.max_meetings_per_day !== undefined ? { max_meetings_per_day: update.max_meetings_per_day } : {}),
+    working_hours: workingHours,
+    lunch: update.lunch === undefined ? current.lunch : update.lunch,
+  };
+  validateSchedulingPreferences(updated);
+  return updated;
+}
+
+/**
+ * The working periods of a date (YYYY-MM-DD) in the user's time zone, with lunch cut out
+ */
+export function workingWindows(date: string, preferences: SchedulingPreferences): Array<{ start: DateTime; end: DateTime }> {
+  const day = DateTime.fromISO(date, { zone: preferences.time_zone });
+  if (!day.isValid) return [];
+  const hours = preferences.working_hours[WEEKDAYS[day.weekday - 1]!];
+  if (!hours) return [];
+
+  const at = (time: string) => {
+    const [hour, minute] = time.split(':').map(Number);
+    return day.set({ hour: hour ?? 0, minute: minute ?? 0, second: 0, millisecond: 0 });
+  };
+  let windows = [{ start: at(hours.start), end: at(hours.end) }];
+  if (preferences.lunch) {
+    const lunchStart = at(preferences.lunch.start);
+    const lunchEnd = at(preferences.lunch.end);
+    windows = windows.flatMap(window => [
+      { start: window.start, end: DateTime.min(window.end, lunchStart) },
+      { start: DateTime.max(window.start, lunchEnd), end: window.end },
+    ]);
+  }
+  return windows.filter(window => window.end > window.start);
+}
+
+/**
+ * The instants from the start of the earliest date (YYYY-MM-DD) to the end of the latest, in the
+ * user's time zone. Working hours are in that zone, so a UTC day would miss part of them.
+ */
+export function datesTimeRange(dates: string[], timeZone: string): { timeMin: Date; timeMax: Date } {
+  const sorted = [...dates].sort();
+  return {
+    timeMin: DateTime.fromISO(sorted[0] || '', { zone: timeZone }).startOf('day').toJSDate(),
+    timeMax: DateTime.fromISO(sorted[sorted.length - 1] || '', { zone: timeZone }).endOf('day').toJSDate(),
+  };
+}
+
+/**
+ * The dates (YYYY-MM-DD) in the user's time zone that an interval touches
+ */
+export function datesBetween(start: Date, end: Date, timeZone: string): string[] {
+  const first = DateTime.fromJSDate(start, { zone: timeZone }).startOf('day');
+  const last = DateTime.fromJSDate(end, { zone: timeZone });
+  const dates: string[] = [];
+  for (let day = first; day <= last; day = day.plus({ days: 1 })) {
+    dates.push(day.toISODate()!);
+  }
+  return dates;
+}
+
+/**
+ * Meetings per date in the user's time zone, for the daily limit. Holds do not count.
+ */
+export function countMeetingsByDay(events: CalendarEvent[], preferences: SchedulingPreferences): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    if (event.hold || !event.start?.dateTime) continue;
+    const date = DateTime.fromISO(event.start.dateTime).setZone(preferences.time_zone).toISODate();
+    if (date) counts.set(date, (counts.get(date) || 0) + 1);
+  }
+  return counts;
+}
+
+export interface FreeSlotInput {
+  dates: string[];
+  // Zone the slots are reported in; working hours always follow the preferences' zone
+  timeZone: string;
+  busy: BusyInterval[];
+  holds?: BusyInterval[];
+  preferences: SchedulingPreferences;
+  now: Date;
+  meetingsByDay?: Map<string, number>;
+}
+
+/**
+ * Meeting-length slots on a fixed grid through each working period, skipping slots too close
+ * to a busy interval (buffers), sooner than the minimum notice, or on days at the meeting limit.
+ * Slots overlapping a hold are kept and marked `held`.
+ */
+export function computeFreeSlots(input: FreeSlotInput): FreeSlot[] {
+  const { preferences } = input;
+  const blocked = blockedIntervals(input.busy, preferences);
+  const earliest = earliestStart(input);
+  const slots: FreeSlot[] = [];
+
+  for (const { start, end } of availableWindows(input)) {
+    for (let slotStart = start; ; slotStart = slotStart.plus({ minutes: preferences.default_duration_minutes })) {
+      const slotEnd = slotStart.plus({ minutes: preferences.default_duration_minutes });
+      if (slotEnd > end) break;
+      if (slotStart < earliest) continue;
+      const from = slotStart.toMillis();
+      const to = slotEnd.toMillis();
+      if (blocked.some(busy => from < busy.end && to > busy.start)) continue;
+      const held = (input.holds || []).some(hold => from < hold.end.getTime() && to > hold.start.getTime());
+      slots.push({ ...toFreeSlot(slotStart, slotEnd, input.timeZone, preferences), ...(held ? { held } : {}) });
+    }
+  }
+  return slots.sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+}
+
+/**
+ * Meeting-length slots laid out from the start of each gap between busy intervals, so a slot
+ * can begin right after a meeting (plus buffer) instead of on the next grid line
+ */
+export function computeFreeGaps(input: FreeSlotInput): FreeSlot[] {
+  const { preferences } = input;
+  const blocked = blockedIntervals(input.busy, preferences);
+  const slots: FreeSlot[] = [];
+  const fill = (from: DateTime, to: DateTime) => {
+    for (let slotStart = from; ; slotStart = slotStart.plus({ minutes: preferences.default_duration_minutes })) {
+      const slotEnd = slotStart.plus({ minutes: preferences.default_duration_minutes });
+      if (slotEnd > to) break;
+      slots.push(toFreeSlot(slotStart, slotEnd, input.timeZone, preferences));
+    }
+  };
+
+  const earliest = earliestStart(input);
+  for (const { start, end } of availableWindows(input)) {
+    let cursor = DateTime.max(start, earliest);
+    for (const busy of blocked) {
+      if (busy.end <= cursor.toMillis() || busy.start >= end.toMillis()) continue;
+      const busyStart = DateTime.fromMillis(busy.start, { zone: preferences.time_zone });
+      if (busyStart > cursor) fill(cursor, busyStart);
+      cursor = DateTime.max(cursor, DateTime.fromMillis(busy.end, { zone: preferences.time_zone }));
+    }
+    fill(cursor, end);
+  }
+  return slots.sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+}
+
+// Working periods of the requested dates that have not reached the daily meeting limit
+function availableWindows(input: FreeSlotInput): Array<{ start: DateTime; end: DateTime }> {
+  const limit = input.preferences.max_meetings_per_day;
+  return input.dates
+    .filter(date => !limit || (input.meetingsByDay?.get(date) || 0) < limit)
+    .flatMap(date => workingWindows(date, input.preferences));
+}
+
+// No slot may start sooner than the minimum notice
+function earliestStart(input: FreeSlotInput): DateTime {
+  const { preferences } = input;
+  return DateTime.fromMillis(input.now.getTime() + preferences.minimum_notice_hours * 60 * 60 * 1000, { zone: preferences.time_zone });
+}
+
+// Busy intervals widened by the buffers, sorted, in epoch milliseconds
+function blockedIntervals(busy: BusyInterval[], preferences: SchedulingPreferences): Array<{ start: number; end: number }> {
+  return busy
+    .map(interval => ({
+      start: interval.start.getTime() - preferences.buffer_after_minutes * 60 * 1000,
+      end: interval.end.getTime() + preferences.buffer_before_minutes * 60 * 1000,
+    }))
+    .sort((a, b) => a.start - b.start);
+}
+
+function toFreeSlot(start: DateTime, end: DateTime, timeZone: string, preferences: SchedulingPreferences): FreeSlot {
+  const requested = toLuxonZone(timeZone);
+  const zone = DateTime.local().setZone(requested).isValid ? requested : preferences.time_zone;
+  return { start: start.setZone(zone).toISO()!, end: end.setZone(zone).toISO()! };
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+/**
+ * The preferences as plain sentences, for prompts and tool output
+ */
+export function describeSchedulingPreferences(preferences: SchedulingPreferences): string {
+  // Runs of consecutive days with the same hours: "Monday-Friday 09:00-18:00"
+  const runs: Array<{ from: Weekday; to: Weekday; hours: TimeRange }> = [];
+  for (const day of WEEKDAYS) {
+    const hours = preferences.working_hours[day];
+    const last = runs[runs.length - 1];
+    const previous = WEEKDAYS[WEEKDAYS.indexOf(day) - 1];
+    if (!hours) continue;
+    if (last && last.to === previous && last.hours.start === hours.start && last.hours.end === hours.end) {
+      last.to = day;
+    } else {
+      runs.push({ from: day, to: day, hours });
+    }
+  }
+  const days = runs
+    .map(run => `${capitalize(run.from)}${run.to !== run.from ? `-${capitalize(run.to)}` : ''} ${run.hours.start}-${run.hours.end}`)
+    .join(', ');
+  const daysOff = WEEKDAYS.filter(day => !preferences.working_hours[day]).map(capitalize);
+
+  const lines = [
+    `- Working hours (${preferences.time_zone} time): ${days || 'none set'}${daysOff.length ? `; no meetings on ${daysOff.join(', ')}` : ''}`,
+  ];
+  if (preferences.lunch) {
+    lines.push(`- Lunch ${preferences.lunch.start}-${preferences.lunch.end} is kept free`);
+  }
+  lines.push(`- Default meeting length: ${preferences.default_duration_minutes} minutes`);
+  if (preferences.buffer_before_minutes || preferences.buffer_after_minutes) {
+    lines.push(`- Leave ${preferences.buffer_before_minutes} minutes free after the previous meeting and ${preferences.buffer_after_minutes} minutes before the next one`);
+  }
+  if (preferences.minimum_notice_hours) {
+    lines.push(`- Do not offer times less than ${preferences.minimum_notice_hours} hours from now`);
+  }
+  if (preferences.max_meetings_per_day) {
+    lines.push(`- At most ${preferences.max_meetings_per_day} meetings per day; do not offer days that already have that many`);
+  }
+  return lines.join('\n');
+}
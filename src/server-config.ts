@@ -0,0 +1,16 @@
+import 'dotenv/config';
+import { GmailNotificationMode, ServerConfig } from './types';
+
+/**
+ * Build the server configuration from environment variables
+ */
+export function getServerConfig(): ServerConfig {
+  return {
+    port: parseInt(process.env['MCP_SERVER_PORT'] || '3001'),
+    webhookPort: parseInt(process.env['WEBHOOK_PORT'] || '3002'),
+    gmailWatchTopic: process.env['GMAIL_WATCH_TOPIC'] || '',
+    gmailWatchSubscription: process.env['GMAIL_WATCH_SUBSCRIPTION'] || '',
+    tokenFilePath: process.env['TOKEN_FILE_PATH'] || '',
+    gmailNotificationMode: (process.env['GMAIL_NOTIFICATION_MODE'] as GmailNotificationMode) || 'poll',
+  };
+}
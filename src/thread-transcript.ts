@@ -0,0 +1,45 @@
+import { GmailMessage, ThreadTranscriptEntry } from './types';
+import { parseGmailMessage } from './gmail-message-parser';
+
+// Keep prompts bounded on long threads
+const MAX_TRANSCRIPT_MESSAGES = 10;
+const MAX_ENTRY_CHARS = 2000;
+
+/**
+ * Turn the messages of a Gmail thread into an ordered transcript of the messages that came
+ * before `currentMessageId`, marking which ones the user sent. Drafts are left out.
+ */
+export function buildThreadTranscript(messages: GmailMessage[], userEmail: string, currentMessageId?: string): ThreadTranscriptEntry[] {
+  const self = userEmail.toLowerCase();
+  const ordered = [...messages]
+    .filter(message => !(message.labelIds || []).includes('DRAFT'))
+    .sort((a, b) => Number(a.internalDate) - Number(b.internalDate));
+
+  const currentIndex = currentMessageId ? ordered.findIndex(message => message.id === currentMessageId) : -1;
+  const earlier = currentIndex >= 0 ? ordered.slice(0, currentIndex) : ordered;
+
+  return earlier.map(message => {
+    const parsed = parseGmailMessage(message);
+    const fromSelf = (message.labelIds || []).includes('SENT') || parsed.from?.email.toLowerCase() === self;
+    return {
+      messageId: parsed.id,
+      from: parsed.from,
+      fromSelf,
+      date: new Date(Number(parsed.internalDate)).toISOString(),
+      body: parsed.body,
+    };
+  });
+}
+
+/**
+ * Render a transcript for a Claude prompt, oldest first, keeping the most recent messages
+ */
+export function formatThreadTranscript(entries: ThreadTranscriptEntry[]): string {
+  return entries.slice(-MAX_TRANSCRIPT_MESSAGES).map(entry => {
+    const speaker = entry.fromSelf
+      ? 'You (the user we act for)'
+      : `Counterpart (${entry.from ? `${entry.from.name} <${entry.from.email}>`.trim() : 'unknown sender'})`;
+    const body = entry.body.length > MAX_ENTRY_CHARS ? `${entry.body.slice(0, MAX_ENTRY_CHARS)}…` : entry.body;
+    return `[${entry.date}] ${speaker}:\n${body}`;
+  }).join('\n\n');
+}
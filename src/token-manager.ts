@@ -2,6 +2,14 @@ import { TokenData } from './types';
 import { DynamoDBTokenStorage } from './dynamodb-token-storage';
 import { google } from 'googleapis';
 
+/**
+ * Tokens are keyed by normalized email, since JWT claims, storage records and Pub/Sub
+ * notifications don't agree on case
+ */
+function tokenKey(email: string): string {
+  return email.trim().toLowerCase();
+}
+
 export class TokenManager {
   private static instance: TokenManager;
   private tokens: Map<string, TokenData> = new Map();
@@ -42,7 +50,7 @@ export class TokenManager {
           token_uri: 'https://oauth2.googleapis.com/token'
         };
         
-        this.tokens.set(tokenRecord.email, tokenData);
+        this.tokens.set(tokenKey(tokenRecord.email), tokenData);
       });
       
       console.log(`✅ Loaded ${this.tokens.size} token(s) from DynamoDB`);
@@ -60,7 +68,7 @@ export class TokenManager {
     
     let token: TokenData | undefined;
     if (email) {
-      token = this.tokens.get(email);
+      token = this.tokens.get(tokenKey(email));
     } else {
       // Return first available token
       token = this.tokens.values().next().value;
@@ -99,6 +107,14 @@ export class TokenManager {
     return this.tokens.size;
   }
 
+  /**
+   * Reload tokens from storage and return the (lowercased) email of every authenticated user
+   */
+  public async getUserEmails(): Promise<string[]> {
+    await this.loadTokensFromDynamoDB();
+    return Array.from(this.tokens.keys());
+  }
+
   public isTokenExpired(token: TokenData): boolean {
     return Date.now() >= token.expiry_date;
   }
@@ -168,7 +184,7 @@ export class TokenManager {
       await this.updateTokenInDynamoDB(updatedToken);
       
       // Update in memory
-      this.tokens.set(token.user_email!, updatedToken);
+      this.tokens.set(tokenKey(token.user_email!), updatedToken);
       
       console.log(`✅ Successfully refreshed token for ${token.user_email}`);
       return updatedToken;
@@ -227,7 +243,7 @@ export class TokenManager {
   private async removeToken(userEmail: string): Promise<void> {
     try {
       await this.dynamoDBStorage.deleteTokens(userEmail);
-      this.tokens.delete(userEmail);
+      this.tokens.delete(tokenKey(userEmail));
       console.log(`🗑️ Removed invalid token for ${userEmail}`);
     } catch (error) {
       console.error(`❌ Error removing token for ${userEmail}:`, error);
@@ -53,11 +53,273 @@ export interface EmailInfo {
   originalSubject: string;
   headers: GmailHeader[];
   messageId: string | undefined;
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  replyTo: EmailAddress[];
+}
+
+// Who receives a reply: the sender (or their Reply-To) only, or everyone on the message except the user
+export type ReplyRecipientsMode = 'sender' | 'reply_all';
+
+export interface ReplyPolicy {
+  recipients: ReplyRecipientsMode;
+  // Always copied on replies, e.g. an assistant
+  always_cc: string[];
+}
+
+export interface ReplyRecipients {
+  to: EmailAddress[];
+  cc: EmailAddress[];
+}
+
+// Normalized message produced by walking the GmailMessagePart tree
+export interface EmailAddress {
+  name: string;
+  email: string;
+}
+
+export interface EmailAttachment {
+  partId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  attachmentId: string | undefined;
+}
+
+// Options and results of the search_emails MCP tool
+export interface EmailSearchOptions {
+  query: string;
+  maxResults: number;
+  pageToken?: string;
+  includeBody: boolean;
+  // Label names (e.g. INBOX, Scheduling/Replied) every result must carry
+  labels?: string[];
+  // Dates or date-times; after is inclusive, before exclusive
+  after?: string;
+  before?: string;
+}
+
+export interface EmailSearchResult {
+  id: string;
+  threadId: string;
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  subject: string;
+  date: string;
+  snippet: string;
+  labels: string[];
+  hasAttachments: boolean;
+  // New content only, when includeBody is set
+  body?: string;
+}
+
+export interface EmailSearchResponse {
+  query: string;
+  results: EmailSearchResult[];
+  nextPageToken?: string;
+  resultSizeEstimate: number;
+}
+
+// A message as returned by the get_email and get_thread MCP tools
+export interface EmailDetails {
+  id: string;
+  threadId: string;
+  // Label names; user label IDs are resolved where possible
+  labels: string[];
+  schedulingLabel: SchedulingLabel | null;
+  unread: boolean;
+  // All headers with encoded words decoded
+  headers: GmailHeader[];
+  subject: string;
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  replyTo: EmailAddress[];
+  date: string;
+  messageId: string | undefined;
+  snippet: string;
+  // New content only: quoted history and signature removed
+  body: string;
+  textBody: string;
+  htmlBody: string;
+  attachments: EmailAttachment[];
+  hasCalendarInvite: boolean;
+}
+
+export interface ThreadDetails {
+  id: string;
+  // Oldest first
+  messages: EmailDetails[];
+}
+
+export interface AttachmentContent {
+  messageId: string;
+  partId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  // Standard base64
+  data: string;
+}
+
+export interface ParsedEmail {
+  id: string;
+  threadId: string;
+  labelIds: string[];
+  snippet: string;
+  internalDate: string;
+  headers: GmailHeader[];
+  subject: string;
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  replyTo: EmailAddress[];
+  date: string;
+  messageId: string | undefined;
+  // New content only: quoted history and signature removed
+  body: string;
+  // Full decoded bodies as sent
+  textBody: string;
+  htmlBody: string;
+  attachments: EmailAttachment[];
+  // Raw iCalendar content of text/calendar parts (meeting invites, cancellations, counter-proposals)
+  calendarParts: string[];
 }
 
 // Message processing types
 export type MessageType = 'meeting' | 'non-meeting';
 
+// One earlier message of a Gmail thread, as context for the message being processed
+export interface ThreadTranscriptEntry {
+  messageId: string;
+  from: EmailAddress | null;
+  fromSelf: boolean;
+  date: string;
+  body: string;
+}
+
+// Durable record of what the pipeline did with each Gmail message, keyed by user and message ID.
+// deferred: a retryable API failure; the message is processed again on the next sync
+export type ProcessingOutcome = 'classified' | 'replied' | 'drafted' | 'queued' | 'rejected' | 'skipped' | 'failed' | 'deferred';
+
+export interface ProcessedMessageRecord {
+  user_email: string;
+  message_id: string;
+  thread_id: string;
+  sender: string;
+  outcome: ProcessingOutcome;
+  reply_message_id?: string;
+  draft_id?: string;
+  skip_reason?: string;
+  error?: string;
+  created_at: string;
+  updated_at: string;
+  expires_at: number; // Epoch seconds; DynamoDB TTL attribute
+}
+
+// Per-user settings
+// send: reply immediately, draft: leave a draft in the thread for review,
+// approve: queue the reply until the user approves it, off: never reply
+export type ReplyMode = 'send' | 'draft' | 'approve' | 'off';
+
+export interface UserSettings {
+  user_email: string;
+  reply_mode: ReplyMode;
+  // Keep processed messages unread; they are still labelled with their scheduling stage
+  leave_unread: boolean;
+  // Attach .ics files: tentative events for proposed times, or an invite once a time is confirmed
+  attach_calendar: boolean;
+  // Add a Google Meet link to meetings booked on confirmation
+  add_meet_link: boolean;
+  // Calendars checked for availability (IDs from Google Calendar settings); the primary calendar is always included
+  calendar_ids: string[];
+  scheduling: SchedulingPreferences;
+  rules: MailboxRules;
+  reply_policy: ReplyPolicy;
+  updated_at: string;
+}
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+// A time-of-day range on the 24-hour clock ('09:00'-'18:00')
+export interface TimeRange {
+  start: string;
+  end: string;
+}
+
+// When meetings may be offered. Times of day are in `time_zone`.
+export interface SchedulingPreferences {
+  time_zone: string; // IANA name, e.g. Europe/London
+  working_hours: Partial<Record<Weekday, TimeRange>>; // days left out are not worked
+  default_duration_minutes: number;
+  buffer_before_minutes: number; // kept free between an earlier meeting and a new one
+  buffer_after_minutes: number;  // kept free between a new meeting and the next one
+  minimum_notice_hours: number;  // nothing is offered sooner than this from now
+  max_meetings_per_day: number;  // 0 for no limit
+  lunch: TimeRange | null;
+}
+
+// Sender filtering applied before a message reaches the meeting intent detector.
+// Patterns are full addresses (jane@example.com) or domains (example.com, which also matches subdomains).
+export interface MailboxRules {
+  allow: string[];   // when non-empty, only these senders are processed
+  deny: string[];
+  vip: string[];     // always processed, even if another rule would skip them
+  require_self_addressed: boolean; // the user must be in To or Cc
+  gmail_query: string; // extra Gmail search terms merged into the unread list query
+}
+
+// Lifecycle stage shown on a message as a Gmail label (Scheduling/Detected, ...)
+export type SchedulingLabel = 'detected' | 'replied' | 'confirmed' | 'needs_human' | 'ignored';
+
+// Generated replies waiting for the user's approval (persisted, snake_case)
+export type PendingReplyStatus = 'pending' | 'approved' | 'rejected';
+
+export interface PendingReply {
+  reply_id: string;
+  user_email: string;
+  message_id: string;
+  thread_id: string;
+  to: string;
+  cc: string[];
+  subject: string;
+  in_reply_to?: string;
+  original_from: string;
+  original_body: string;
+  meeting_context: MeetingRequestContext;
+  proposed_body: string;
+  slots: MeetingRequestContext['suggested_meeting_times'];
+  // iTIP response sent with the reply, for answers to calendar invites
+  calendar?: { method: string; content: string };
+  status: PendingReplyStatus;
+  sent_message_id?: string;
+  created_at: string;
+  updated_at: string;
+  expires_at: number; // epoch seconds
+}
+
+// Events a GmailMonitor raises for connected MCP/SSE clients
+export interface MonitorEvent {
+  type: 'draft_created' | 'reply_pending_approval';
+  message: string;
+  data: Record<string, unknown>;
+}
+
+// Snapshot of a GmailMonitor's message processing queue
+export interface MessageQueueStats {
+  queued: number;
+  active: number;
+  processed: number;
+  failed: number;
+  // Time from enqueue to finished processing, averaged over recent messages
+  averageLatencyMs: number | null;
+  lastLatencyMs: number | null;
+}
+
+// 'history' syncs incrementally through users.history.list, 'poll' re-lists is:unread every cycle
+export type GmailSyncMode = 'poll' | 'history';
+
 export interface GmailHistoryResponse {
   history: GmailHistory[];
   historyId: string;
@@ -133,6 +395,16 @@ export interface GmailWebhookPayload {
   subscription: string;
 }
 
+// Decoded `message.data` of a Gmail Pub/Sub notification
+export interface GmailPushNotification {
+  emailAddress: string;
+  historyId: string;
+}
+
+// How new mail is discovered: interval sync, or Gmail watch notifications either pushed to
+// the webhook or pulled from the Pub/Sub subscription (for hosts that cannot receive push)
+export type GmailNotificationMode = 'poll' | 'push' | 'pull';
+
 // Server Configuration
 export interface ServerConfig {
   port: number;
@@ -140,19 +412,78 @@ export interface ServerConfig {
   gmailWatchTopic: string;
   gmailWatchSubscription: string;
   tokenFilePath: string;
+  gmailNotificationMode: GmailNotificationMode;
 }
 
 // Calendar API Types
 export interface CalendarEvent {
   id: string;
+  // Shared with the invite the event came from, so an updated invite does not conflict with itself
+  iCalUID?: string;
   summary: string;
   start: { dateTime: string };
   end: { dateTime: string };
+  // A tentative hold the assistant placed on a slot it offered: a soft conflict, ranked below real events
+  hold?: boolean;
+  // Gmail thread the hold's slot was offered in
+  threadId?: string;
 }
 
+// A period the user is busy on at least one of their calendars (from freebusy.query)
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+}
+
+// An event the assistant put on the user's calendar for a confirmed meeting
+export interface BookedMeeting {
+  eventId: string;
+  iCalUID: string;
+  htmlLink: string;
+  summary: string;
+  description: string;
+  start: Date;
+  end: Date;
+  attendees: EmailAddress[];
+  // Google Meet join URL, when conference data was requested
+  meetLink?: string;
+}
+
+// An event from an incoming iCalendar (iTIP, RFC 5546) message
+export interface CalendarInviteAttendee extends EmailAddress {
+  partstat: string;
+  role: string;
+  rsvp: boolean;
+}
+
+export interface CalendarInvite {
+  // REQUEST, CANCEL, COUNTER, REPLY, PUBLISH, ...
+  method: string;
+  uid: string;
+  sequence: number;
+  summary: string;
+  description: string;
+  location: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  // Zone the event was written in (IANA name), or UTC
+  timeZone: string;
+  organizer: EmailAddress | null;
+  attendees: CalendarInviteAttendee[];
+  status: string;
+  recurrenceId?: string;
+  rrule?: string;
+}
+
+// accept/decline/propose_new_time answer a REQUEST; for a COUNTER, accept and decline apply to the proposed time
+export type InviteAction = 'accept' | 'decline' | 'propose_new_time' | 'none';
+
 export interface FreeSlot {
   start: string; // ISO string
   end: string;   // ISO string
+  // Overlaps a tentative hold: usable, but already offered to someone else
+  held?: boolean;
 }
 
 // MeetingRequestContext and MeetingSlotAvailabilityResponse for slot checking and prompt building
@@ -0,0 +1,125 @@
+import 'dotenv/config';
+import { ReplyMode, ReplyRecipientsMode, UserSettings } from './types';
+import { DEFAULT_MAILBOX_RULES } from './mailbox-rules';
+import { getDefaultCalendarIds } from './busy-intervals';
+import { getDefaultSchedulingPreferences } from './scheduling-preferences';
+import { DynamoDBSettingsStorage } from './dynamodb-settings-storage';
+import { FirestoreSettingsStorage } from './firestore-settings-storage';
+
+export interface UserSettingsStorage {
+  getSettings(userEmail: string): Promise<UserSettings | null>;
+  putSettings(settings: UserSettings): Promise<void>;
+}
+
+export class InMemorySettingsStorage implements UserSettingsStorage {
+  private settings: Map<string, UserSettings> = new Map();
+
+  async getSettings(userEmail: string): Promise<UserSettings | null> {
+    return this.settings.get(userEmail) || null;
+  }
+
+  async putSettings(settings: UserSettings): Promise<void> {
+    this.settings.set(settings.user_email, settings);
+  }
+}
+
+/**
+ * Stored settings could not be read. Raised instead of falling back to defaults,
+ * whose reply mode may send mail the user meant to review first.
+ */
+export class SettingsUnavailableError extends Error {
+  constructor(userEmail: string, cause: unknown) {
+    super(`Settings for ${userEmail} could not be loaded: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = new.target.name;
+    (this as { cause?: unknown }).cause = cause;
+  }
+}
+
+export type UserSettingsUpdate = Partial<Omit<UserSettings, 'user_email' | 'updated_at'>>;
+
+/**
+ * Per-user settings with defaults for anything the user has not set.
+ * Reads are cached; updates write through to storage.
+ */
+export class UserSettingsManager {
+  private storage: UserSettingsStorage;
+  private cache: Map<string, UserSettings> = new Map();
+
+  constructor(storage: UserSettingsStorage) {
+    this.storage = storage;
+  }
+
+  public getDefaults(userEmail: string): UserSettings {
+    return {
+      user_email: userEmail,
+      reply_mode: (process.env['DEFAULT_REPLY_MODE'] as ReplyMode) || 'send',
+      leave_unread: process.env['DEFAULT_LEAVE_UNREAD'] === 'true',
+      attach_calendar: process.env['DEFAULT_ATTACH_CALENDAR'] !== 'false',
+      add_meet_link: process.env['DEFAULT_ADD_MEET_LINK'] === 'true',
+      calendar_ids: getDefaultCalendarIds(),
+      scheduling: getDefaultSchedulingPreferences(),
+      rules: { ...DEFAULT_MAILBOX_RULES },
+      reply_policy: {
+        recipients: (process.env['DEFAULT_REPLY_RECIPIENTS'] as ReplyRecipientsMode) || 'sender',
+        always_cc: [],
+      },
+      updated_at: new Date(0).toISOString(),
+    };
+  }
+
+  public async getSettings(userEmail: string): Promise<UserSettings> {
+    const key = userEmail.toLowerCase();
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+    let stored: UserSettings | null = null;
+    try {
+      stored = await this.storage.getSettings(key);
+    } catch (error) {
+      console.error(`❌ Error loading settings for ${userEmail}:`, error);
+      throw new SettingsUnavailableError(key, error);
+    }
+    const defaults = this.getDefaults(key);
+    const settings = {
+      ...defaults,
+      ...(stored || {}),
+      rules: { ...defaults.rules, ...(stored?.rules || {}) },
+      reply_policy: { ...defaults.reply_policy, ...(stored?.reply_policy || {}) },
+      scheduling: { ...defaults.scheduling, ...(stored?.scheduling || {}) },
+    };
+    this.cache.set(key, settings);
+    return settings;
+  }
+
+  public async updateSettings(userEmail: string, update: UserSettingsUpdate): Promise<UserSettings> {
+    const key = userEmail.toLowerCase();
+    const current = await this.getSettings(key);
+    const settings: UserSettings = {
+      ...current,
+      ...update,
+      user_email: key,
+      updated_at: new Date().toISOString(),
+    };
+    await this.storage.putSettings(settings);
+    this.cache.set(key, settings);
+    console.log(`⚙️ Updated settings for ${key}: ${Object.keys(update).join(', ')}`);
+    return settings;
+  }
+}
+
+/**
+ * Pick the settings backend from STORAGE_BACKEND (dynamodb, firestore or memory)
+ */
+export function createSettingsStorage(backend: string = process.env['STORAGE_BACKEND'] || 'dynamodb'): UserSettingsStorage {
+  switch (backend) {
+    case 'firestore':
+      return new FirestoreSettingsStorage();
+    case 'memory':
+      return new InMemorySettingsStorage();
+    default:
+      return new DynamoDBSettingsStorage();
+  }
+}
+
+export const userSettingsManager = new UserSettingsManager(createSettingsStorage());
@@ -1,8 +1,9 @@
 import express from 'express';
 import cors from 'cors';
-import { GmailWebhookPayload } from './types';
+import { GmailWebhookPayload, GmailPushNotification } from './types';
+import { decodeGmailPushData, GmailPushHandler } from './gmail-push-notification';
 
-const app = express();
+export const app = express();
 const PORT = process.env['WEBHOOK_PORT'] || 3002;
 
 // Middleware
@@ -10,31 +11,37 @@ app.use(cors());
 app.use(express.json());
 
 // Store the callback function to notify the main server
-let notifyCallback: ((messageId: string) => void) | null = null;
+let notifyCallback: GmailPushHandler | null = null;
 
-export function setNotifyCallback(callback: (messageId: string) => void) {
+export function setNotifyCallback(callback: GmailPushHandler) {
   notifyCallback = callback;
 }
 
 // Webhook endpoint for Gmail notifications
-app.post('/webhook/gmail', (req, res) => {
+app.post('/webhook/gmail', async (req, res) => {
+  const payload: GmailWebhookPayload = req.body;
+
+  let notification: GmailPushNotification;
   try {
-    const payload: GmailWebhookPayload = req.body;
-    
-    console.log('📨 Received Gmail webhook:', payload.message.messageId);
-    
-    // Extract message ID from the webhook payload
-    const messageId = payload.message.messageId;
-    
-    // Notify the main server about the new message
-    if (notifyCallback) {
-      notifyCallback(messageId);
-    }
-    
-    res.status(200).json({ success: true });
+    notification = decodeGmailPushData(payload.message.data);
   } catch (error) {
-    console.error('❌ Error processing webhook:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    // Acknowledge malformed messages so Pub/Sub does not redeliver them forever
+    console.error('❌ Ignoring undecodable Gmail webhook:', payload?.message?.messageId, error);
+    res.status(200).json({ success: false, error: 'Invalid Gmail notification payload' });
+    return;
+  }
+
+  console.log(`📨 Received Gmail webhook for ${notification.emailAddress} (historyId ${notification.historyId})`);
+
+  // Acknowledge before syncing: a sync can outlast the Pub/Sub push deadline, and a late ack
+  // makes Pub/Sub redeliver. A failed sync leaves the checkpoint where it was, and the mailbox
+  // scheduler syncs the mailbox again on its next cycle.
+  res.status(200).json({ success: true });
+
+  if (notifyCallback) {
+    notifyCallback(notification).catch((error) => {
+      console.error(`❌ Error syncing ${notification.emailAddress} after webhook:`, error);
+    });
   }
 });
 
@@ -0,0 +1,46 @@
+import { availabilityCalendarIds, isFreeTimeEvent, mergeBusyIntervals, parseFreeBusy } from '../src/busy-intervals';
+
+const at = (time: string) => new Date(`2025-07-24T${time}:00Z`);
+
+describe('availabilityCalendarIds', () => {
+  it('always includes the primary calendar once, without the user\'s own address', () => {
+    expect(availabilityCalendarIds(['team@group.calendar.google.com', 'Exec@example.com', 'primary', ' team@group.calendar.google.com '], 'exec@example.com'))
+      .toEqual(['primary', 'team@group.calendar.google.com']);
+    expect(availabilityCalendarIds([], 'exec@example.com')).toEqual(['primary']);
+  });
+});
+
+describe('isFreeTimeEvent', () => {
+  it('treats transparent and declined events as free', () => {
+    expect(isFreeTimeEvent({ transparency: 'transparent' })).toBe(true);
+    expect(isFreeTimeEvent({ attendees: [{ email: 'exec@example.com', self: true, responseStatus: 'declined' }] })).toBe(true);
+    expect(isFreeTimeEvent({ attendees: [{ email: 'jane@partner.com', responseStatus: 'declined' }, { self: true, responseStatus: 'accepted' }] })).toBe(false);
+    expect(isFreeTimeEvent({ transparency: 'opaque' })).toBe(false);
+  });
+});
+
+describe('parseFreeBusy', () => {
+  it('collects busy periods and reports calendars that could not be read', () => {
+    const { intervals, failed } = parseFreeBusy({
+      primary: { busy: [{ start: '2025-07-24T09:00:00Z', end: '2025-07-24T10:00:00Z' }] },
+      'team@group.calendar.google.com': { busy: [{ start: '2025-07-24T14:00:00Z', end: '2025-07-24T15:00:00Z' }] },
+      'gone@group.calendar.google.com': { errors: [{ domain: 'global', reason: 'notFound' }] },
+    });
+    expect(intervals).toEqual([{ start: at('09:00'), end: at('10:00') }, { start: at('14:00'), end: at('15:00') }]);
+    expect(failed).toEqual(['gone@group.calendar.google.com (notFound)']);
+  });
+});
+
+describe('mergeBusyIntervals', () => {
+  it('joins overlapping and touching intervals from different calendars', () => {
+    expect(mergeBusyIntervals([
+      { start: at('14:00'), end: at('15:00') },
+      { start: at('09:00'), end: at('10:00') },
+      { start: at('09:30'), end: at('09:45') },
+      { start: at('10:00'), end: at('10:30') },
+    ])).toEqual([
+      { start: at('09:00'), end: at('10:30') },
+      { start: at('14:00'), end: at('15:00') },
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import { buildHoldResource, isHoldExpired, isHoldItem, rankFreeSlots, withoutThreadHolds } from '../src/calendar-holds';
+import { CalendarEvent } from '../src/types';
+
+const slot = { start: new Date('2025-07-24T15:00:00Z'), end: new Date('2025-07-24T15:30:00Z') };
+const expiresAt = new Date('2025-07-23T10:00:00Z');
+
+describe('buildHoldResource', () => {
+  it('creates a tentative, transparent event tagged with the thread and expiry', () => {
+    const hold = buildHoldResource(slot, 'Re: Roadmap review', 'thread-1', expiresAt) as any;
+    expect(hold.summary).toBe('Hold: Roadmap review');
+    expect(hold.status).toBe('tentative');
+    expect(hold.transparency).toBe('transparent');
+    expect(hold.start).toEqual({ dateTime: '2025-07-24T15:00:00.000Z' });
+    expect(hold.extendedProperties.private).toEqual({
+      mcpThreadId: 'thread-1',
+      mcpHold: 'true',
+      mcpHoldExpiresAt: String(expiresAt.getTime()),
+    });
+    expect(isHoldItem(hold)).toBe(true);
+    expect(isHoldItem({ extendedProperties: { private: { mcpThreadId: 'thread-1' } } })).toBe(false);
+  });
+});
+
+describe('isHoldExpired', () => {
+  const hold = buildHoldResource(slot, 'Roadmap review', 'thread-1', expiresAt);
+
+  it('expires holds past their expiry or whose slot is over', () => {
+    expect(isHoldExpired(hold, new Date('2025-07-22T10:00:00Z'))).toBe(false);
+    expect(isHoldExpired(hold, expiresAt)).toBe(true);
+    const longHold = buildHoldResource(slot, 'Roadmap review', 'thread-1', new Date('2025-08-01T00:00:00Z'));
+    expect(isHoldExpired(longHold, new Date('2025-07-24T16:00:00Z'))).toBe(true);
+  });
+});
+
+describe('withoutThreadHolds', () => {
+  const events: CalendarEvent[] = [
+    { id: 'firm', summary: 'Standup', start: { dateTime: '2025-07-24T09:00:00Z' }, end: { dateTime: '2025-07-24T09:15:00Z' } },
+    { id: 'own', summary: 'Hold: A', start: { dateTime: '2025-07-24T15:00:00Z' }, end: { dateTime: '2025-07-24T15:30:00Z' }, hold: true, threadId: 'thread-1' },
+    { id: 'other', summary: 'Hold: B', start: { dateTime: '2025-07-24T16:00:00Z' }, end: { dateTime: '2025-07-24T16:30:00Z' }, hold: true, threadId: 'thread-2' },
+  ];
+
+  it('drops only the thread\'s own holds', () => {
+    expect(withoutThreadHolds(events, 'thread-1').map(e => e.id)).toEqual(['firm', 'other']);
+    expect(withoutThreadHolds(events)).toBe(events);
+  });
+});
+
+describe('rankFreeSlots', () => {
+  it('lists clear slots before held ones, each in time order', () => {
+    const ranked = rankFreeSlots([
+      { start: '2025-07-24T09:00:00.000+00:00', end: '2025-07-24T09:30:00.000+00:00', held: true },
+      { start: '2025-07-24T11:00:00.000+00:00', end: '2025-07-24T11:30:00.000+00:00' },
+      { start: '2025-07-24T10:00:00.000+00:00', end: '2025-07-24T10:30:00.000+00:00' },
+    ]);
+    expect(ranked.map(s => s.start.slice(11, 16))).toEqual(['10:00', '11:00', '09:00']);
+  });
+});
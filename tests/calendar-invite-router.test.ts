@@ -0,0 +1,136 @@
+import { findAlternativeSlot, findInviteConflicts, inviteMeetingContext, planInviteResponse } from '../src/calendar-invite-router';
+import { CalendarEvent, CalendarInvite } from '../src/types';
+
+const now = new Date('2025-07-21T10:00:00Z');
+const user = 'exec@example.com';
+const jane = { name: 'Jane', email: 'jane@partner.com' };
+
+function invite(overrides: Partial<CalendarInvite> = {}): CalendarInvite {
+  return {
+    method: 'REQUEST',
+    uid: 'uid-1',
+    sequence: 1,
+    summary: 'Roadmap review',
+    description: '',
+    location: '',
+    start: new Date('2025-07-24T15:00:00Z'),
+    end: new Date('2025-07-24T16:00:00Z'),
+    allDay: false,
+    timeZone: 'UTC',
+    organizer: jane,
+    attendees: [
+      { name: 'Exec', email: 'Exec@example.com', partstat: 'NEEDS-ACTION', role: 'REQ-PARTICIPANT', rsvp: true },
+    ],
+    status: 'CONFIRMED',
+    ...overrides,
+  };
+}
+
+function event(id: string, start: string, end: string, iCalUID?: string): CalendarEvent {
+  return { id, summary: id, start: { dateTime: start }, end: { dateTime: end }, ...(iCalUID ? { iCalUID } : {}) };
+}
+
+function unfold(content: string | undefined): string[] {
+  return (content || '').replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('findInviteConflicts', () => {
+  it('finds overlapping events but not the invite itself or adjacent events', () => {
+    const conflicts = findInviteConflicts(invite(), [
+      event('overlap', '2025-07-24T15:30:00Z', '2025-07-24T16:30:00Z'),
+      event('before', '2025-07-24T14:00:00Z', '2025-07-24T15:00:00Z'),
+      event('self', '2025-07-24T15:00:00Z', '2025-07-24T16:00:00Z', 'uid-1'),
+      { id: 'all-day', summary: 'Holiday', start: { dateTime: undefined as unknown as string }, end: { dateTime: undefined as unknown as string } },
+    ]);
+    expect(conflicts.map(c => c.id)).toEqual(['overlap']);
+  });
+
+  it('ignores tentative holds', () => {
+    const hold = { ...event('hold', '2025-07-24T15:00:00Z', '2025-07-24T15:30:00Z'), hold: true, threadId: 'thread-9' };
+    expect(findInviteConflicts(invite(), [hold])).toEqual([]);
+  });
+});
+
+describe('findAlternativeSlot', () => {
+  it('joins back-to-back free slots to fit the meeting', () => {
+    const slot = findAlternativeSlot([
+      { start: '2025-07-24T09:00:00.000+00:00', end: '2025-07-24T09:30:00.000+00:00' },
+      { start: '2025-07-24T10:00:00.000+00:00', end: '2025-07-24T10:30:00.000+00:00' },
+      { start: '2025-07-24T10:30:00.000+00:00', end: '2025-07-24T11:00:00.000+00:00' },
+    ], 60 * 60 * 1000, now);
+    expect(slot).toEqual({ start: new Date('2025-07-24T10:00:00Z'), end: new Date('2025-07-24T11:00:00Z') });
+  });
+
+  it('prefers clear slots and falls back to held ones', () => {
+    const held = { start: '2025-07-24T09:00:00.000+00:00', end: '2025-07-24T09:30:00.000+00:00', held: true };
+    const clear = { start: '2025-07-24T11:00:00.000+00:00', end: '2025-07-24T11:30:00.000+00:00' };
+    expect(findAlternativeSlot([held, clear], 30 * 60 * 1000, now)?.start).toEqual(new Date('2025-07-24T11:00:00Z'));
+    expect(findAlternativeSlot([held], 30 * 60 * 1000, now)?.start).toEqual(new Date('2025-07-24T09:00:00Z'));
+  });
+
+  it('ignores past slots and returns null when nothing fits', () => {
+    const slots = [{ start: '2025-07-20T10:00:00Z', end: '2025-07-20T11:00:00Z' }];
+    expect(findAlternativeSlot(slots, 30 * 60 * 1000, now)).toBeNull();
+  });
+});
+
+describe('planInviteResponse', () => {
+  const free = { conflicts: [], alternative: null };
+  const busy = { conflicts: [event('Standup', '2025-07-24T15:00:00Z', '2025-07-24T15:30:00Z')], alternative: null };
+
+  it('accepts a free invite with an iTIP REPLY to the organizer', () => {
+    const plan = planInviteResponse(invite(), user, free, now);
+    expect(plan).toMatchObject({ action: 'accept', to: [jane], calendar: { method: 'REPLY' } });
+    const lines = unfold(plan.calendar?.content);
+    expect(lines).toContain('METHOD:REPLY');
+    expect(lines).toContain('UID:uid-1');
+    expect(lines).toContain('SEQUENCE:1');
+    expect(lines).toContain('ATTENDEE;CN="Exec";ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:Exec@example.com');
+  });
+
+  it('proposes the alternative when the time is taken', () => {
+    const alternative = { start: new Date('2025-07-24T17:00:00Z'), end: new Date('2025-07-24T18:00:00Z') };
+    const plan = planInviteResponse(invite(), user, { ...busy, alternative }, now);
+    expect(plan).toMatchObject({ action: 'propose_new_time', slot: alternative, calendar: { method: 'COUNTER' } });
+    expect(plan.body).toContain('Standup');
+    expect(unfold(plan.calendar?.content)).toContain('DTSTART:20250724T170000Z');
+  });
+
+  it('declines when the time is taken and nothing else is free', () => {
+    const plan = planInviteResponse(invite(), user, busy, now);
+    expect(plan.action).toBe('decline');
+    expect(unfold(plan.calendar?.content).some(line => line.includes('PARTSTAT=DECLINED'))).toBe(true);
+  });
+
+  it('answers counter-proposals to the user\'s own events', () => {
+    const counter = invite({
+      method: 'COUNTER',
+      organizer: { name: '', email: user },
+      attendees: [{ ...jane, partstat: 'TENTATIVE', role: 'REQ-PARTICIPANT', rsvp: false }],
+    });
+    const accepted = planInviteResponse(counter, user, free, now);
+    expect(accepted).toMatchObject({ action: 'accept', to: [jane], calendar: { method: 'REQUEST' } });
+    expect(unfold(accepted.calendar?.content)).toContain('SEQUENCE:2');
+
+    const declined = planInviteResponse(counter, user, busy, now);
+    expect(declined).toMatchObject({ action: 'decline', to: [jane], calendar: { method: 'DECLINECOUNTER' } });
+  });
+
+  it('does not respond to cancellations, own invites, past or unaddressed invites', () => {
+    expect(planInviteResponse(invite({ method: 'CANCEL' }), user, free, now).reason).toBe('cancelled');
+    expect(planInviteResponse(invite({ method: 'REPLY' }), user, free, now).reason).toBe('method:reply');
+    expect(planInviteResponse(invite({ organizer: { name: '', email: user } }), user, free, now).reason).toBe('own-invite');
+    expect(planInviteResponse(invite({ end: new Date('2025-07-20T10:00:00Z') }), user, free, now).reason).toBe('past-event');
+    expect(planInviteResponse(invite({ attendees: [] }), user, free, now).reason).toBe('not-an-attendee');
+    expect(planInviteResponse(invite({ allDay: true }), user, free, now).action).toBe('none');
+  });
+});
+
+describe('inviteMeetingContext', () => {
+  it('describes the planned slot in UTC for the approval queue', () => {
+    const plan = planInviteResponse(invite(), user, { conflicts: [], alternative: null }, now);
+    const context = inviteMeetingContext(invite(), plan);
+    expect(context.suggested_meeting_times).toEqual([{ date: '2025-07-24', time_slots: ['15:00-16:00'], timezone: 'UTC' }]);
+    expect(context.meeting_context.intent).toBe('accept');
+  });
+});
@@ -0,0 +1,69 @@
+import { CalendarMonitor } from '../src/calendar-monitor';
+
+jest.mock('../src/user-settings', () => ({ userSettingsManager: {} }));
+
+function createCalendarApi(calendars: Record<string, unknown>) {
+  return {
+    freebusy: { query: jest.fn().mockResolvedValue({ data: { calendars } }) },
+    events: { list: jest.fn().mockResolvedValue({ data: { items: [] } }) },
+  };
+}
+
+function createMonitor(calendar: unknown, calendarIds: string[] = ['primary']) {
+  const monitor = new CalendarMonitor();
+  Object.assign(monitor, { calendar, calendarIds });
+  return monitor;
+}
+
+describe('CalendarMonitor', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('merges busy time across the user\'s calendars', async () => {
+    const calendar = createCalendarApi({
+      primary: { busy: [{ start: '2025-07-24T09:00:00Z', end: '2025-07-24T10:00:00Z' }] },
+      'team@group.calendar.google.com': { busy: [{ start: '2025-07-24T09:30:00Z', end: '2025-07-24T11:00:00Z' }] },
+    });
+    const monitor = createMonitor(calendar, ['primary', 'team@group.calendar.google.com']);
+
+    const busy = await monitor.getBusyIntervals(['2025-07-24']);
+
+    expect(busy.map(interval => [interval.start.toISOString(), interval.end.toISOString()])).toEqual([
+      ['2025-07-24T09:00:00.000Z', '2025-07-24T11:00:00.000Z'],
+    ]);
+  });
+
+  it('queries whole days in the user\'s time zone', async () => {
+    const calendar = createCalendarApi({ primary: { busy: [] } });
+    const monitor = createMonitor(calendar);
+    Object.assign(monitor, { preferences: { ...monitor.getPreferences(), time_zone: 'America/Los_Angeles' } });
+
+    await monitor.getBusyIntervals(['2025-07-24']);
+
+    expect(calendar.freebusy.query.mock.calls[0][0].requestBody).toMatchObject({
+      timeMin: '2025-07-24T07:00:00.000Z',
+      timeMax: '2025-07-25T06:59:59.999Z',
+    });
+  });
+
+  it('fails instead of looking free when a calendar cannot be read', async () => {
+    const unreadable = createMonitor(createCalendarApi({ primary: { errors: [{ reason: 'backendError' }] } }));
+    await expect(unreadable.getBusyIntervals(['2025-07-24'])).rejects.toThrow('primary (backendError)');
+
+    const missing = createMonitor(createCalendarApi({ primary: { busy: [] } }), ['primary', 'team@group.calendar.google.com']);
+    await expect(missing.getBusyIntervals(['2025-07-24'])).rejects.toThrow('team@group.calendar.google.com');
+    await expect(missing.getBusyEvents(['2025-07-24'])).rejects.toThrow('team@group.calendar.google.com');
+  });
+
+  it('lets freebusy.query errors reach the caller', async () => {
+    const calendar = createCalendarApi({});
+    calendar.freebusy.query.mockRejectedValue(new Error('Forbidden'));
+
+    await expect(createMonitor(calendar).getBusyIntervals(['2025-07-24'])).rejects.toThrow('Forbidden');
+  });
+});
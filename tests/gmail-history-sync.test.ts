@@ -0,0 +1,182 @@
+import { gmail_v1 } from 'googleapis';
+import { GmailMonitor } from '../src/gmail-monitor';
+import { historyCheckpointStore } from '../src/history-checkpoint-store';
+import { messageLedger } from '../src/message-ledger';
+import { PermanentApiError } from '../src/google-api-client';
+import { userSettingsManager } from '../src/user-settings';
+import { DEFAULT_MAILBOX_RULES } from '../src/mailbox-rules';
+import { monitorInternals } from './helpers/gmail-monitor-internals';
+
+jest.mock('../src/calendar-monitor');
+jest.mock('../src/meeting-intent-detector');
+jest.mock('../src/message-ledger', () => require('./helpers/storage-mocks').inMemoryMessageLedger());
+jest.mock('../src/history-checkpoint-store', () => require('./helpers/storage-mocks').inMemoryHistoryCheckpoints());
+jest.mock('../src/user-settings', () => require('./helpers/storage-mocks').inMemoryUserSettings());
+
+let nextUser = 1;
+
+function unreadInboxMessage(id: string, extraLabels: string[] = []) {
+  return { message: { id, threadId: `t-${id}`, labelIds: ['INBOX', 'UNREAD', ...extraLabels] } };
+}
+
+function createGmailApi() {
+  return {
+    users: {
+      getProfile: jest.fn().mockResolvedValue({ data: { historyId: '500' } }),
+      history: { list: jest.fn() },
+      labels: {
+        list: jest.fn().mockResolvedValue({ data: { labels: [] } }),
+        create: jest.fn().mockImplementation(({ requestBody }: gmail_v1.Params$Resource$Users$Labels$Create) =>
+          Promise.resolve({ data: { id: `id-${requestBody?.name}`, name: requestBody?.name } })
+        ),
+      },
+      messages: {
+        list: jest.fn().mockResolvedValue({ data: { messages: [] } }),
+        get: jest.fn(),
+        modify: jest.fn().mockResolvedValue({}),
+      },
+    },
+  };
+}
+
+function createMonitor() {
+  const userEmail = `exec${nextUser++}@example.com`;
+  const gmail = createGmailApi();
+  const monitor = new GmailMonitor(jest.fn(), 'history');
+  const internals = monitorInternals(monitor);
+  // Only the endpoints the history sync calls are faked
+  internals.gmail = gmail as unknown as gmail_v1.Gmail;
+  internals.userEmail = userEmail;
+  const processMessage = jest.spyOn(internals, 'processMessage');
+  return { monitor, gmail, userEmail, processMessage };
+}
+
+describe('GmailMonitor history sync', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('processes new unread inbox messages and advances the checkpoint across pages', async () => {
+    const { monitor, gmail, userEmail, processMessage } = createMonitor();
+    processMessage.mockResolvedValue(undefined);
+    await historyCheckpointStore.setHistoryId(userEmail, '100');
+    gmail.users.history.list
+      .mockResolvedValueOnce({
+        data: {
+          history: [{ id: '101', messagesAdded: [unreadInboxMessage('m1'), { message: { id: 'sent', labelIds: ['SENT', 'UNREAD', 'INBOX'] } }] }],
+          historyId: '130',
+          nextPageToken: 'page-2',
+        },
+      })
+      .mockResolvedValueOnce({
+        data: {
+          history: [{ id: '102', labelsAdded: [{ ...unreadInboxMessage('m2'), labelIds: ['UNREAD'] }, { message: { id: 'read', labelIds: ['INBOX'] }, labelIds: ['INBOX'] }] }],
+          historyId: '130',
+        },
+      });
+
+    await monitor.syncOnce();
+
+    expect(gmail.users.history.list.mock.calls.map(([args]) => [args.startHistoryId, args.pageToken])).toEqual([['100', undefined], ['100', 'page-2']]);
+    expect(processMessage.mock.calls.map(([id]) => id)).toEqual(['m1', 'm2']);
+    expect(await historyCheckpointStore.getHistoryId(userEmail)).toBe('130');
+  });
+
+  it('falls back to a full resync when Gmail has expired the checkpoint', async () => {
+    const { monitor, gmail, userEmail, processMessage } = createMonitor();
+    processMessage.mockResolvedValue(undefined);
+    await historyCheckpointStore.setHistoryId(userEmail, '100');
+    gmail.users.history.list.mockRejectedValue(
+      new PermanentApiError('gmail users.history.list failed: Not Found', { status: 404, reason: 'notFound', retryable: false })
+    );
+    gmail.users.messages.list.mockResolvedValue({ data: { messages: [{ id: 'm1' }] } });
+
+    await monitor.syncOnce();
+
+    expect(gmail.users.messages.list.mock.calls[0][0].q).toContain('is:unread');
+    expect(processMessage.mock.calls.map(([id]) => id)).toEqual(['m1']);
+    expect(await historyCheckpointStore.getHistoryId(userEmail)).toBe('500');
+  });
+
+  it('runs a full resync when there is no checkpoint yet', async () => {
+    const { monitor, gmail, userEmail, processMessage } = createMonitor();
+    processMessage.mockResolvedValue(undefined);
+
+    await monitor.syncOnce();
+
+    expect(gmail.users.history.list).not.toHaveBeenCalled();
+    expect(gmail.users.messages.list).toHaveBeenCalled();
+    expect(await historyCheckpointStore.getHistoryId(userEmail)).toBe('500');
+  });
+
+  it('keeps the checkpoint when a message fails and skips messages already in the ledger', async () => {
+    const { monitor, gmail, userEmail, processMessage } = createMonitor();
+    await historyCheckpointStore.setHistoryId(userEmail, '100');
+    await messageLedger.recordOutcome({ userEmail, messageId: 'done', threadId: 't', sender: '' }, 'replied');
+    gmail.users.history.list.mockResolvedValue({
+      data: { history: [{ id: '101', messagesAdded: [unreadInboxMessage('done'), unreadInboxMessage('m1')] }], historyId: '120' },
+    });
+    processMessage.mockRejectedValue(new Error('rate limited'));
+
+    await expect(monitor.syncOnce()).rejects.toThrow('rate limited');
+
+    expect(processMessage.mock.calls.map(([id]) => id)).toEqual(['m1']);
+    expect(await historyCheckpointStore.getHistoryId(userEmail)).toBe('100');
+  });
+
+  it('records a message that cannot be fetched as failed and moves on', async () => {
+    const { monitor, gmail, userEmail } = createMonitor();
+    await historyCheckpointStore.setHistoryId(userEmail, '100');
+    gmail.users.history.list.mockResolvedValue({ data: { history: [{ id: '101', messagesAdded: [unreadInboxMessage('m1')] }], historyId: '120' } });
+    gmail.users.messages.get.mockRejectedValue(
+      new PermanentApiError('gmail users.messages.get failed: Not Found', { status: 404, reason: 'notFound', retryable: false })
+    );
+
+    await monitor.syncOnce();
+
+    expect((await messageLedger.getRecord(userEmail, 'm1'))?.outcome).toBe('failed');
+    expect(await historyCheckpointStore.getHistoryId(userEmail)).toBe('120');
+  });
+
+  it('applies the gmail_query rule and skips scheduling-labelled messages', async () => {
+    const { monitor, gmail, userEmail, processMessage } = createMonitor();
+    processMessage.mockResolvedValue(undefined);
+    await userSettingsManager.updateSettings(userEmail, { rules: { ...DEFAULT_MAILBOX_RULES, gmail_query: '-category:promotions' } });
+    await historyCheckpointStore.setHistoryId(userEmail, '100');
+    gmail.users.history.list.mockResolvedValue({
+      data: {
+        history: [{
+          id: '101',
+          messagesAdded: [unreadInboxMessage('m1'), unreadInboxMessage('promo'), unreadInboxMessage('m2', ['id-Scheduling/Needs-Human'])],
+        }],
+        historyId: '120',
+      },
+    });
+    gmail.users.messages.list.mockResolvedValue({ data: { messages: [{ id: 'm1' }, { id: 'm2' }] } });
+
+    await monitor.syncOnce();
+
+    expect(gmail.users.messages.list.mock.calls[0][0].q).toContain('(-category:promotions)');
+    expect(processMessage.mock.calls.map(([id]) => id)).toEqual(['m1']);
+    expect(await historyCheckpointStore.getHistoryId(userEmail)).toBe('120');
+  });
+
+  it('ignores push notifications at or before the checkpoint', async () => {
+    const { monitor, gmail, userEmail } = createMonitor();
+    await historyCheckpointStore.setHistoryId(userEmail, '100');
+    gmail.users.history.list.mockResolvedValue({ data: { history: [], historyId: '150' } });
+
+    await monitor.handlePushNotification({ emailAddress: userEmail, historyId: '100' });
+    expect(gmail.users.history.list).not.toHaveBeenCalled();
+
+    await monitor.handlePushNotification({ emailAddress: userEmail, historyId: '150' });
+    expect(gmail.users.history.list).toHaveBeenCalledWith(expect.objectContaining({ startHistoryId: '100' }));
+    expect(await historyCheckpointStore.getHistoryId(userEmail)).toBe('150');
+  });
+});
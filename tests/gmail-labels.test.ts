@@ -0,0 +1,74 @@
+import { gmail_v1 } from 'googleapis';
+import { GmailLabelManager, excludeSchedulingLabelsQuery } from '../src/gmail-labels';
+
+function createGmailApi(existing: gmail_v1.Schema$Label[]) {
+  let nextId = 1;
+  const users = {
+    labels: {
+      list: jest.fn().mockResolvedValue({ data: { labels: existing } }),
+      create: jest.fn().mockImplementation(({ requestBody }: gmail_v1.Params$Resource$Users$Labels$Create) =>
+        Promise.resolve({ data: { id: `Label_${nextId++}`, name: requestBody?.name } })
+      ),
+    },
+    messages: {
+      modify: jest.fn().mockResolvedValue({}),
+    },
+  };
+  // Only the endpoints the label manager calls are faked
+  return { users, gmail: { users } as unknown as gmail_v1.Gmail };
+}
+
+describe('GmailLabelManager', () => {
+  it('creates missing labels once per user and caches their IDs', async () => {
+    const { gmail, users } = createGmailApi([
+      { id: 'Label_parent', name: 'Scheduling' },
+      { id: 'Label_detected', name: 'Scheduling/Detected' },
+    ]);
+    const manager = new GmailLabelManager();
+
+    const labelIds = await manager.getLabelIds(gmail, 'Exec@example.com');
+    await manager.getLabelIds(gmail, 'exec@example.com');
+
+    expect(labelIds.detected).toBe('Label_detected');
+    expect(users.labels.list).toHaveBeenCalledTimes(1);
+    expect(users.labels.create.mock.calls.map(([args]) => args.requestBody.name)).toEqual([
+      'Scheduling/Replied',
+      'Scheduling/Confirmed',
+      'Scheduling/Needs-Human',
+      'Scheduling/Ignored',
+    ]);
+  });
+
+  it('replaces other scheduling labels and only removes UNREAD when asked', async () => {
+    const { gmail, users } = createGmailApi([]);
+    const manager = new GmailLabelManager();
+    const labelIds = await manager.getLabelIds(gmail, 'exec@example.com');
+
+    await manager.applyLabel(gmail, 'exec@example.com', 'm1', 'replied', false);
+    const leftUnread = users.messages.modify.mock.calls[0][0].requestBody;
+    expect(leftUnread.addLabelIds).toEqual([labelIds.replied]);
+    expect(leftUnread.removeLabelIds).toContain(labelIds.detected);
+    expect(leftUnread.removeLabelIds).not.toContain('UNREAD');
+
+    await manager.applyLabel(gmail, 'exec@example.com', 'm2', 'ignored', true);
+    expect(users.messages.modify.mock.calls[1][0].requestBody.removeLabelIds).toContain('UNREAD');
+  });
+
+  it('looks the labels up again once when a cached label has gone', async () => {
+    const { gmail, users } = createGmailApi([]);
+    const manager = new GmailLabelManager();
+    await manager.getLabelIds(gmail, 'exec@example.com');
+    users.messages.modify.mockRejectedValueOnce(Object.assign(new Error('Label not found'), { code: 404 }));
+
+    await manager.applyLabel(gmail, 'exec@example.com', 'm1', 'replied', true);
+
+    expect(users.labels.list).toHaveBeenCalledTimes(2);
+    expect(users.messages.modify).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('excludeSchedulingLabelsQuery', () => {
+  it('writes label names the way Gmail search expects', () => {
+    expect(excludeSchedulingLabelsQuery()).toContain('-label:scheduling-needs-human');
+  });
+});
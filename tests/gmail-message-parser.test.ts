@@ -0,0 +1,201 @@
+import { parseGmailMessage, toGmailMessage, parseAddressList, stripQuotedText, htmlToText, decodeEncodedWords } from '../src/gmail-message-parser';
+import { GmailMessage, GmailMessagePart } from '../src/types';
+
+function base64Url(text: string, encoding: BufferEncoding = 'utf-8'): string {
+  return Buffer.from(text, encoding).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function createPart(mimeType: string, data: string, headers: Array<{ name: string; value: string }> = []): GmailMessagePart {
+  return {
+    partId: '0',
+    mimeType,
+    filename: '',
+    headers: [{ name: 'Content-Type', value: `${mimeType}; charset="UTF-8"` }, ...headers],
+    body: { size: data.length, data: base64Url(data) },
+  };
+}
+
+function createMessage(payload: GmailMessagePart): GmailMessage {
+  return {
+    id: 'm1',
+    threadId: 't1',
+    labelIds: ['INBOX', 'UNREAD'],
+    snippet: 'Hi there, hope you are well',
+    historyId: 'h1',
+    internalDate: '1753000000000',
+    payload,
+    sizeEstimate: 1000,
+  };
+}
+
+describe('parseGmailMessage', () => {
+  it('prefers text/plain and keeps content past the greeting paragraph', () => {
+    const text = 'Hi there,\n\nHope you are well. It has been a while since we last caught up and a lot has happened.\n\nCould we meet Thursday at 3pm to go over the proposal?\n\nThanks,\nJane';
+    const message = createMessage({
+      partId: '',
+      mimeType: 'multipart/alternative',
+      filename: '',
+      headers: [
+        { name: 'From', value: '"Doe, Jane" <jane@example.com>' },
+        { name: 'To', value: 'me@example.com, Bob <bob@example.com>' },
+        { name: 'Subject', value: '=?UTF-8?B?Q2Fmw6kgbWVldGluZw==?=' },
+        { name: 'Message-ID', value: '<abc@example.com>' },
+      ],
+      body: { size: 0 },
+      parts: [createPart('text/plain', text), createPart('text/html', '<p>ignored</p>')],
+    });
+
+    const parsed = parseGmailMessage(message);
+
+    expect(parsed.body).toContain('Could we meet Thursday at 3pm');
+    expect(parsed.subject).toBe('Café meeting');
+    expect(parsed.from).toEqual({ name: 'Doe, Jane', email: 'jane@example.com' });
+    expect(parsed.to.map(a => a.email)).toEqual(['me@example.com', 'bob@example.com']);
+    expect(parsed.messageId).toBe('<abc@example.com>');
+  });
+
+  it('falls back to HTML converted to text', () => {
+    const message = createMessage({
+      partId: '',
+      mimeType: 'multipart/alternative',
+      filename: '',
+      headers: [],
+      body: { size: 0 },
+      parts: [createPart('text/html', '<div>Hello&nbsp;team,</div>\n<div>Lunch on <b>Friday</b>?</div><blockquote>old thread</blockquote>')],
+    });
+
+    const parsed = parseGmailMessage(message);
+
+    expect(parsed.body).toBe('Hello team,\n\nLunch on Friday?');
+  });
+
+  it('decodes non-UTF-8 charsets', () => {
+    const part = createPart('text/plain', '', [{ name: 'Content-Type', value: 'text/plain; charset=iso-8859-1' }]);
+    part.headers = [{ name: 'Content-Type', value: 'text/plain; charset=iso-8859-1' }];
+    part.body = { size: 12, data: base64Url('Réunion à 10h', 'latin1') };
+
+    expect(parseGmailMessage(createMessage(part)).body).toBe('Réunion à 10h');
+  });
+
+  it('collects attachment metadata without reading attachment bodies', () => {
+    const message = createMessage({
+      partId: '',
+      mimeType: 'multipart/mixed',
+      filename: '',
+      headers: [],
+      body: { size: 0 },
+      parts: [
+        createPart('text/plain', 'See attached agenda.'),
+        {
+          partId: '1',
+          mimeType: 'application/pdf',
+          filename: 'agenda.pdf',
+          headers: [{ name: 'Content-Disposition', value: 'attachment; filename="agenda.pdf"' }],
+          body: { size: 2048, attachmentId: 'att-1' },
+        },
+      ],
+    });
+
+    const parsed = parseGmailMessage(message);
+
+    expect(parsed.body).toBe('See attached agenda.');
+    expect(parsed.attachments).toEqual([
+      { partId: '1', filename: 'agenda.pdf', mimeType: 'application/pdf', size: 2048, attachmentId: 'att-1' },
+    ]);
+  });
+
+  it('keeps text/calendar parts for the invite parser', () => {
+    const ics = 'BEGIN:VCALENDAR\r\nMETHOD:REQUEST\r\nEND:VCALENDAR\r\n';
+    const message = createMessage({
+      partId: '',
+      mimeType: 'multipart/mixed',
+      filename: '',
+      headers: [],
+      body: { size: 0 },
+      parts: [
+        {
+          partId: '0',
+          mimeType: 'multipart/alternative',
+          filename: '',
+          headers: [],
+          body: { size: 0 },
+          parts: [createPart('text/plain', 'You have been invited.'), createPart('text/calendar', ics)],
+        },
+        { ...createPart('application/ics', ics), partId: '1', filename: 'invite.ics' },
+      ],
+    });
+
+    const parsed = parseGmailMessage(message);
+
+    expect(parsed.body).toBe('You have been invited.');
+    expect(parsed.calendarParts).toEqual([ics]);
+    expect(parsed.attachments.map(a => a.filename)).toEqual(['invite.ics']);
+  });
+});
+
+describe('toGmailMessage', () => {
+  it('fills the fields the API client leaves null or missing', () => {
+    const message = toGmailMessage({
+      id: 'm1',
+      threadId: null,
+      payload: {
+        mimeType: 'multipart/mixed',
+        headers: [{ name: 'Subject', value: null }],
+        parts: [{ partId: '1', mimeType: 'text/plain', body: { size: 5, data: base64Url('Hello') } }],
+      },
+    });
+
+    expect(message).toMatchObject({ id: 'm1', threadId: '', labelIds: [], snippet: '', sizeEstimate: 0 });
+    expect(message.payload?.headers).toEqual([{ name: 'Subject', value: '' }]);
+    expect(message.payload?.body).toEqual({ size: 0 });
+    expect(parseGmailMessage(message).body).toBe('Hello');
+  });
+});
+
+describe('stripQuotedText', () => {
+  it('removes reply headers, quoted lines and signatures', () => {
+    const text = [
+      'Tuesday works for me.',
+      '',
+      '-- ',
+      'Jane Doe | Acme',
+      '',
+      'On Mon, Jul 21, 2025 at 10:00 AM Bob <bob@example.com> wrote:',
+      '> Can we meet Tuesday?',
+    ].join('\n');
+
+    expect(stripQuotedText(text)).toBe('Tuesday works for me.');
+  });
+
+  it('handles wrapped reply headers and Outlook header blocks', () => {
+    expect(stripQuotedText('Sounds good.\n\nOn Mon, Jul 21, 2025 at 10:00 AM Bob Smith <bob@example.com>\nwrote:\n> hi')).toBe('Sounds good.');
+    expect(stripQuotedText('Confirmed.\n\nFrom: Bob Smith\nSent: Monday, July 21\nSubject: Meeting')).toBe('Confirmed.');
+  });
+});
+
+describe('parseAddressList', () => {
+  it('handles quoted names, comments and groups', () => {
+    expect(parseAddressList('"Smith, Ann" <ann@example.com>, carl@example.com (Carl Jones), Team: dee@example.com, Eve <eve@example.com>;')).toEqual([
+      { name: 'Smith, Ann', email: 'ann@example.com' },
+      { name: 'Carl Jones', email: 'carl@example.com' },
+      { name: '', email: 'dee@example.com' },
+      { name: 'Eve', email: 'eve@example.com' },
+    ]);
+  });
+});
+
+describe('htmlToText', () => {
+  it('converts line breaks, lists and entities', () => {
+    expect(htmlToText('<p>Options:</p><ul><li>Mon&#39;s 2pm</li><li>Tue 3pm</li></ul>')).toBe('Options:\n\n- Mon\'s 2pm\n- Tue 3pm');
+  });
+
+  it('leaves invalid numeric entities as they are', () => {
+    expect(htmlToText('<p>a&#99999999;b&#x110000;c&#xD800;d</p>')).toBe('a&#99999999;b&#x110000;c&#xD800;d');
+  });
+});
+
+describe('decodeEncodedWords', () => {
+  it('decodes Q-encoded words and joins adjacent ones', () => {
+    expect(decodeEncodedWords('=?ISO-8859-1?Q?Caf=E9_?= =?UTF-8?B?bWVldGluZw==?=')).toBe('Café meeting');
+  });
+});
@@ -125,8 +125,6 @@ describe('GmailMonitor', () => {
     mockGmailApi.users.messages.get.mockResolvedValue({ data: createFakeGmailMessage('1', 'Sender <sender@example.com>', 'meeting') });
     mockGmailApi.users.messages.send.mockResolvedValue({});
 
-    // @ts-ignore
-    gmailMonitor.seenMessageIds.clear();
     // @ts-ignore
     await gmailMonitor.pollUnreadMessages();
 
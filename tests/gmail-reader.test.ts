@@ -0,0 +1,113 @@
+import { gmail_v1 } from 'googleapis';
+import { downloadAttachment, getEmail, getThread } from '../src/gmail-reader';
+import { GmailMessage, GmailMessagePart } from '../src/types';
+
+function base64Url(data: Buffer | string): string {
+  return Buffer.from(data).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function message(id: string, internalDate: string, parts: GmailMessagePart[], labelIds: string[] = ['INBOX']): GmailMessage {
+  return {
+    id,
+    threadId: 'thread-1',
+    labelIds,
+    snippet: '',
+    historyId: 'h1',
+    internalDate,
+    sizeEstimate: 100,
+    payload: {
+      partId: '',
+      mimeType: 'multipart/mixed',
+      filename: '',
+      headers: [
+        { name: 'From', value: 'Jane <jane@partner.com>' },
+        { name: 'Subject', value: '=?UTF-8?Q?Caf=C3=A9_sync?=' },
+      ],
+      body: { size: 0 },
+      parts,
+    },
+  };
+}
+
+const textPart: GmailMessagePart = {
+  partId: '0', mimeType: 'text/plain', filename: '', headers: [], body: { size: 5, data: base64Url('Hello') },
+};
+const inlineAttachment: GmailMessagePart = {
+  partId: '1', mimeType: 'text/plain', filename: 'notes.txt',
+  headers: [{ name: 'Content-Disposition', value: 'attachment; filename="notes.txt"' }],
+  body: { size: 5, data: base64Url('notes') },
+};
+const largeAttachment: GmailMessagePart = {
+  partId: '2', mimeType: 'application/pdf', filename: 'deck.pdf', headers: [], body: { size: 4000, attachmentId: 'att-2' },
+};
+
+function fakeGmail(messages: GmailMessage[]) {
+  const attachmentsGet = jest.fn(async () => ({ data: { data: base64Url(Buffer.from([0xff, 0xfe, 0x00])) } }));
+  const gmail = {
+    users: {
+      messages: {
+        get: jest.fn(async ({ id }: { id: string }) => ({ data: messages.find(m => m.id === id) })),
+        attachments: { get: attachmentsGet },
+      },
+      threads: {
+        get: jest.fn(async () => ({ data: { id: 'thread-1', messages } })),
+      },
+      labels: {
+        list: jest.fn(async () => ({ data: { labels: [{ id: 'Label_3', name: 'Scheduling/Needs-Human' }] } })),
+      },
+    },
+  };
+  // Only the endpoints the readers call are faked
+  return { gmail: gmail as unknown as gmail_v1.Gmail, attachmentsGet };
+}
+
+describe('getEmail', () => {
+  it('returns decoded content, label names and the scheduling stage', async () => {
+    const { gmail } = fakeGmail([message('m1', '2000', [textPart, largeAttachment], ['INBOX', 'UNREAD', 'Label_3'])]);
+
+    const email = await getEmail(gmail, 'm1');
+
+    expect(email).toMatchObject({
+      id: 'm1',
+      subject: 'Café sync',
+      body: 'Hello',
+      labels: ['INBOX', 'UNREAD', 'Scheduling/Needs-Human'],
+      schedulingLabel: 'needs_human',
+      unread: true,
+      hasCalendarInvite: false,
+    });
+    expect(email.headers).toContainEqual({ name: 'Subject', value: 'Café sync' });
+    expect(email.attachments.map(a => a.filename)).toEqual(['deck.pdf']);
+  });
+});
+
+describe('getThread', () => {
+  it('orders messages oldest first', async () => {
+    const { gmail } = fakeGmail([message('late', '3000', [textPart]), message('early', '1000', [textPart])]);
+
+    const thread = await getThread(gmail, 'thread-1');
+
+    expect(thread.messages.map(m => m.id)).toEqual(['early', 'late']);
+    expect(thread.messages[0]!.schedulingLabel).toBeNull();
+  });
+});
+
+describe('downloadAttachment', () => {
+  const { gmail, attachmentsGet } = fakeGmail([message('m1', '1000', [textPart, inlineAttachment, largeAttachment])]);
+
+  it('returns inline part data as standard base64', async () => {
+    const content = await downloadAttachment(gmail, 'm1', { partId: '1' });
+    expect(content).toEqual({ messageId: 'm1', partId: '1', filename: 'notes.txt', mimeType: 'text/plain', size: 5, data: Buffer.from('notes').toString('base64') });
+  });
+
+  it('fetches attachment bodies by attachment ID', async () => {
+    const content = await downloadAttachment(gmail, 'm1', { attachmentId: 'att-2' });
+    expect(attachmentsGet).toHaveBeenCalledWith({ userId: 'me', messageId: 'm1', id: 'att-2' });
+    expect(content.data).toBe('//4A');
+  });
+
+  it('refuses attachments over the size limit and unknown parts', async () => {
+    await expect(downloadAttachment(gmail, 'm1', { partId: '2' }, 1000)).rejects.toThrow('over the 1000 byte limit');
+    await expect(downloadAttachment(gmail, 'm1', { partId: '9' })).rejects.toThrow('Attachment not found');
+  });
+});
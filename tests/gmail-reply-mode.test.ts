@@ -0,0 +1,132 @@
+import { gmail_v1 } from 'googleapis';
+import { GmailMonitor } from '../src/gmail-monitor';
+import { LedgerWriteError, messageLedger } from '../src/message-ledger';
+import { SettingsUnavailableError, userSettingsManager } from '../src/user-settings';
+import { MeetingRequestContext, ReplyMode } from '../src/types';
+import { getDefaultSchedulingPreferences } from '../src/scheduling-preferences';
+import { monitorInternals } from './helpers/gmail-monitor-internals';
+
+jest.mock('../src/calendar-monitor');
+jest.mock('../src/meeting-intent-detector');
+jest.mock('../src/message-ledger', () => require('./helpers/storage-mocks').inMemoryMessageLedger());
+jest.mock('../src/user-settings', () => require('./helpers/storage-mocks').inMemoryUserSettings());
+
+let nextUser = 1;
+
+const recommendations: MeetingRequestContext = {
+  extracted_preferences: { date_range: ['2025-07-24'], preferred_days: [], preferred_time: '' },
+  suggested_meeting_times: [],
+  meeting_context: { intent: 'schedule', meeting_type: 'sync', mentions_slots: false, user_action_required: '' },
+  meeting_duration: '30 minutes',
+  notes: '',
+};
+
+function meetingRequest(id: string): gmail_v1.Schema$Message {
+  return {
+    id,
+    threadId: `t-${id}`,
+    labelIds: ['INBOX', 'UNREAD'],
+    snippet: 'Can we meet Thursday?',
+    payload: {
+      mimeType: 'text/plain',
+      headers: [
+        { name: 'From', value: 'Sender <sender@example.com>' },
+        { name: 'Subject', value: 'Sync next week' },
+        { name: 'Message-ID', value: `<${id}@example.com>` },
+      ],
+      body: { size: 21, data: Buffer.from('Can we meet Thursday?').toString('base64url') },
+    },
+  };
+}
+
+async function createMonitor(replyMode: ReplyMode) {
+  const userEmail = `exec${nextUser++}@example.com`;
+  await userSettingsManager.updateSettings(userEmail, { reply_mode: replyMode });
+  const users = {
+    messages: {
+      get: jest.fn().mockImplementation(({ id }: gmail_v1.Params$Resource$Users$Messages$Get) =>
+        Promise.resolve({ data: meetingRequest(id!) })
+      ),
+      modify: jest.fn().mockResolvedValue({}),
+    },
+  };
+  const monitor = new GmailMonitor(jest.fn(), 'history');
+  const internals = monitorInternals(monitor);
+  // Only the endpoints processMessage calls are faked
+  internals.gmail = { users } as unknown as gmail_v1.Gmail;
+  internals.userEmail = userEmail;
+  internals.meetingIntentDetector.checkIfMessageMeetingRelated.mockResolvedValue(['2025-07-24']);
+  jest.spyOn(monitor, 'getMeetingRecommendations').mockResolvedValue(recommendations);
+  const draftMeetingReply = jest.spyOn(monitor, 'draftMeetingReply').mockResolvedValue('draft-1');
+  const sendMeetingReply = jest.spyOn(monitor, 'sendMeetingReply').mockResolvedValue('sent-1');
+  return { monitor, internals, userEmail, draftMeetingReply, sendMeetingReply };
+}
+
+describe('GmailMonitor reply modes', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('leaves a draft instead of sending in draft mode', async () => {
+    const { internals, userEmail, draftMeetingReply, sendMeetingReply } = await createMonitor('draft');
+
+    await internals.processMessage('m1');
+
+    expect(draftMeetingReply).toHaveBeenCalled();
+    expect(sendMeetingReply).not.toHaveBeenCalled();
+    expect(await messageLedger.getRecord(userEmail, 'm1')).toMatchObject({ outcome: 'drafted', draft_id: 'draft-1' });
+  });
+
+  it('only classifies the message when replies are off', async () => {
+    const { internals, userEmail, draftMeetingReply, sendMeetingReply } = await createMonitor('off');
+
+    await internals.processMessage('m1');
+
+    expect(draftMeetingReply).not.toHaveBeenCalled();
+    expect(sendMeetingReply).not.toHaveBeenCalled();
+    expect((await messageLedger.getRecord(userEmail, 'm1'))?.outcome).toBe('classified');
+  });
+
+  it('classifies the message in the user\'s time zone', async () => {
+    const { monitor, internals, userEmail } = await createMonitor('draft');
+    await userSettingsManager.updateSettings(userEmail, { scheduling: { ...getDefaultSchedulingPreferences(), time_zone: 'Asia/Tokyo' } });
+
+    await internals.processMessage('m1');
+
+    expect(internals.meetingIntentDetector.checkIfMessageMeetingRelated).toHaveBeenCalledWith(expect.any(String), expect.any(String), 'Asia/Tokyo', expect.any(String));
+    expect(monitor.getMeetingRecommendations).toHaveBeenCalledWith(expect.any(String), ['2025-07-24'], 'Asia/Tokyo', expect.any(String), 't-m1');
+  });
+
+  it('defers the message when settings cannot be read, without replying', async () => {
+    const { internals, userEmail, draftMeetingReply, sendMeetingReply } = await createMonitor('draft');
+    jest.spyOn(userSettingsManager, 'getSettings').mockRejectedValue(new SettingsUnavailableError(userEmail, new Error('timeout')));
+
+    await expect(internals.processMessage('m1')).rejects.toBeInstanceOf(SettingsUnavailableError);
+
+    expect(draftMeetingReply).not.toHaveBeenCalled();
+    expect(sendMeetingReply).not.toHaveBeenCalled();
+    expect((await messageLedger.getRecord(userEmail, 'm1'))?.outcome).toBe('deferred');
+    expect(await messageLedger.hasProcessed(userEmail, 'm1')).toBe(false);
+  });
+
+  it('hands the message to the user when a sent reply cannot be recorded', async () => {
+    const { monitor, internals, sendMeetingReply } = await createMonitor('send');
+    const recordOutcome = messageLedger.recordOutcome.bind(messageLedger);
+    jest.spyOn(messageLedger, 'recordOutcome').mockImplementation((ref, outcome, details) =>
+      outcome === 'replied' ? Promise.reject(new LedgerWriteError(ref.messageId, outcome, new Error('throttled'))) : recordOutcome(ref, outcome, details)
+    );
+    jest.spyOn(internals, 'bookConfirmedMeeting').mockResolvedValue(null);
+    const labelMessage = jest.spyOn(monitor, 'labelMessage');
+
+    await expect(internals.processMessage('m1')).rejects.toBeInstanceOf(LedgerWriteError);
+
+    expect(sendMeetingReply).toHaveBeenCalled();
+    expect(labelMessage).toHaveBeenLastCalledWith('m1', 'needs_human');
+  });
+});
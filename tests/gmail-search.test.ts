@@ -0,0 +1,97 @@
+import { gmail_v1 } from 'googleapis';
+import { buildSearchQuery, searchMessages } from '../src/gmail-search';
+import { GmailMessage } from '../src/types';
+
+function message(id: string, overrides: Partial<GmailMessage> = {}): GmailMessage {
+  return {
+    id,
+    threadId: `t-${id}`,
+    labelIds: ['INBOX', 'Label_7'],
+    snippet: `snippet ${id}`,
+    historyId: 'h1',
+    internalDate: '1753000000000',
+    sizeEstimate: 100,
+    payload: {
+      partId: '',
+      mimeType: 'text/plain',
+      filename: '',
+      headers: [
+        { name: 'From', value: 'Jane <jane@partner.com>' },
+        { name: 'To', value: 'exec@example.com' },
+        { name: 'Subject', value: `Subject ${id}` },
+        { name: 'Date', value: 'Mon, 21 Jul 2025 10:00:00 +0000' },
+      ],
+      body: { size: 5, data: Buffer.from(`Body ${id}`).toString('base64') },
+    },
+    ...overrides,
+  };
+}
+
+function fakeGmail(pages: string[][], messages: Record<string, GmailMessage>) {
+  const list = jest.fn(async ({ pageToken, maxResults }: { pageToken?: string; maxResults: number }) => {
+    const index = pageToken ? Number(pageToken) : 0;
+    return {
+      data: {
+        messages: (pages[index] || []).slice(0, maxResults).map(id => ({ id })),
+        nextPageToken: index + 1 < pages.length ? String(index + 1) : undefined,
+        resultSizeEstimate: pages.flat().length,
+      },
+    };
+  });
+  const get = jest.fn(async ({ id }: { id: string }) => {
+    if (!messages[id]) throw Object.assign(new Error('Not Found'), { code: 404 });
+    return { data: messages[id] };
+  });
+  const labels = jest.fn(async () => ({ data: { labels: [{ id: 'INBOX', name: 'INBOX' }, { id: 'Label_7', name: 'Scheduling/Replied' }] } }));
+  // Only the endpoints the search calls are faked
+  const gmail = { users: { messages: { list, get }, labels: { list: labels } } } as unknown as gmail_v1.Gmail;
+  return { gmail, list, get };
+}
+
+describe('buildSearchQuery', () => {
+  it('adds label and date filters', () => {
+    expect(buildSearchQuery({ query: ' from:jane ', labels: ['INBOX', 'Scheduling/Needs Human'], after: '2025-07-01', before: '2025-07-02T12:00:00Z' }))
+      .toBe('from:jane label:inbox label:scheduling-needs-human after:1751328000 before:1751457600');
+  });
+
+  it('rejects invalid dates', () => {
+    expect(() => buildSearchQuery({ query: '', after: 'last week' })).toThrow('Invalid after date');
+  });
+});
+
+describe('searchMessages', () => {
+  it('follows page tokens up to maxResults and returns structured results', async () => {
+    const { gmail, list } = fakeGmail([['a', 'b'], ['c', 'd'], ['e']], {
+      a: message('a'), b: message('b'), c: message('c'), d: message('d'), e: message('e'),
+    });
+
+    const response = await searchMessages(gmail, { query: 'meeting', maxResults: 3, includeBody: false });
+
+    expect(list).toHaveBeenCalledTimes(2);
+    expect(list.mock.calls[1]![0]).toMatchObject({ q: 'meeting', pageToken: '1', maxResults: 1 });
+    expect(response.results.map(r => r.id)).toEqual(['a', 'b', 'c']);
+    expect(response.nextPageToken).toBe('2');
+    expect(response.resultSizeEstimate).toBe(5);
+    expect(response.results[0]).toEqual({
+      id: 'a',
+      threadId: 't-a',
+      from: { name: 'Jane', email: 'jane@partner.com' },
+      to: [{ name: '', email: 'exec@example.com' }],
+      subject: 'Subject a',
+      date: 'Mon, 21 Jul 2025 10:00:00 +0000',
+      snippet: 'snippet a',
+      labels: ['INBOX', 'Scheduling/Replied'],
+      hasAttachments: false,
+    });
+  });
+
+  it('includes bodies on request and skips messages deleted since the list call', async () => {
+    const { gmail } = fakeGmail([['a', 'gone']], { a: message('a') });
+
+    const response = await searchMessages(gmail, { query: 'x', maxResults: 10, includeBody: true });
+
+    expect(response.results).toHaveLength(1);
+    expect(response.results[0]!.body).toBe('Body a');
+    expect(response.nextPageToken).toBeUndefined();
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  apiErrorStatus,
+  CircuitOpenError,
+  classifyApiError,
+  GoogleApiClient,
+  GoogleApiClientOptions,
+  isRetryableError,
+  parseRetryAfter,
+  PermanentApiError,
+  RetryableApiError,
+  withGoogleApiClient,
+} from '../src/google-api-client';
+
+const context = { api: 'gmail' as const, userEmail: 'exec@example.com', method: 'users.messages.get' };
+
+function apiError(status: number, options: { reason?: string; retryAfter?: string } = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), {
+    code: status,
+    response: { status, headers: options.retryAfter ? { 'retry-after': options.retryAfter } : {} },
+    ...(options.reason ? { errors: [{ reason: options.reason }] } : {}),
+  });
+}
+
+function createClient(overrides: Partial<GoogleApiClientOptions> = {}) {
+  let now = 1_000_000;
+  const sleeps: number[] = [];
+  const client = new GoogleApiClient({
+    maxRetries: 3,
+    baseDelayMs: 100,
+    maxDelayMs: 10_000,
+    quotaUnitsPerMinute: { gmail: 15_000, calendar: 600 },
+    breakerThreshold: 2,
+    breakerCooldownMs: 30_000,
+    sleep: async (ms) => { sleeps.push(ms); now += ms; },
+    random: () => 0.5,
+    now: () => now,
+    ...overrides,
+  });
+  return { client, sleeps, advance: (ms: number) => { now += ms; } };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('classifyApiError', () => {
+  it('separates retryable from permanent failures', () => {
+    expect(classifyApiError(apiError(503), context)).toBeInstanceOf(RetryableApiError);
+    expect(classifyApiError(apiError(429), context)).toBeInstanceOf(RetryableApiError);
+    expect(classifyApiError(apiError(403, { reason: 'userRateLimitExceeded' }), context)).toBeInstanceOf(RetryableApiError);
+    expect(classifyApiError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }), context)).toBeInstanceOf(RetryableApiError);
+
+    const notFound = classifyApiError(apiError(404), context);
+    expect(notFound).toBeInstanceOf(PermanentApiError);
+    // Existing checks on error.code keep working
+    expect((notFound as PermanentApiError).code).toBe(404);
+    expect(classifyApiError(apiError(403, { reason: 'insufficientPermissions' }), context)).toBeInstanceOf(PermanentApiError);
+  });
+
+  it('leaves errors that did not come from the API alone', () => {
+    const bug = new TypeError('x is undefined');
+    expect(classifyApiError(bug, context)).toBe(bug);
+    expect(isRetryableError(bug)).toBe(false);
+  });
+
+  it('parses Retry-After seconds and dates', () => {
+    expect(parseRetryAfter('7')).toBe(7000);
+    expect(parseRetryAfter('Mon, 21 Jul 2025 10:00:30 GMT', Date.parse('2025-07-21T10:00:00Z'))).toBe(30_000);
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+});
+
+describe('apiErrorStatus', () => {
+  it('reads the status from typed and raw errors', () => {
+    expect(apiErrorStatus(classifyApiError(apiError(404), context))).toBe(404);
+    expect(apiErrorStatus(apiError(410))).toBe(410);
+    expect(apiErrorStatus({ code: 'ECONNRESET' })).toBeUndefined();
+    expect(apiErrorStatus('boom')).toBeUndefined();
+  });
+});
+
+describe('GoogleApiClient retries', () => {
+  it('backs off with jitter and succeeds after transient failures', async () => {
+    const { client, sleeps } = createClient({ breakerThreshold: 10 });
+    const request = jest.fn()
+      .mockRejectedValueOnce(apiError(503))
+      .mockRejectedValueOnce(apiError(500))
+      .mockResolvedValue('ok');
+
+    await expect(client.call(context, request)).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(sleeps).toEqual([50, 100]);
+  });
+
+  it('honours Retry-After and gives up when it is too long', async () => {
+    const { client, sleeps } = createClient();
+    const request = jest.fn()
+      .mockRejectedValueOnce(apiError(429, { retryAfter: '2' }))
+      .mockRejectedValueOnce(apiError(429, { retryAfter: '3600' }));
+
+    const error = await client.call(context, request).then(() => null, (e: RetryableApiError) => e);
+    expect(error).toBeInstanceOf(RetryableApiError);
+    expect(error?.retryAfterMs).toBe(3_600_000);
+    expect(sleeps).toEqual([2000]);
+  });
+
+  it('does not retry permanent failures', async () => {
+    const { client } = createClient();
+    const request = jest.fn().mockRejectedValue(apiError(400));
+    await expect(client.call(context, request)).rejects.toBeInstanceOf(PermanentApiError);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('GoogleApiClient circuit breaker', () => {
+  it('opens after repeated outages and closes after a successful trial', async () => {
+    const { client, advance } = createClient({ maxRetries: 0 });
+    const failing = jest.fn().mockRejectedValue(apiError(503));
+
+    await expect(client.call(context, failing)).rejects.toBeInstanceOf(RetryableApiError);
+    await expect(client.call(context, failing)).rejects.toBeInstanceOf(RetryableApiError);
+    expect(client.getCircuitState('gmail')).toBe('open');
+
+    const request = jest.fn().mockResolvedValue('ok');
+    await expect(client.call(context, request)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(request).not.toHaveBeenCalled();
+    // Other APIs are unaffected
+    await expect(client.call({ ...context, api: 'calendar', method: 'events.list' }, request)).resolves.toBe('ok');
+
+    advance(30_000);
+    await expect(client.call(context, request)).resolves.toBe('ok');
+    expect(client.getCircuitState('gmail')).toBe('closed');
+  });
+
+  it('re-opens when the trial call fails', async () => {
+    const { client, advance } = createClient({ maxRetries: 0, breakerThreshold: 1 });
+    const failing = jest.fn().mockRejectedValue(apiError(502));
+    await expect(client.call(context, failing)).rejects.toBeInstanceOf(RetryableApiError);
+    advance(30_000);
+    await expect(client.call(context, failing)).rejects.toBeInstanceOf(RetryableApiError);
+    expect(client.getCircuitState('gmail')).toBe('open');
+    expect(failing).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('GoogleApiClient quota budget', () => {
+  it('waits when the per-user budget for the minute is spent', async () => {
+    const { client, sleeps } = createClient({ quotaUnitsPerMinute: { gmail: 200, calendar: 600 } });
+    const send = { ...context, method: 'users.messages.send' };
+    const request = jest.fn().mockResolvedValue('sent');
+
+    await client.call(send, request);
+    await client.call(send, request);
+    expect(sleeps).toEqual([]);
+    await client.call(send, request);
+    expect(sleeps).toEqual([60_000]);
+    // Budgets are per user
+    await client.call({ ...send, userEmail: 'other@example.com' }, request);
+    expect(sleeps).toHaveLength(1);
+  });
+});
+
+describe('withGoogleApiClient', () => {
+  it('routes resource methods through the client with their method path', async () => {
+    const { client } = createClient();
+    const call = jest.spyOn(client, 'call');
+    const raw = {
+      context: { options: {} },
+      users: {
+        getProfile: jest.fn().mockResolvedValue({ data: { historyId: '1' } }),
+        messages: { get: jest.fn().mockResolvedValue({ data: { id: 'm1' } }) },
+      },
+    };
+
+    const gmail = withGoogleApiClient(raw, 'gmail', 'exec@example.com', client);
+    await expect(gmail.users.messages.get({ id: 'm1' })).resolves.toEqual({ data: { id: 'm1' } });
+    await gmail.users.getProfile();
+
+    expect(call.mock.calls.map(([ctx]) => ctx.method)).toEqual(['users.messages.get', 'users.getProfile']);
+    expect(raw.users.messages.get).toHaveBeenCalledWith({ id: 'm1' });
+    expect(gmail.context).toBe(raw.context);
+  });
+});
@@ -0,0 +1,24 @@
+import { gmail_v1 } from 'googleapis';
+import { GmailMonitor } from '../../src/gmail-monitor';
+import { MeetingIntentDetector } from '../../src/meeting-intent-detector';
+import { BookedMeeting, EmailAddress, MeetingRequestContext } from '../../src/types';
+
+/**
+ * The private GmailMonitor members the monitor tests set up or drive directly
+ */
+export interface GmailMonitorInternals {
+  gmail: gmail_v1.Gmail;
+  userEmail: string;
+  meetingIntentDetector: jest.Mocked<MeetingIntentDetector>;
+  processMessage(messageId: string): Promise<void>;
+  bookConfirmedMeeting(
+    meetingContext: MeetingRequestContext,
+    attendees: EmailAddress[],
+    subject: string,
+    threadId?: string
+  ): Promise<BookedMeeting | null>;
+}
+
+export function monitorInternals(monitor: GmailMonitor): GmailMonitorInternals {
+  return monitor as unknown as GmailMonitorInternals;
+}
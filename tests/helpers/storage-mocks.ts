@@ -0,0 +1,24 @@
+/**
+ * jest.mock factories that back the storage singletons with in-memory storage, so tests
+ * that drive GmailMonitor never reach DynamoDB or Firestore:
+ *
+ *   jest.mock('../src/message-ledger', () => require('./helpers/storage-mocks').inMemoryMessageLedger());
+ */
+type MessageLedgerModule = typeof import('../../src/message-ledger');
+type UserSettingsModule = typeof import('../../src/user-settings');
+type HistoryCheckpointModule = typeof import('../../src/history-checkpoint-store');
+
+export function inMemoryMessageLedger(): MessageLedgerModule {
+  const actual = jest.requireActual<MessageLedgerModule>('../../src/message-ledger');
+  return { ...actual, messageLedger: new actual.ProcessedMessageLedger(new actual.InMemoryLedgerStorage()) };
+}
+
+export function inMemoryUserSettings(): UserSettingsModule {
+  const actual = jest.requireActual<UserSettingsModule>('../../src/user-settings');
+  return { ...actual, userSettingsManager: new actual.UserSettingsManager(new actual.InMemorySettingsStorage()) };
+}
+
+export function inMemoryHistoryCheckpoints(): HistoryCheckpointModule {
+  const actual = jest.requireActual<HistoryCheckpointModule>('../../src/history-checkpoint-store');
+  return { ...actual, historyCheckpointStore: new actual.InMemoryHistoryCheckpointStore() };
+}
@@ -0,0 +1,24 @@
+import { InMemoryHistoryCheckpointStore, createHistoryCheckpointStore } from '../src/history-checkpoint-store';
+import { DynamoDBHistoryCheckpointStore } from '../src/dynamodb-history-checkpoint-storage';
+import { FirestoreHistoryCheckpointStore } from '../src/firestore-history-checkpoint-storage';
+
+describe('InMemoryHistoryCheckpointStore', () => {
+  it('only moves a checkpoint forward', async () => {
+    const store = new InMemoryHistoryCheckpointStore();
+    expect(await store.getHistoryId('exec@example.com')).toBeNull();
+
+    await store.setHistoryId('exec@example.com', '900');
+    await store.setHistoryId('exec@example.com', '1000');
+    await store.setHistoryId('exec@example.com', '950');
+
+    expect(await store.getHistoryId('exec@example.com')).toBe('1000');
+  });
+});
+
+describe('createHistoryCheckpointStore', () => {
+  it('picks the store for the storage backend, defaulting to DynamoDB', () => {
+    expect(createHistoryCheckpointStore('memory')).toBeInstanceOf(InMemoryHistoryCheckpointStore);
+    expect(createHistoryCheckpointStore('firestore')).toBeInstanceOf(FirestoreHistoryCheckpointStore);
+    expect(createHistoryCheckpointStore('dynamodb')).toBeInstanceOf(DynamoDBHistoryCheckpointStore);
+  });
+});
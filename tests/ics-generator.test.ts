@@ -0,0 +1,97 @@
+import { buildCalendar, buildMeetingCalendar, escapeText, foldLine } from '../src/ics-generator';
+import { MeetingRequestContext } from '../src/types';
+
+const now = new Date('2025-07-21T10:00:00Z');
+const organizer = { name: 'Exec', email: 'exec@example.com' };
+const attendees = [{ name: 'Jane Doe', email: 'jane@partner.com' }, { name: '', email: 'bob@partner.com' }];
+
+function context(intent: string, slots: string[]): MeetingRequestContext {
+  return {
+    extracted_preferences: { date_range: [], preferred_days: [], preferred_time: '' },
+    suggested_meeting_times: [{ date: '2025-07-24', time_slots: slots, timezone: '-07:00' }],
+    meeting_context: { intent, meeting_type: 'sync', mentions_slots: true, user_action_required: 'confirm' },
+    meeting_duration: '30 minutes',
+    notes: 'Quarterly sync',
+  };
+}
+
+function unfold(content: string): string[] {
+  return content.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('buildMeetingCalendar', () => {
+  it('builds tentative proposals for suggested times', () => {
+    const calendar = buildMeetingCalendar(context('propose', ['15:00-15:30', '16:00-16:30']), {
+      uidKey: 'thread-1', summary: 'Re: Sync', organizer, attendees, now,
+    });
+    expect(calendar?.method).toBe('PUBLISH');
+    const lines = unfold(calendar!.content);
+    expect(lines).toContain('METHOD:PUBLISH');
+    expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(lines).toContain('UID:proposal-thread-1-1@mcp-email-agent');
+    expect(lines).toContain('UID:proposal-thread-1-2@mcp-email-agent');
+    expect(lines).toContain('DTSTART:20250724T220000Z');
+    expect(lines).toContain('DTEND:20250724T223000Z');
+    expect(lines).toContain('SUMMARY:Sync (proposed)');
+    expect(lines).toContain('STATUS:TENTATIVE');
+    expect(lines.some(line => line.startsWith('ATTENDEE'))).toBe(false);
+  });
+
+  it('builds a REQUEST invite when a single time is confirmed', () => {
+    const calendar = buildMeetingCalendar(context('confirming a time', ['15:00-15:30']), {
+      uidKey: 'thread-1', summary: 'Re: Sync', organizer, attendees, now,
+    });
+    expect(calendar?.method).toBe('REQUEST');
+    expect(unfold(calendar!.content)).toEqual([
+      'BEGIN:VCALENDAR',
+      'PRODID:-//MCP Email Agent//Meeting Scheduler//EN',
+      'VERSION:2.0',
+      'CALSCALE:GREGORIAN',
+      'METHOD:REQUEST',
+      'BEGIN:VEVENT',
+      'UID:meeting-thread-1@mcp-email-agent',
+      'DTSTAMP:20250721T100000Z',
+      'DTSTART:20250724T220000Z',
+      'DTEND:20250724T223000Z',
+      'SUMMARY:Sync',
+      'DESCRIPTION:Quarterly sync',
+      'ORGANIZER;CN="Exec":mailto:exec@example.com',
+      'ATTENDEE;CN="Jane Doe";ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:jane@partner.com',
+      'ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:bob@partner.com',
+      'STATUS:CONFIRMED',
+      'SEQUENCE:0',
+      'TRANSP:OPAQUE',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('falls back to proposals when a confirmation has several slots, and to null without slots', () => {
+    const options = { uidKey: 't', summary: 'Sync', organizer, attendees, now };
+    expect(buildMeetingCalendar(context('confirm', ['15:00-15:30', '16:00-16:30']), options)?.method).toBe('PUBLISH');
+    expect(buildMeetingCalendar(context('propose', ['whenever']), options)).toBeNull();
+  });
+});
+
+describe('content lines', () => {
+  it('escapes TEXT values', () => {
+    expect(escapeText('Lunch; 5th, Main\\Back\nRoom 2')).toBe('Lunch\\; 5th\\, Main\\\\Back\\nRoom 2');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const line = `SUMMARY:${'Réunion trimestrielle '.repeat(8)}`;
+    const folded = foldLine(line);
+    const parts = folded.split('\r\n');
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach(part => expect(Buffer.byteLength(part, 'utf-8')).toBeLessThanOrEqual(75));
+    expect(parts.slice(1).every(part => part.startsWith(' '))).toBe(true);
+    expect(folded.replace(/\r\n /g, '')).toBe(line);
+  });
+
+  it('ends every line with CRLF', () => {
+    const content = buildCalendar('PUBLISH', [], now);
+    expect(content.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(content.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+});
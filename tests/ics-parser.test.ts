@@ -0,0 +1,110 @@
+import { parseCalendarInvites, parseDuration, primaryInvite, resolveTimeZone, unescapeText } from '../src/ics-parser';
+
+const outlookInvite = [
+  'BEGIN:VCALENDAR',
+  'METHOD:REQUEST',
+  'PRODID:Microsoft Exchange Server 2010',
+  'VERSION:2.0',
+  'BEGIN:VTIMEZONE',
+  'TZID:Pacific Standard Time',
+  'BEGIN:STANDARD',
+  'DTSTART:16010101T020000',
+  'TZOFFSETFROM:-0700',
+  'TZOFFSETTO:-0800',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+  'BEGIN:VEVENT',
+  'ORGANIZER;CN="Doe, Jane":mailto:jane@partner.com',
+  'ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE;CN=Exec:mailto:',
+  ' exec@example.com',
+  'ATTENDEE;ROLE=OPT-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:bob@partner.com',
+  'UID:040000008200E00074C5B7101A82E008',
+  'SUMMARY;LANGUAGE=en-US:Roadmap review\\, Q3',
+  'DESCRIPTION:Agenda:\\n1. Roadmap\\n2. Budget',
+  'DTSTART;TZID=Pacific Standard Time:20250724T150000',
+  'DTEND;TZID=Pacific Standard Time:20250724T160000',
+  'SEQUENCE:2',
+  'STATUS:CONFIRMED',
+  'LOCATION:Room 4',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  'DESCRIPTION:REMINDER',
+  'TRIGGER;RELATED=START:-PT15M',
+  'END:VALARM',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('parseCalendarInvites', () => {
+  it('parses an Outlook invite with a Windows time zone and folded lines', () => {
+    const [invite] = parseCalendarInvites(outlookInvite);
+    expect(invite).toMatchObject({
+      method: 'REQUEST',
+      uid: '040000008200E00074C5B7101A82E008',
+      sequence: 2,
+      summary: 'Roadmap review, Q3',
+      description: 'Agenda:\n1. Roadmap\n2. Budget',
+      location: 'Room 4',
+      allDay: false,
+      timeZone: 'America/Los_Angeles',
+      status: 'CONFIRMED',
+      organizer: { name: 'Doe, Jane', email: 'jane@partner.com' },
+    });
+    expect(invite!.start).toEqual(new Date('2025-07-24T22:00:00Z'));
+    expect(invite!.end).toEqual(new Date('2025-07-24T23:00:00Z'));
+    expect(invite!.attendees).toEqual([
+      { name: 'Exec', email: 'exec@example.com', partstat: 'NEEDS-ACTION', role: 'REQ-PARTICIPANT', rsvp: true },
+      { name: '', email: 'bob@partner.com', partstat: 'ACCEPTED', role: 'OPT-PARTICIPANT', rsvp: false },
+    ]);
+  });
+
+  it('reads UTC times, DURATION and cancellations', () => {
+    const [invite] = parseCalendarInvites([
+      'BEGIN:VCALENDAR', 'METHOD:CANCEL', 'BEGIN:VEVENT', 'UID:abc@google.com',
+      'DTSTART:20250724T220000Z', 'DURATION:PT45M', 'STATUS:CANCELLED', 'END:VEVENT', 'END:VCALENDAR',
+    ].join('\n'));
+    expect(invite).toMatchObject({ method: 'CANCEL', status: 'CANCELLED', timeZone: 'UTC', organizer: null });
+    expect(invite!.end).toEqual(new Date('2025-07-24T22:45:00Z'));
+  });
+
+  it('reads all-day events and defaults to one day', () => {
+    const [invite] = parseCalendarInvites('BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nUID:offsite\r\nDTSTART;VALUE=DATE:20250801\r\nEND:VEVENT\r\nEND:VCALENDAR');
+    expect(invite).toMatchObject({ method: 'PUBLISH', allDay: true });
+    expect(invite!.end.getTime() - invite!.start.getTime()).toBe(24 * 60 * 60 * 1000);
+  });
+
+  it('drops events without a UID or start and prefers the master event', () => {
+    const invites = parseCalendarInvites([
+      'BEGIN:VCALENDAR', 'METHOD:REQUEST',
+      'BEGIN:VEVENT', 'UID:weekly', 'RECURRENCE-ID:20250731T150000Z', 'DTSTART:20250731T160000Z', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:weekly', 'RRULE:FREQ=WEEKLY', 'DTSTART:20250724T150000Z', 'END:VEVENT',
+      'BEGIN:VEVENT', 'SUMMARY:no uid', 'DTSTART:20250724T150000Z', 'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n'));
+    expect(invites).toHaveLength(2);
+    expect(primaryInvite(invites)).toMatchObject({ uid: 'weekly', rrule: 'FREQ=WEEKLY' });
+    expect(primaryInvite([])).toBeNull();
+  });
+});
+
+describe('value helpers', () => {
+  it('parses durations', () => {
+    expect(parseDuration('PT1H30M')).toBe(90 * 60 * 1000);
+    expect(parseDuration('P1W')).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(parseDuration('-PT15M')).toBe(-15 * 60 * 1000);
+    expect(parseDuration('P')).toBeNull();
+    expect(parseDuration('1 hour')).toBeNull();
+  });
+
+  it('resolves IANA, VTIMEZONE locations and Windows zone names', () => {
+    expect(resolveTimeZone('Europe/Berlin')).toBe('Europe/Berlin');
+    expect(resolveTimeZone('Custom', new Map([['Custom', 'Asia/Tokyo']]))).toBe('Asia/Tokyo');
+    expect(resolveTimeZone('Eastern Standard Time')).toBe('America/New_York');
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(resolveTimeZone('Mars Standard Time')).toBe('UTC');
+  });
+
+  it('unescapes TEXT values', () => {
+    expect(unescapeText('a\\, b\\; c\\\\d\\ne')).toBe('a, b; c\\d\ne');
+  });
+});
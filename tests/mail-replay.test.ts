@@ -0,0 +1,138 @@
+import * as path from 'path';
+import { FixtureCalendar, loadReplayMessages, replayMessages, splitMbox, ReplayDetector, formatReplaySummary } from '../src/mail-replay';
+import { parseGmailMessage } from '../src/gmail-message-parser';
+import { DEFAULT_MAILBOX_RULES } from '../src/mailbox-rules';
+import { MeetingRequestContext, UserSettings } from '../src/types';
+import { getDefaultSchedulingPreferences } from '../src/scheduling-preferences';
+
+const fixtures = path.join(__dirname, 'fixtures', 'replay');
+const USER = 'exec@example.com';
+
+const settings: UserSettings = {
+  user_email: USER,
+  reply_mode: 'send',
+  leave_unread: false,
+  attach_calendar: true,
+  add_meet_link: false,
+  calendar_ids: ['primary'],
+  scheduling: getDefaultSchedulingPreferences(),
+  rules: { ...DEFAULT_MAILBOX_RULES },
+  reply_policy: { recipients: 'sender', always_cc: [] },
+  updated_at: '2025-07-01T00:00:00.000Z',
+};
+
+function meetingContext(slots: string[], intent: string): MeetingRequestContext {
+  return {
+    extracted_preferences: { date_range: ['2025-07-24'], preferred_days: ['Thursday'], preferred_time: '12:00' },
+    suggested_meeting_times: [{ date: '2025-07-24', time_slots: slots, timezone: '+00:00' }],
+    meeting_context: { intent, meeting_type: 'lunch', mentions_slots: true, user_action_required: 'confirm' },
+    meeting_duration: '30 minutes',
+    notes: '',
+  };
+}
+
+function createDetector(): jest.Mocked<ReplayDetector> {
+  return {
+    checkIfMessageMeetingRelated: jest.fn<Promise<string[]>, Parameters<ReplayDetector['checkIfMessageMeetingRelated']>>(async (text) => /lunch|option/i.test(text) ? ['2025-07-24'] : []),
+    getMeetingRequestContext: jest.fn<Promise<MeetingRequestContext>, Parameters<ReplayDetector['getMeetingRequestContext']>>(async (text) =>
+      /option/i.test(text) ? meetingContext(['12:00-12:30'], 'confirm') : meetingContext(['13:00-13:30', '14:00-14:30'], 'propose')),
+    generateEmailResponse: jest.fn<Promise<string>, Parameters<ReplayDetector['generateEmailResponse']>>(async () => 'Thursday works, see you then.'),
+  };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('splitMbox', () => {
+  it('splits on From_ lines and unquotes >From body lines', () => {
+    const messages = splitMbox('From a@x Mon Jul 21 09:00:00 2025\nSubject: one\n\n>From here\nFrom b@x Mon Jul 21 10:00:00 2025\nSubject: two\n\nbody\n');
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toBe('Subject: one\r\n\r\nFrom here');
+    expect(messages[1]).toContain('Subject: two');
+  });
+});
+
+describe('loadReplayMessages', () => {
+  it('turns an mbox archive into Gmail-shaped messages grouped into threads', async () => {
+    const messages = await loadReplayMessages([path.join(fixtures, 'inbox.mbox')], USER);
+    expect(messages.map(m => m.source.split('#')[1])).toEqual(['1', '2', '3', '4', '5']);
+
+    const [request, ownReply, confirmation, newsletter, invite] = messages.map(m => m.message);
+    expect(ownReply!.threadId).toBe(request!.threadId);
+    expect(confirmation!.threadId).toBe(request!.threadId);
+    expect(newsletter!.threadId).not.toBe(request!.threadId);
+    expect(ownReply!.labelIds).toEqual(['SENT']);
+    expect(request!.labelIds).toEqual(['INBOX', 'UNREAD']);
+
+    const parsed = parseGmailMessage(request!);
+    expect(parsed.subject).toBe('Lunch next week?');
+    expect(parsed.from).toEqual({ name: 'Alice Smith', email: 'alice@example.com' });
+    expect(parsed.body).toContain('Thursday around noon?');
+    expect(parseGmailMessage(invite!).calendarParts[0]).toContain('METHOD:REQUEST');
+  });
+});
+
+describe('FixtureCalendar', () => {
+  it('returns the events on the requested dates and computes free slots around them', async () => {
+    const calendar = await FixtureCalendar.fromFile(path.join(fixtures, 'calendar.json'));
+    expect((await calendar.getBusyEvents(['2025-07-24'])).map(event => event.id)).toEqual(['ev1']);
+
+    const free = await calendar.getFreeSlotsForDates(['2025-07-24'], 'UTC');
+    expect(free.some(slot => slot.start.startsWith('2025-07-24T12:00'))).toBe(false);
+    expect(free.some(slot => slot.start.startsWith('2025-07-24T14:00'))).toBe(true);
+  });
+});
+
+describe('replayMessages', () => {
+  it('reports what would have been replied without sending anything', async () => {
+    const messages = await loadReplayMessages([path.join(fixtures, 'inbox.mbox')], USER);
+    const calendar = await FixtureCalendar.fromFile(path.join(fixtures, 'calendar.json'));
+    const detector = createDetector();
+
+    const report = await replayMessages(messages, { userEmail: USER, settings, calendar, detector });
+    const [request, ownReply, confirmation, newsletter, invite] = report.results;
+
+    expect(request).toMatchObject({
+      action: 'reply',
+      meetingDates: ['2025-07-24'],
+      reply: { to: ['alice@example.com'], cc: [], subject: 'Re: Lunch next week?', body: 'Thursday works, see you then.', calendarMethod: 'PUBLISH' },
+    });
+    expect(ownReply).toMatchObject({ action: 'skipped', reason: 'safeguard:own-address' });
+    expect(confirmation).toMatchObject({
+      action: 'reply',
+      reply: { calendarMethod: 'REQUEST' },
+      booking: { start: '2025-07-24T12:00:00.000Z', end: '2025-07-24T12:30:00.000Z', attendees: ['alice@example.com'] },
+    });
+    expect(request!.booking).toBeUndefined();
+    expect(newsletter).toMatchObject({ action: 'skipped', reason: 'safeguard:mailing-list' });
+    expect(invite).toMatchObject({ action: 'invite_response', reason: 'accept:free', reply: { to: ['bob@example.com'], calendarMethod: 'REPLY' } });
+
+    // Detection runs as of the day the message arrived, with the earlier thread messages as context
+    const [, today, , threadContext] = detector.checkIfMessageMeetingRelated.mock.calls[1]!;
+    expect(today).toBe('2025-07-21');
+    expect(threadContext).toContain('I could do Thursday 12:00-12:30');
+    expect(detector.getMeetingRequestContext.mock.calls[0]![3]).toEqual([
+      expect.objectContaining({ id: 'ev1' }),
+    ]);
+
+    expect(formatReplaySummary(report)).toContain('reply to alice@example.com');
+  });
+
+  it('respects sender rules and the off reply mode', async () => {
+    const messages = await loadReplayMessages([path.join(fixtures, 'inbox.mbox')], USER);
+    const calendar = new FixtureCalendar([]);
+    const report = await replayMessages(messages, {
+      userEmail: USER,
+      settings: { ...settings, reply_mode: 'off', rules: { ...settings.rules, deny: ['bob@example.com'] } },
+      calendar,
+      detector: createDetector(),
+    });
+
+    expect(report.results[0]).toMatchObject({ action: 'skipped', reason: 'reply-mode:off' });
+    expect(report.results[4]).toMatchObject({ action: 'skipped', reason: 'rule:deny:bob@example.com' });
+  });
+});
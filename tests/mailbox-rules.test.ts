@@ -0,0 +1,74 @@
+import { evaluateMailboxRules, matchesSenderPattern, buildUnreadQuery, DEFAULT_MAILBOX_RULES } from '../src/mailbox-rules';
+import { MailboxRules, ParsedEmail } from '../src/types';
+
+function createEmail(from: string, to: string[] = ['exec@example.com'], cc: string[] = []): ParsedEmail {
+  return {
+    id: 'm1',
+    threadId: 't1',
+    labelIds: ['INBOX', 'UNREAD'],
+    snippet: '',
+    internalDate: '1753000000000',
+    headers: [],
+    subject: 'Meeting',
+    from: { name: '', email: from },
+    to: to.map(email => ({ name: '', email })),
+    cc: cc.map(email => ({ name: '', email })),
+    replyTo: [],
+    date: '',
+    messageId: '',
+    body: 'Can we meet Tuesday?',
+    textBody: 'Can we meet Tuesday?',
+    htmlBody: '',
+    attachments: [],
+    calendarParts: [],
+  };
+}
+
+function rules(overrides: Partial<MailboxRules>): MailboxRules {
+  return { ...DEFAULT_MAILBOX_RULES, ...overrides };
+}
+
+describe('matchesSenderPattern', () => {
+  it('matches full addresses exactly and domains including subdomains', () => {
+    expect(matchesSenderPattern('Jane@Example.com', 'jane@example.com')).toBe(true);
+    expect(matchesSenderPattern('jane@example.com', 'bob@example.com')).toBe(false);
+    expect(matchesSenderPattern('@example.com', 'bob@mail.example.com')).toBe(true);
+    expect(matchesSenderPattern('example.com', 'bob@notexample.com')).toBe(false);
+  });
+});
+
+describe('evaluateMailboxRules', () => {
+  it('processes everything with the default rules', () => {
+    expect(evaluateMailboxRules(DEFAULT_MAILBOX_RULES, createEmail('a@news.com'), 'exec@example.com'))
+      .toEqual({ process: true, rule: 'default' });
+  });
+
+  it('reports the matching deny and allowlist rules', () => {
+    expect(evaluateMailboxRules(rules({ deny: ['news.com'] }), createEmail('a@news.com'), 'exec@example.com'))
+      .toEqual({ process: false, rule: 'deny:news.com' });
+    expect(evaluateMailboxRules(rules({ allow: ['partner.com'] }), createEmail('a@news.com'), 'exec@example.com'))
+      .toEqual({ process: false, rule: 'allowlist' });
+  });
+
+  it('lets VIP senders through deny and addressing rules', () => {
+    const vipRules = rules({ vip: ['ceo@partner.com'], deny: ['partner.com'], require_self_addressed: true });
+    expect(evaluateMailboxRules(vipRules, createEmail('ceo@partner.com', ['team@example.com']), 'exec@example.com'))
+      .toEqual({ process: true, rule: 'vip:ceo@partner.com' });
+  });
+
+  it('requires the user in To or Cc when configured', () => {
+    const selfRules = rules({ require_self_addressed: true });
+    expect(evaluateMailboxRules(selfRules, createEmail('a@b.com', ['team@example.com']), 'exec@example.com').rule)
+      .toBe('require_self_addressed');
+    expect(evaluateMailboxRules(selfRules, createEmail('a@b.com', ['team@example.com'], ['Exec@example.com']), 'exec@example.com').process)
+      .toBe(true);
+  });
+});
+
+describe('buildUnreadQuery', () => {
+  it('merges the user query into the unread search', () => {
+    expect(buildUnreadQuery(DEFAULT_MAILBOX_RULES)).toBe('is:unread');
+    expect(buildUnreadQuery(rules({ gmail_query: '-category:promotions OR from:vip.com' }), '-label:x'))
+      .toBe('is:unread -label:x (-category:promotions OR from:vip.com)');
+  });
+});
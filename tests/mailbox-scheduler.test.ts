@@ -0,0 +1,74 @@
+import { MailboxScheduler } from '../src/mailbox-scheduler';
+import { GmailMonitor } from '../src/gmail-monitor';
+import { tokenManager } from '../src/token-manager';
+
+jest.mock('../src/gmail-monitor');
+jest.mock('../src/token-manager', () => ({ tokenManager: { getUserEmails: jest.fn() } }));
+
+const MockGmailMonitor = GmailMonitor as jest.MockedClass<typeof GmailMonitor>;
+
+describe('MailboxScheduler', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    process.env = { ...originalEnv, GMAIL_NOTIFICATION_MODE: 'push', GMAIL_WATCH_TOPIC: 'projects/p/topics/gmail' };
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    (tokenManager.getUserEmails as jest.Mock).mockResolvedValue(['exec@example.com']);
+    MockGmailMonitor.prototype.initialize.mockImplementation(() => new Promise(resolve => setTimeout(() => resolve(true), 10)));
+    MockGmailMonitor.prototype.startPushNotifications.mockResolvedValue(true);
+    MockGmailMonitor.prototype.isPushActive.mockReturnValue(true);
+    MockGmailMonitor.prototype.releaseExpiredHolds.mockResolvedValue();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('creates one monitor per user however many callers ask at once', async () => {
+    const scheduler = new MailboxScheduler(jest.fn());
+
+    const requests = Promise.all([
+      scheduler.getOrCreateMonitor('exec@example.com'),
+      scheduler.getOrCreateMonitor('Exec@Example.com'),
+      scheduler.syncAccounts(),
+    ]);
+    await jest.advanceTimersByTimeAsync(10);
+    const [first, second] = await requests;
+
+    expect(MockGmailMonitor).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+  });
+
+  it('registers each mailbox\'s watch once on start', async () => {
+    const scheduler = new MailboxScheduler(jest.fn());
+    await Promise.all([scheduler.getOrCreateMonitor('exec@example.com'), jest.advanceTimersByTimeAsync(10)]);
+    (tokenManager.getUserEmails as jest.Mock).mockResolvedValue(['exec@example.com', 'cto@example.com']);
+
+    await Promise.all([scheduler.start(60000), jest.advanceTimersByTimeAsync(10)]);
+    await scheduler.stop();
+
+    expect(MockGmailMonitor.prototype.startPushNotifications).toHaveBeenCalledTimes(2);
+  });
+
+  it('syncs a push mailbox on the next cycle when its notification sync fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    MockGmailMonitor.prototype.handlePushNotification.mockRejectedValue(new Error('Quota exceeded'));
+    MockGmailMonitor.prototype.syncOnce.mockResolvedValue();
+    const scheduler = new MailboxScheduler(jest.fn());
+    await Promise.all([scheduler.start(60000), jest.advanceTimersByTimeAsync(10)]);
+    expect(MockGmailMonitor.prototype.syncOnce).not.toHaveBeenCalled();
+
+    await expect(scheduler.handleNotification({ emailAddress: 'exec@example.com', historyId: '42' })).rejects.toThrow('Quota exceeded');
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(MockGmailMonitor.prototype.syncOnce).toHaveBeenCalledTimes(1);
+
+    // Once caught up, the mailbox goes back to waiting for notifications
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(MockGmailMonitor.prototype.syncOnce).toHaveBeenCalledTimes(1);
+    await scheduler.stop();
+  });
+});
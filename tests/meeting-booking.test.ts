@@ -0,0 +1,86 @@
+import { appendMeetingDetails, bookedMeetingCalendar, buildEventResource, confirmedSlot, toBookedMeeting, THREAD_ID_PROPERTY } from '../src/meeting-booking';
+import { BookedMeeting, MeetingRequestContext } from '../src/types';
+
+function meetingContext(slots: string[], intent: string): MeetingRequestContext {
+  return {
+    extracted_preferences: { date_range: [], preferred_days: [], preferred_time: '' },
+    suggested_meeting_times: [{ date: '2025-07-24', time_slots: slots, timezone: '+02:00' }],
+    meeting_context: { intent, meeting_type: 'sync', mentions_slots: true, user_action_required: 'none' },
+    meeting_duration: '30 minutes',
+    notes: 'Quarterly planning',
+  };
+}
+
+const slot = { start: new Date('2025-07-24T13:00:00Z'), end: new Date('2025-07-24T13:30:00Z') };
+
+describe('confirmedSlot', () => {
+  it('returns the single confirmed slot', () => {
+    expect(confirmedSlot(meetingContext(['15:00-15:30'], 'confirm'))).toEqual(slot);
+  });
+
+  it('ignores proposals and ambiguous confirmations', () => {
+    expect(confirmedSlot(meetingContext(['15:00-15:30'], 'propose'))).toBeNull();
+    expect(confirmedSlot(meetingContext(['15:00-15:30', '16:00-16:30'], 'confirm'))).toBeNull();
+  });
+});
+
+describe('buildEventResource', () => {
+  const input = {
+    threadId: 'thread-1',
+    subject: 'Re: Planning',
+    slot,
+    attendees: [{ name: 'Alice', email: 'alice@example.com' }, { name: '', email: 'bob@example.com' }],
+    notes: 'Quarterly planning',
+    addMeetLink: false,
+  };
+
+  it('invites the thread participants and links back to the thread', () => {
+    expect(buildEventResource(input)).toEqual({
+      summary: 'Planning',
+      description: 'Quarterly planning\n\nScheduled by email: https://mail.google.com/mail/u/0/#all/thread-1',
+      start: { dateTime: '2025-07-24T13:00:00.000Z' },
+      end: { dateTime: '2025-07-24T13:30:00.000Z' },
+      attendees: [{ email: 'alice@example.com', displayName: 'Alice' }, { email: 'bob@example.com' }],
+      extendedProperties: { private: { [THREAD_ID_PROPERTY]: 'thread-1' } },
+    });
+  });
+
+  it('requests a Meet conference when asked to', () => {
+    const resource = buildEventResource({ ...input, addMeetLink: true }) as any;
+    expect(resource.conferenceData.createRequest.conferenceSolutionKey).toEqual({ type: 'hangoutsMeet' });
+    expect(resource.conferenceData.createRequest.requestId).toEqual(expect.any(String));
+  });
+});
+
+describe('booked meetings', () => {
+  const meeting: BookedMeeting = toBookedMeeting({
+    id: 'ev1',
+    iCalUID: 'ev1@google.com',
+    htmlLink: 'https://calendar.google.com/event?eid=ev1',
+    summary: 'Planning',
+    description: 'Scheduled by email',
+    start: { dateTime: '2025-07-24T15:00:00+02:00' },
+    end: { dateTime: '2025-07-24T15:30:00+02:00' },
+    attendees: [{ email: 'exec@example.com', organizer: true }, { email: 'alice@example.com', displayName: 'Alice' }],
+    conferenceData: { entryPoints: [{ entryPointType: 'video', uri: 'https://meet.google.com/abc-defg-hij' }] },
+  });
+
+  it('maps the Calendar API event', () => {
+    expect(meeting).toMatchObject({ eventId: 'ev1', iCalUID: 'ev1@google.com', start: slot.start, end: slot.end, meetLink: 'https://meet.google.com/abc-defg-hij' });
+  });
+
+  it('builds an invite with the event UID for everyone but the organizer', () => {
+    const calendar = bookedMeetingCalendar(meeting, { name: '', email: 'exec@example.com' });
+    const attendees = calendar.content.replace(/\r\n /g, '').split('\r\n').filter(line => line.startsWith('ATTENDEE'));
+    expect(calendar.method).toBe('REQUEST');
+    expect(calendar.content).toContain('UID:ev1@google.com');
+    expect(calendar.content).toContain('LOCATION:https://meet.google.com/abc-defg-hij');
+    expect(attendees).toHaveLength(1);
+    expect(attendees[0]).toContain('mailto:alice@example.com');
+  });
+
+  it('adds the Meet link to the reply', () => {
+    expect(appendMeetingDetails('See you then.\n', meeting)).toBe('See you then.\n\nJoin with Google Meet: https://meet.google.com/abc-defg-hij');
+    expect(appendMeetingDetails('See you then.', null)).toBe('See you then.');
+  });
+});
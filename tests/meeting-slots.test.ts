@@ -0,0 +1,48 @@
+import { parseSlot, slotsFromMeetingContext, toLuxonZone } from '../src/meeting-slots';
+import { MeetingRequestContext } from '../src/types';
+
+describe('toLuxonZone', () => {
+  it('accepts offsets, UTC and IANA names', () => {
+    expect(toLuxonZone('-07:00')).toBe('UTC-07:00');
+    expect(toLuxonZone('+8')).toBe('UTC+8');
+    expect(toLuxonZone('Z')).toBe('UTC');
+    expect(toLuxonZone('')).toBe('UTC');
+    expect(toLuxonZone('Europe/Berlin')).toBe('Europe/Berlin');
+  });
+});
+
+describe('parseSlot', () => {
+  it('converts a local time range to absolute times', () => {
+    expect(parseSlot('2025-07-24', '15:00-15:30', '-07:00')).toEqual({
+      start: new Date('2025-07-24T22:00:00Z'),
+      end: new Date('2025-07-24T22:30:00Z'),
+    });
+  });
+
+  it('handles IANA zones with daylight saving time', () => {
+    expect(parseSlot('2025-01-15', '09:00-10:00', 'America/New_York')?.start).toEqual(new Date('2025-01-15T14:00:00Z'));
+    expect(parseSlot('2025-07-15', '09:00-10:00', 'America/New_York')?.start).toEqual(new Date('2025-07-15T13:00:00Z'));
+  });
+
+  it('rejects malformed or empty ranges', () => {
+    expect(parseSlot('2025-07-24', '15:00', 'UTC')).toBeNull();
+    expect(parseSlot('2025-07-24', '15:30-15:00', 'UTC')).toBeNull();
+    expect(parseSlot('next week', '15:00-15:30', 'UTC')).toBeNull();
+    expect(parseSlot('2025-07-24', '15:00-15:30', 'Not/AZone')).toBeNull();
+  });
+});
+
+describe('slotsFromMeetingContext', () => {
+  it('flattens suggested times and skips unparseable slots', () => {
+    const context = {
+      suggested_meeting_times: [
+        { date: '2025-07-24', time_slots: ['10:00-10:30', 'soon'], timezone: 'UTC' },
+        { date: '2025-07-25', time_slots: ['11:00-11:30'], timezone: '+02:00' },
+      ],
+    } as MeetingRequestContext;
+    expect(slotsFromMeetingContext(context).map(slot => slot.start.toISOString())).toEqual([
+      '2025-07-24T10:00:00.000Z',
+      '2025-07-25T09:00:00.000Z',
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { ProcessedMessageLedger, InMemoryLedgerStorage, LedgerMessageRef, LedgerWriteError } from '../src/message-ledger';
+
+const USER = 'exec@example.com';
+
+function ref(messageId: string): LedgerMessageRef {
+  return { userEmail: USER, messageId, threadId: `t-${messageId}`, sender: 'sender@example.com' };
+}
+
+describe('ProcessedMessageLedger', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('treats every outcome but deferred as processed', async () => {
+    const ledger = new ProcessedMessageLedger(new InMemoryLedgerStorage());
+    expect(await ledger.hasProcessed(USER, 'm1')).toBe(false);
+
+    await ledger.recordOutcome(ref('m1'), 'deferred', { error: 'rate limited' });
+    expect(await ledger.hasProcessed(USER, 'm1')).toBe(false);
+
+    await ledger.recordOutcome(ref('m1'), 'failed', { error: 'Reply could not be sent' });
+    expect(await ledger.hasProcessed(USER, 'm1')).toBe(true);
+
+    await ledger.recordOutcome(ref('m2'), 'skipped', { skipReason: 'rule:deny:example.com' });
+    expect(await ledger.hasProcessed(USER, 'm2')).toBe(true);
+  });
+
+  it('keeps created_at and earlier reply IDs when an outcome is updated', async () => {
+    const ledger = new ProcessedMessageLedger(new InMemoryLedgerStorage());
+    jest.useFakeTimers({ now: new Date('2025-07-21T10:00:00Z') });
+    await ledger.recordOutcome(ref('m1'), 'drafted', { draftId: 'd1' });
+
+    jest.setSystemTime(new Date('2025-07-21T11:00:00Z'));
+    await ledger.recordOutcome(ref('m1'), 'replied', { replyMessageId: 'r1' });
+
+    expect(await ledger.getRecord(USER, 'm1')).toMatchObject({
+      outcome: 'replied',
+      draft_id: 'd1',
+      reply_message_id: 'r1',
+      created_at: '2025-07-21T10:00:00.000Z',
+      updated_at: '2025-07-21T11:00:00.000Z',
+    });
+  });
+
+  it('lists replies sent since a given time', async () => {
+    const ledger = new ProcessedMessageLedger(new InMemoryLedgerStorage());
+    jest.useFakeTimers({ now: new Date('2025-07-21T08:00:00Z') });
+    await ledger.recordOutcome(ref('old'), 'replied', { replyMessageId: 'r-old' });
+    jest.setSystemTime(new Date('2025-07-21T10:00:00Z'));
+    await ledger.recordOutcome(ref('new'), 'replied', { replyMessageId: 'r-new' });
+    await ledger.recordOutcome(ref('drafted'), 'drafted', { draftId: 'd1' });
+    await ledger.recordOutcome({ ...ref('other'), userEmail: 'cto@example.com' }, 'replied');
+
+    const replies = await ledger.getRepliesSince(USER, new Date('2025-07-21T09:00:00Z'));
+
+    expect(replies.map(record => record.message_id)).toEqual(['new']);
+  });
+
+  it('ignores and prunes records past their TTL', async () => {
+    const storage = new InMemoryLedgerStorage();
+    const ledger = new ProcessedMessageLedger(storage, 1);
+    jest.useFakeTimers({ now: new Date('2025-07-21T10:00:00Z') });
+    await ledger.recordOutcome(ref('m1'), 'replied');
+
+    jest.setSystemTime(new Date('2025-07-23T10:00:00Z'));
+
+    expect(await ledger.hasProcessed(USER, 'm1')).toBe(false);
+    expect(await ledger.pruneExpired()).toBe(1);
+    expect(await storage.getRecord(USER, 'm1')).toBeNull();
+  });
+
+  it('throws instead of dropping an outcome the storage rejects', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const storage = new InMemoryLedgerStorage();
+    jest.spyOn(storage, 'putRecord').mockRejectedValue(new Error('ProvisionedThroughputExceededException'));
+    const ledger = new ProcessedMessageLedger(storage);
+
+    await expect(ledger.recordOutcome(ref('m1'), 'replied', { replyMessageId: 'r1' })).rejects.toBeInstanceOf(LedgerWriteError);
+    expect(await ledger.hasProcessed(USER, 'm1')).toBe(false);
+  });
+});
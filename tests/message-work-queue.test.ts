@@ -0,0 +1,97 @@
+import { MessageWorkQueue } from '../src/message-work-queue';
+
+interface Deferred {
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+function deferred(): Deferred {
+  let resolve!: () => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<void>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('MessageWorkQueue', () => {
+  it('processes at most `concurrency` messages at once', async () => {
+    const started: string[] = [];
+    const running: Record<string, Deferred> = {};
+    const queue = new MessageWorkQueue(async (id) => {
+      started.push(id);
+      running[id] = deferred();
+      await running[id]!.promise;
+    }, { concurrency: 2, maxSize: 10 });
+
+    const jobs = await Promise.all(['a', 'b', 'c'].map(id => queue.enqueue(id)));
+    expect(started).toEqual(['a', 'b']);
+    expect(queue.getStats()).toMatchObject({ queued: 1, active: 2, processed: 0 });
+
+    running['a']!.resolve();
+    await jobs[0]!.done;
+    await flush();
+    expect(started).toEqual(['a', 'b', 'c']);
+
+    running['b']!.resolve();
+    running['c']!.resolve();
+    await Promise.all(jobs.map(job => job.done));
+    expect(queue.getStats()).toMatchObject({ queued: 0, active: 0, processed: 3, failed: 0 });
+  });
+
+  it('does not queue a message that is already queued or in progress', async () => {
+    const gate = deferred();
+    const worker = jest.fn(async () => { await gate.promise; });
+    const queue = new MessageWorkQueue(worker, { concurrency: 1, maxSize: 10 });
+
+    const first = await queue.enqueue('m1');
+    const again = await queue.enqueue('m1');
+    expect(again.done).toBe(first.done);
+    expect(queue.has('m1')).toBe(true);
+
+    gate.resolve();
+    await first.done;
+    expect(worker).toHaveBeenCalledTimes(1);
+    expect(queue.has('m1')).toBe(false);
+  });
+
+  it('makes producers wait while the queue is full', async () => {
+    const gate = deferred();
+    const queue = new MessageWorkQueue(async () => { await gate.promise; }, { concurrency: 1, maxSize: 1 });
+
+    await queue.enqueue('a'); // taken by the worker
+    await queue.enqueue('b'); // fills the queue
+    let accepted = false;
+    const waiting = queue.enqueue('c').then(job => { accepted = true; return job; });
+    await flush();
+    expect(accepted).toBe(false);
+
+    gate.resolve();
+    const job = await waiting;
+    await job.done;
+    expect(queue.getStats().processed).toBe(3);
+  });
+
+  it('reports failures through `done` and keeps processing', async () => {
+    const queue = new MessageWorkQueue(async (id) => {
+      if (id === 'bad') throw new Error('boom');
+    }, { concurrency: 1, maxSize: 10 });
+
+    const bad = await queue.enqueue('bad');
+    const good = await queue.enqueue('good');
+    await expect(bad.done).rejects.toThrow('boom');
+    await expect(good.done).resolves.toBeUndefined();
+    expect(queue.getStats()).toMatchObject({ processed: 1, failed: 1 });
+  });
+
+  it('measures latency from enqueue to completion', async () => {
+    let now = 1000;
+    const queue = new MessageWorkQueue(async () => { now += 250; }, { concurrency: 1, maxSize: 10, now: () => now });
+
+    expect(queue.getStats().averageLatencyMs).toBeNull();
+    await (await queue.enqueue('a')).done;
+    await (await queue.enqueue('b')).done;
+    expect(queue.getStats()).toMatchObject({ averageLatencyMs: 250, lastLatencyMs: 250 });
+  });
+});
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildMimeMessage, encodeHeaderValue, encodeQuotedPrintable, formatAddress, MimeMessageOptions } from '../src/mime-message-builder';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'mime');
+
+function sequentialBoundaries(): () => string {
+  let next = 1;
+  return () => `boundary-${next++}`;
+}
+
+// Compare against tests/fixtures/mime/<name>.eml; run with UPDATE_GOLDEN=1 to rewrite the fixtures
+function expectGolden(name: string, options: MimeMessageOptions): void {
+  const actual = buildMimeMessage(options, sequentialBoundaries());
+  const file = path.join(FIXTURES_DIR, `${name}.eml`);
+  if (process.env['UPDATE_GOLDEN'] === '1') {
+    fs.writeFileSync(file, actual);
+  }
+  expect(actual).toBe(fs.readFileSync(file, 'utf-8'));
+}
+
+const date = new Date('2025-07-21T10:00:00Z');
+
+describe('buildMimeMessage golden files', () => {
+  it('builds a plain text message', () => {
+    expectGolden('plain-text', {
+      from: 'exec@example.com',
+      to: ['jane@partner.com'],
+      subject: 'Sync next week',
+      text: 'Tuesday at 10:00 works.\nSee you then!',
+      date,
+      messageId: 'out-1@example.com',
+    });
+  });
+
+  it('builds a threaded reply with encoded headers and HTML alternative', () => {
+    expectGolden('reply-alternative', {
+      from: { name: 'Zoë Exec', email: 'exec@example.com' },
+      to: [{ name: 'Doe, Jane', email: 'jane@partner.com' }],
+      replyTo: [{ name: 'Scheduling Desk', email: 'desk@example.com' }],
+      subject: 'Re: Café meeting — next week ☕',
+      text: 'Does Wednesday at 14:00 work? The café is on the corner of 5th & Main, right next to the bookstore with the green door.',
+      html: '<div>Does <b>Wednesday</b> at 14:00 work?</div>',
+      date,
+      inReplyTo: '<msg-2@partner.com>',
+      references: ['<msg-1@partner.com>', '<msg-2@partner.com>'],
+      headers: { 'Auto-Submitted': 'auto-replied' },
+    });
+  });
+
+  it('builds a mixed message with Cc, Bcc and attachments', () => {
+    expectGolden('mixed-attachments', {
+      from: 'exec@example.com',
+      to: ['jane@partner.com'],
+      cc: [{ name: 'Bob', email: 'bob@partner.com' }],
+      bcc: ['assistant@example.com'],
+      subject: 'Agenda',
+      text: 'Agenda attached.',
+      html: '<p>Agenda attached.</p>',
+      date,
+      attachments: [
+        { filename: 'agenda.txt', mimeType: 'text/plain', content: '1. Intro\n2. Roadmap\n' },
+        { filename: 'Präsentation.pdf', mimeType: 'application/pdf', content: Buffer.from('%PDF-1.4 fake') },
+      ],
+    });
+  });
+
+  it('builds an invite with a text/calendar alternative and .ics attachment', () => {
+    const ics = 'BEGIN:VCALENDAR\r\nVERSION:2.0\r\nMETHOD:REQUEST\r\nEND:VCALENDAR\r\n';
+    expectGolden('calendar-invite', {
+      from: 'exec@example.com',
+      to: ['jane@partner.com'],
+      subject: 'Re: Sync',
+      text: 'Invite attached.',
+      date,
+      calendar: { method: 'REQUEST', content: ics },
+      attachments: [{ filename: 'invite.ics', mimeType: 'application/ics', content: ics }],
+    });
+  });
+});
+
+describe('header encoding', () => {
+  it('leaves ASCII alone and splits long non-ASCII values into encoded words', () => {
+    expect(encodeHeaderValue('Plain subject')).toBe('Plain subject');
+    const encoded = encodeHeaderValue('Réunion '.repeat(10).trim());
+    const words = encoded.split('\r\n ');
+    expect(words.length).toBeGreaterThan(1);
+    words.forEach(word => expect(word.length).toBeLessThanOrEqual(75));
+    const decoded = words.map(word => Buffer.from(word.slice(10, -2), 'base64').toString('utf-8')).join('');
+    expect(decoded).toBe('Réunion '.repeat(10).trim());
+  });
+
+  it('quotes display names with specials', () => {
+    expect(formatAddress({ name: 'Doe, "JJ" Jane', email: 'jane@partner.com' })).toBe('"Doe, \\"JJ\\" Jane" <jane@partner.com>');
+    expect(formatAddress({ name: '', email: 'jane@partner.com' })).toBe('jane@partner.com');
+  });
+});
+
+describe('encodeQuotedPrintable', () => {
+  it('escapes =, trailing whitespace and non-ASCII, and soft-wraps long lines', () => {
+    expect(encodeQuotedPrintable('a=b \nnaïve')).toBe('a=3Db=20\r\nna=C3=AFve');
+    const lines = encodeQuotedPrintable('x'.repeat(200)).split('\r\n');
+    lines.forEach(line => expect(line.length).toBeLessThanOrEqual(76));
+    expect(lines.map(line => line.replace(/=$/, '')).join('')).toBe('x'.repeat(200));
+  });
+});
@@ -0,0 +1,56 @@
+import { PendingReplyQueue, InMemoryPendingReplyStorage, NewPendingReply } from '../src/pending-reply-queue';
+
+function createReply(messageId: string): NewPendingReply {
+  return {
+    user_email: 'Exec@Example.com',
+    message_id: messageId,
+    thread_id: 't1',
+    to: 'sender@example.com',
+    cc: [],
+    subject: 'Re: Sync next week',
+    original_from: 'Sender <sender@example.com>',
+    original_body: 'Can we meet Tuesday?',
+    meeting_context: {
+      extracted_preferences: { date_range: ['2025-07-22'], preferred_days: ['Tuesday'], preferred_time: '' },
+      suggested_meeting_times: [{ date: '2025-07-22', time_slots: ['10:00-10:30'], timezone: '+00:00' }],
+      meeting_context: { intent: 'propose', meeting_type: 'sync', mentions_slots: false, user_action_required: 'confirm' },
+      meeting_duration: '30 minutes',
+      notes: '',
+    },
+    proposed_body: 'Tuesday at 10:00 works.',
+    slots: [{ date: '2025-07-22', time_slots: ['10:00-10:30'], timezone: '+00:00' }],
+  };
+}
+
+describe('PendingReplyQueue', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('lists pending replies until they are resolved', async () => {
+    const queue = new PendingReplyQueue(new InMemoryPendingReplyStorage());
+    const first = await queue.enqueue(createReply('m1'));
+    await queue.enqueue(createReply('m2'));
+
+    expect((await queue.listPending('exec@example.com')).map(r => r.message_id)).toEqual(['m1', 'm2']);
+
+    await queue.resolve(first, 'approved', { sentMessageId: 'sent-1', body: 'Edited body' });
+
+    expect((await queue.listPending('exec@example.com')).map(r => r.message_id)).toEqual(['m2']);
+    expect(await queue.getPending('exec@example.com', first.reply_id)).toBeNull();
+  });
+
+  it('expires stale replies and prunes them', async () => {
+    const storage = new InMemoryPendingReplyStorage();
+    const queue = new PendingReplyQueue(storage, 1);
+    jest.useFakeTimers({ now: new Date('2025-07-21T10:00:00Z') });
+    const reply = await queue.enqueue(createReply('m1'));
+
+    jest.setSystemTime(new Date('2025-07-21T11:30:00Z'));
+
+    expect(await queue.getPending('exec@example.com', reply.reply_id)).toBeNull();
+    expect(await queue.listPending('exec@example.com')).toEqual([]);
+    expect(await queue.pruneExpired()).toBe(1);
+    expect(await storage.listReplies('exec@example.com')).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+import { EventEmitter } from 'events';
+import { PubSubPullSubscriber } from '../src/pubsub-pull-subscriber';
+
+const subscription = Object.assign(new EventEmitter(), { close: jest.fn().mockResolvedValue(undefined) });
+
+jest.mock('@google-cloud/pubsub', () => ({
+  PubSub: jest.fn().mockImplementation(() => ({ subscription: jest.fn(() => subscription) })),
+}));
+
+function pulledMessage(data: string) {
+  return { id: 'msg-1', data: Buffer.from(data), ack: jest.fn(), nack: jest.fn() };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('PubSubPullSubscriber', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('acks handled notifications and nacks failed ones', async () => {
+    const handler = jest.fn().mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('sync failed'));
+    const subscriber = new PubSubPullSubscriber('gmail-pull', handler);
+    subscriber.start();
+
+    const handled = pulledMessage(JSON.stringify({ emailAddress: 'exec@example.com', historyId: 42 }));
+    subscription.emit('message', handled);
+    await flush();
+    expect(handler).toHaveBeenCalledWith({ emailAddress: 'exec@example.com', historyId: '42' });
+    expect(handled.ack).toHaveBeenCalled();
+
+    const failed = pulledMessage(JSON.stringify({ emailAddress: 'exec@example.com', historyId: 43 }));
+    subscription.emit('message', failed);
+    await flush();
+    expect(failed.nack).toHaveBeenCalled();
+    expect(failed.ack).not.toHaveBeenCalled();
+
+    await subscriber.stop();
+    expect(subscription.close).toHaveBeenCalled();
+    expect(subscriber.isRunning()).toBe(false);
+  });
+
+  it('acks messages that are not Gmail notifications without handling them', async () => {
+    const handler = jest.fn();
+    const subscriber = new PubSubPullSubscriber('gmail-pull', handler);
+    subscriber.start();
+
+    const malformed = pulledMessage('{"hello": "world"}');
+    subscription.emit('message', malformed);
+    await flush();
+
+    expect(malformed.ack).toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+    await subscriber.stop();
+  });
+});
@@ -0,0 +1,53 @@
+import { resolveReplyRecipients } from '../src/reply-recipients';
+import { EmailInfo, ReplyPolicy } from '../src/types';
+import { parseAddressList } from '../src/gmail-message-parser';
+
+function createEmailInfo(headers: { from: string; to: string; cc?: string; replyTo?: string }): EmailInfo {
+  const from = parseAddressList(headers.from)[0] || null;
+  return {
+    toEmail: from?.email || '',
+    senderName: from?.name || '',
+    originalSubject: 'Re: Planning',
+    headers: [],
+    messageId: '<m1@partner.com>',
+    from,
+    to: parseAddressList(headers.to),
+    cc: parseAddressList(headers.cc || ''),
+    replyTo: parseAddressList(headers.replyTo || ''),
+  };
+}
+
+const senderOnly: ReplyPolicy = { recipients: 'sender', always_cc: [] };
+const replyAll: ReplyPolicy = { recipients: 'reply_all', always_cc: [] };
+
+describe('resolveReplyRecipients', () => {
+  const emailInfo = createEmailInfo({
+    from: '"Doe, Jane" <jane@partner.com>',
+    to: 'Exec <exec@example.com>, Bob <bob@partner.com>',
+    cc: 'Team: carol@partner.com, Jane <JANE@partner.com>;',
+  });
+
+  it('replies to the sender only by default', () => {
+    expect(resolveReplyRecipients(emailInfo, senderOnly, 'exec@example.com')).toEqual({
+      to: [{ name: 'Doe, Jane', email: 'jane@partner.com' }],
+      cc: [],
+    });
+  });
+
+  it('copies everyone else on reply-all, minus the user and duplicates', () => {
+    const recipients = resolveReplyRecipients(emailInfo, replyAll, 'Exec@example.com');
+    expect(recipients.to.map(a => a.email)).toEqual(['jane@partner.com']);
+    expect(recipients.cc.map(a => a.email)).toEqual(['bob@partner.com', 'carol@partner.com']);
+  });
+
+  it('honours Reply-To and always-Cc addresses', () => {
+    const withReplyTo = createEmailInfo({
+      from: 'jane@partner.com',
+      to: 'exec@example.com',
+      replyTo: 'Jane Desk <desk@partner.com>',
+    });
+    const recipients = resolveReplyRecipients(withReplyTo, { recipients: 'sender', always_cc: ['Assistant <assistant@example.com>'] }, 'exec@example.com');
+    expect(recipients.to.map(a => a.email)).toEqual(['desk@partner.com']);
+    expect(recipients.cc).toEqual([{ name: 'Assistant', email: 'assistant@example.com' }]);
+  });
+});
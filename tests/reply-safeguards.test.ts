@@ -0,0 +1,83 @@
+import { detectAutomatedMessage, checkReplyCaps } from '../src/reply-safeguards';
+import { messageLedger } from '../src/message-ledger';
+import { ParsedEmail, ProcessedMessageRecord } from '../src/types';
+
+jest.mock('../src/message-ledger', () => ({
+  messageLedger: { getRepliesSince: jest.fn() },
+}));
+
+function createEmail(from: string, headers: Array<{ name: string; value: string }> = []): ParsedEmail {
+  return {
+    id: 'm1',
+    threadId: 't1',
+    labelIds: ['INBOX', 'UNREAD'],
+    snippet: '',
+    internalDate: '1753000000000',
+    headers,
+    subject: 'Meeting',
+    from: { name: '', email: from },
+    to: [{ name: '', email: 'exec@example.com' }],
+    cc: [],
+    replyTo: [],
+    date: '',
+    messageId: '',
+    body: 'Can we meet Tuesday?',
+    textBody: 'Can we meet Tuesday?',
+    htmlBody: '',
+    attachments: [],
+    calendarParts: [],
+  };
+}
+
+function createReply(threadId: string, sender: string): ProcessedMessageRecord {
+  return {
+    user_email: 'exec@example.com',
+    message_id: `${threadId}-${sender}`,
+    thread_id: threadId,
+    sender,
+    outcome: 'replied',
+    created_at: '2025-07-21T10:00:00.000Z',
+    updated_at: '2025-07-21T10:00:00.000Z',
+    expires_at: 0,
+  };
+}
+
+describe('detectAutomatedMessage', () => {
+  it('allows ordinary mail from other people', () => {
+    expect(detectAutomatedMessage(createEmail('jane@partner.com', [{ name: 'Auto-Submitted', value: 'no' }]), 'exec@example.com')).toBeNull();
+  });
+
+  it('flags out-of-office, bulk and list mail by header', () => {
+    expect(detectAutomatedMessage(createEmail('jane@partner.com', [{ name: 'Auto-Submitted', value: 'auto-replied' }]), 'exec@example.com'))
+      .toBe('auto-submitted:auto-replied');
+    expect(detectAutomatedMessage(createEmail('jane@partner.com', [{ name: 'Precedence', value: 'Bulk' }]), 'exec@example.com'))
+      .toBe('precedence:bulk');
+    expect(detectAutomatedMessage(createEmail('jane@partner.com', [{ name: 'List-Id', value: '<team.lists.partner.com>' }]), 'exec@example.com'))
+      .toBe('mailing-list');
+    expect(detectAutomatedMessage(createEmail('jane@partner.com', [{ name: 'Return-Path', value: '<>' }]), 'exec@example.com'))
+      .toBe('empty-return-path');
+  });
+
+  it('flags no-reply senders and the user\'s own address', () => {
+    expect(detectAutomatedMessage(createEmail('no-reply@partner.com'), 'exec@example.com')).toBe('no-reply-sender');
+    expect(detectAutomatedMessage(createEmail('Exec@Example.com'), 'exec@example.com')).toBe('own-address');
+  });
+});
+
+describe('checkReplyCaps', () => {
+  const ref = { userEmail: 'exec@example.com', messageId: 'm9', threadId: 't1', sender: 'jane@partner.com' };
+  const limits = { perThread: 2, perSender: 3, windowMs: 60 * 60 * 1000 };
+
+  it('stops replying once a thread or sender reaches its cap', async () => {
+    (messageLedger.getRepliesSince as jest.Mock).mockResolvedValue([createReply('t1', 'jane@partner.com'), createReply('t1', 'bob@partner.com')]);
+    expect(await checkReplyCaps(ref, limits)).toBe('thread-cap:2');
+
+    (messageLedger.getRepliesSince as jest.Mock).mockResolvedValue(['t2', 't3', 't4'].map(t => createReply(t, 'Jane@partner.com')));
+    expect(await checkReplyCaps(ref, limits)).toBe('sender-cap:3');
+  });
+
+  it('allows replies under the caps', async () => {
+    (messageLedger.getRepliesSince as jest.Mock).mockResolvedValue([createReply('t2', 'jane@partner.com')]);
+    expect(await checkReplyCaps(ref, limits)).toBeNull();
+  });
+});
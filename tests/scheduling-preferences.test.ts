@@ -0,0 +1,145 @@
+import {
+  applySchedulingPreferencesUpdate,
+  computeFreeGaps,
+  computeFreeSlots,
+  countMeetingsByDay,
+  datesBetween,
+  datesTimeRange,
+  describeSchedulingPreferences,
+  getDefaultSchedulingPreferences,
+  workingWindows,
+} from '../src/scheduling-preferences';
+import { SchedulingPreferences } from '../src/types';
+
+// 2025-07-24 is a Thursday, 2025-07-26 a Saturday
+const now = new Date('2025-07-21T08:00:00Z');
+
+function preferences(overrides: Partial<SchedulingPreferences> = {}): SchedulingPreferences {
+  return { ...getDefaultSchedulingPreferences(), time_zone: 'Europe/London', ...overrides };
+}
+
+const starts = (slots: Array<{ start: string }>) => slots.map(slot => slot.start.slice(11, 16));
+
+describe('workingWindows', () => {
+  it('uses the weekday\'s hours in the user\'s zone and cuts out lunch', () => {
+    const windows = workingWindows('2025-07-24', preferences({ lunch: { start: '12:00', end: '13:00' } }));
+    expect(windows.map(w => [w.start.toISO(), w.end.toISO()])).toEqual([
+      ['2025-07-24T09:00:00.000+01:00', '2025-07-24T12:00:00.000+01:00'],
+      ['2025-07-24T13:00:00.000+01:00', '2025-07-24T18:00:00.000+01:00'],
+    ]);
+    expect(workingWindows('2025-07-26', preferences())).toEqual([]);
+  });
+});
+
+describe('computeFreeSlots', () => {
+  it('offers meeting-length slots clear of busy time and buffers, in the requested zone', () => {
+    const slots = computeFreeSlots({
+      dates: ['2025-07-24', '2025-07-26'],
+      timeZone: 'UTC',
+      busy: [{ start: new Date('2025-07-24T09:00:00Z'), end: new Date('2025-07-24T10:00:00Z') }],
+      preferences: preferences({
+        working_hours: { thursday: { start: '09:00', end: '12:00' } },
+        default_duration_minutes: 60,
+        buffer_before_minutes: 15,
+        buffer_after_minutes: 0,
+      }),
+      now,
+    });
+    // 09:00-12:00 London is 08:00-11:00 UTC; 10:00 is inside the 15-minute buffer after the busy hour
+    expect(slots).toEqual([{ start: '2025-07-24T08:00:00.000Z', end: '2025-07-24T09:00:00.000Z' }]);
+  });
+
+  it('respects minimum notice, the daily meeting limit and marks held slots', () => {
+    const base = { timeZone: 'Europe/London', busy: [], preferences: preferences({ minimum_notice_hours: 4, max_meetings_per_day: 2 }) };
+    const soon = computeFreeSlots({ ...base, dates: ['2025-07-21'], now: new Date('2025-07-21T10:00:00Z') });
+    expect(starts(soon)[0]).toBe('15:00');
+
+    const full = computeFreeSlots({ ...base, dates: ['2025-07-24', '2025-07-25'], now, meetingsByDay: new Map([['2025-07-24', 2]]) });
+    expect(full.every(slot => slot.start.startsWith('2025-07-25'))).toBe(true);
+
+    const held = computeFreeSlots({
+      ...base,
+      dates: ['2025-07-24'],
+      now,
+      holds: [{ start: new Date('2025-07-24T09:00:00Z'), end: new Date('2025-07-24T09:30:00Z') }],
+    });
+    expect(held.find(slot => slot.start.startsWith('2025-07-24T10:00'))).toEqual(expect.objectContaining({ held: true }));
+  });
+});
+
+describe('computeFreeGaps', () => {
+  it('starts slots right after a busy interval and its buffer', () => {
+    const slots = computeFreeGaps({
+      dates: ['2025-07-24'],
+      timeZone: 'Europe/London',
+      busy: [{ start: new Date('2025-07-24T08:00:00Z'), end: new Date('2025-07-24T09:10:00Z') }],
+      preferences: preferences({ working_hours: { thursday: { start: '09:00', end: '12:00' } } }),
+      now,
+    });
+    expect(starts(slots)).toEqual(['10:15', '10:45', '11:15']);
+  });
+});
+
+describe('datesTimeRange', () => {
+  it('covers whole days in the user\'s zone without reordering the dates given', () => {
+    const dates = ['2025-07-25', '2025-07-24'];
+    const { timeMin, timeMax } = datesTimeRange(dates, 'America/Los_Angeles');
+    expect(timeMin.toISOString()).toBe('2025-07-24T07:00:00.000Z');
+    expect(timeMax.toISOString()).toBe('2025-07-26T06:59:59.999Z');
+    expect(dates).toEqual(['2025-07-25', '2025-07-24']);
+  });
+});
+
+describe('datesBetween', () => {
+  it('lists the local dates an interval touches', () => {
+    const start = new Date('2025-07-24T23:30:00Z');
+    const end = new Date('2025-07-25T00:30:00Z');
+    expect(datesBetween(start, end, 'UTC')).toEqual(['2025-07-24', '2025-07-25']);
+    expect(datesBetween(start, end, 'America/Los_Angeles')).toEqual(['2025-07-24']);
+  });
+});
+
+describe('countMeetingsByDay', () => {
+  it('counts meetings per local date, ignoring holds', () => {
+    const counts = countMeetingsByDay([
+      { id: 'a', summary: 'Late call', start: { dateTime: '2025-07-24T23:30:00Z' }, end: { dateTime: '2025-07-25T00:00:00Z' } },
+      { id: 'b', summary: 'Hold: x', start: { dateTime: '2025-07-25T09:00:00Z' }, end: { dateTime: '2025-07-25T09:30:00Z' }, hold: true },
+    ], preferences());
+    expect(Object.fromEntries(counts)).toEqual({ '2025-07-25': 1 });
+  });
+});
+
+describe('applySchedulingPreferencesUpdate', () => {
+  it('replaces only the given fields and turns null weekdays into days off', () => {
+    const updated = applySchedulingPreferencesUpdate(preferences(), {
+      working_hours: { friday: null, saturday: { start: '10:00', end: '12:00' } },
+      lunch: { start: '12:30', end: '13:30' },
+      default_duration_minutes: 45,
+    });
+    expect(Object.keys(updated.working_hours)).toEqual(['monday', 'tuesday', 'wednesday', 'thursday', 'saturday']);
+    expect(updated).toMatchObject({ time_zone: 'Europe/London', default_duration_minutes: 45, buffer_before_minutes: 5, lunch: { start: '12:30', end: '13:30' } });
+    expect(applySchedulingPreferencesUpdate(updated, { lunch: null }).lunch).toBeNull();
+  });
+
+  it('rejects invalid preferences', () => {
+    expect(() => applySchedulingPreferencesUpdate(preferences(), { time_zone: 'Mars/Olympus' })).toThrow('unknown time zone');
+    expect(() => applySchedulingPreferencesUpdate(preferences(), { working_hours: { monday: { start: '18:00', end: '09:00' } } })).toThrow('monday hours must end after it starts');
+    expect(() => applySchedulingPreferencesUpdate(preferences(), { buffer_after_minutes: -5 })).toThrow('buffer after must not be negative');
+  });
+});
+
+describe('describeSchedulingPreferences', () => {
+  it('summarises the preferences for the prompt', () => {
+    const text = describeSchedulingPreferences(preferences({
+      working_hours: { ...preferences().working_hours, friday: { start: '09:00', end: '13:00' } },
+      lunch: { start: '12:00', end: '13:00' },
+      minimum_notice_hours: 24,
+      max_meetings_per_day: 4,
+    }));
+    expect(text).toContain('Working hours (Europe/London time): Monday-Thursday 09:00-18:00, Friday 09:00-13:00; no meetings on Saturday, Sunday');
+    expect(text).toContain('Lunch 12:00-13:00 is kept free');
+    expect(text).toContain('Default meeting length: 30 minutes');
+    expect(text).toContain('less than 24 hours from now');
+    expect(text).toContain('At most 4 meetings per day');
+  });
+});
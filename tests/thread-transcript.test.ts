@@ -0,0 +1,49 @@
+import { buildThreadTranscript, formatThreadTranscript } from '../src/thread-transcript';
+import { GmailMessage } from '../src/types';
+
+function base64Url(text: string): string {
+  return Buffer.from(text, 'utf-8').toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function createMessage(id: string, from: string, text: string, internalDate: string, labelIds: string[] = ['INBOX']): GmailMessage {
+  return {
+    id,
+    threadId: 't1',
+    labelIds,
+    snippet: text,
+    historyId: 'h1',
+    internalDate,
+    payload: {
+      partId: '',
+      mimeType: 'text/plain',
+      filename: '',
+      headers: [{ name: 'From', value: from }],
+      body: { size: text.length, data: base64Url(text) },
+    },
+    sizeEstimate: 1000,
+  };
+}
+
+describe('buildThreadTranscript', () => {
+  const thread = [
+    createMessage('m3', 'Jane <jane@partner.com>', 'The second option works.', '1753000300000'),
+    createMessage('m1', 'Jane <jane@partner.com>', 'Can we meet next week?', '1753000100000'),
+    createMessage('m2', 'Exec <exec@example.com>', 'How about:\n1. Tue 10:00\n2. Wed 14:00', '1753000200000', ['SENT']),
+    createMessage('d1', 'Exec <exec@example.com>', 'Unsent draft', '1753000400000', ['DRAFT']),
+  ];
+
+  it('orders earlier messages and marks which came from the user', () => {
+    const transcript = buildThreadTranscript(thread, 'exec@example.com', 'm3');
+
+    expect(transcript.map(entry => [entry.messageId, entry.fromSelf])).toEqual([['m1', false], ['m2', true]]);
+    expect(transcript[1]?.body).toContain('2. Wed 14:00');
+  });
+
+  it('formats speakers for the prompt', () => {
+    const text = formatThreadTranscript(buildThreadTranscript(thread, 'exec@example.com', 'm3'));
+
+    expect(text).toContain('Counterpart (Jane <jane@partner.com>):\nCan we meet next week?');
+    expect(text).toContain('You (the user we act for):\nHow about:');
+    expect(text).not.toContain('Unsent draft');
+  });
+});
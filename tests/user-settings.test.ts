@@ -0,0 +1,28 @@
+import { InMemorySettingsStorage, SettingsUnavailableError, UserSettingsManager, UserSettingsStorage } from '../src/user-settings';
+
+describe('UserSettingsManager', () => {
+  it('fills in defaults for anything the user has not set', async () => {
+    const storage = new InMemorySettingsStorage();
+    const manager = new UserSettingsManager(storage);
+    await storage.putSettings({ ...manager.getDefaults('exec@example.com'), reply_mode: 'approve' });
+
+    const settings = await manager.getSettings('Exec@Example.com');
+
+    expect(settings.reply_mode).toBe('approve');
+    expect(settings.rules).toEqual(manager.getDefaults('exec@example.com').rules);
+  });
+
+  it('fails instead of falling back to defaults when storage cannot be read', async () => {
+    const storage: UserSettingsStorage = {
+      getSettings: jest.fn().mockRejectedValue(new Error('ProvisionedThroughputExceededException')),
+      putSettings: jest.fn(),
+    };
+    const manager = new UserSettingsManager(storage);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(manager.getSettings('exec@example.com')).rejects.toBeInstanceOf(SettingsUnavailableError);
+    // Nothing is written back over the stored settings either
+    await expect(manager.updateSettings('exec@example.com', { leave_unread: true })).rejects.toBeInstanceOf(SettingsUnavailableError);
+    expect(storage.putSettings).not.toHaveBeenCalled();
+  });
+});
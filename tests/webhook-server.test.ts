@@ -0,0 +1,68 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { app, setNotifyCallback } from '../src/webhook-server';
+
+function pushBody(data: unknown) {
+  const encoded = Buffer.from(typeof data === 'string' ? data : JSON.stringify(data)).toString('base64');
+  return JSON.stringify({ message: { data: encoded, messageId: '1', publishTime: '2025-07-21T10:00:00Z' }, subscription: 'gmail-webhook' });
+}
+
+describe('Gmail webhook', () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook/gmail`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const post = (body: string) => fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+  it('acknowledges before the mailbox sync finishes', async () => {
+    let finishSync!: () => void;
+    const callback = jest.fn(() => new Promise<void>(resolve => { finishSync = resolve; }));
+    setNotifyCallback(callback);
+
+    const res = await post(pushBody({ emailAddress: 'exec@example.com', historyId: 1234 }));
+
+    expect(res.status).toBe(200);
+    expect(callback).toHaveBeenCalledWith({ emailAddress: 'exec@example.com', historyId: '1234' });
+    finishSync();
+  });
+
+  it('acknowledges even when the sync fails, and logs the failure', async () => {
+    setNotifyCallback(jest.fn().mockRejectedValue(new Error('history.list failed')));
+
+    const res = await post(pushBody({ emailAddress: 'exec@example.com', historyId: 1235 }));
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(res.status).toBe(200);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('exec@example.com'), expect.any(Error));
+  });
+
+  it('acknowledges payloads that are not Gmail notifications without syncing', async () => {
+    const callback = jest.fn();
+    setNotifyCallback(callback);
+
+    const res = await post(pushBody('not json'));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ success: false, error: 'Invalid Gmail notification payload' });
+    expect(callback).not.toHaveBeenCalled();
+  });
+});